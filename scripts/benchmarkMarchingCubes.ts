@@ -0,0 +1,31 @@
+// Marching Cubes Benchmark
+// Density samples and runtime of generateMarchingCubes on 3D noise at 32³ and 128³.
+// Run from the repo root with `npm run bench`.
+//
+// Marching cubes samples each grid point once and shares edge vertices between cells, so the sample count is
+// exactly one per grid point. Timings depend on the machine; compare runs on the same one.
+
+import { generateMarchingCubes } from '../src/utils/marchingCubes'
+import type { MarchingCubesResult } from '../src/utils/marchingCubes'
+import { createNoiseSampler } from '../src/utils/noiseSampler'
+
+// Best of `runs` timings; samples are counted on the last run
+function benchmark(size: number, runs = 3) {
+  const sampler = createNoiseSampler() // Default OpenSimplex2, frequency 0.01
+  let samples = 0
+  const density = (x: number, y: number, z: number) => {
+    samples++
+    return -sampler.sample3D(x, y, z)
+  }
+  let best = Infinity
+  let result: MarchingCubesResult | undefined
+  for (let run = 0; run < runs; run++) {
+    samples = 0
+    const start = performance.now()
+    result = generateMarchingCubes(size, size, size, density, 0, true)
+    best = Math.min(best, performance.now() - start)
+  }
+  return `${size}³: ${samples.toLocaleString()} samples, ${best.toFixed(0)} ms, ${(result!.vertices.length / 3).toLocaleString()} vertices, ${(result!.indices.length / 3).toLocaleString()} triangles`
+}
+
+for (const size of [32, 128]) console.log(benchmark(size))
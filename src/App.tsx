@@ -1,12 +1,52 @@
 import { Canvas } from '@react-three/fiber'
 import { OrbitControls } from '@react-three/drei'
 import { useControls } from 'leva'
-import { useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import { Chunk } from './components/Chunk'
+import type { ChunkProps } from './components/Chunk'
+import { ChunkWorld } from './components/ChunkWorld'
 import { ChunkFrame } from './components/ChunkFrame'
 import { NoisePreview } from './components/NoisePreview'
 import { ChunkSizeControls } from './components/ChunkSizeControls'
 import { CloudSky } from './components/CloudSky'
+import { LayerStackPanel } from './components/LayerStackPanel'
+import { NodeGraphEditor } from './components/NodeGraphEditor'
+import { HeightCurveEditor } from './components/HeightCurveEditor'
+import { BiomePanel } from './components/BiomePanel'
+import { BlockPanel } from './components/BlockPanel'
+import { OrePanel } from './components/OrePanel'
+import { FeaturePanel } from './components/FeaturePanel'
+import { HeightmapFilterPanel } from './components/HeightmapFilterPanel'
+import type { NoiseSettings } from './utils/noiseEngines'
+import { getExpressionVariables } from './utils/noiseSampler'
+import type { NoiseSamplerOptions } from './utils/noiseSampler'
+import type { NoiseLayer } from './utils/noiseLayers'
+import { createDefaultGraph } from './utils/nodeGraph'
+import type { NoiseGraph } from './utils/nodeGraph'
+import { createDefaultHeightCurve } from './utils/heightCurve'
+import type { HeightCurve } from './utils/heightCurve'
+import { createDefaultBiomeSettings } from './utils/biomes'
+import type { BiomeSettings } from './utils/biomes'
+import { createDefaultBlockSettings } from './utils/blockTypes'
+import type { BlockPalette, BlockSettings } from './utils/blockTypes'
+import { createDefaultCaveSettings } from './utils/caves'
+import type { CaveSettings } from './utils/caves'
+import { createDefaultOreSettings } from './utils/ores'
+import type { OreSettings, OreStats } from './utils/ores'
+import { createDefaultWaterSettings } from './utils/water'
+import type { SeaLevelMode, WaterSettings } from './utils/water'
+import { createDefaultFeatureSettings } from './utils/features'
+import type { FeatureSettings } from './utils/features'
+import { createDefaultErosionSettings } from './utils/erosion'
+import type { ErosionPreview, HydraulicErosionSettings } from './utils/erosion'
+import { createDefaultHeightmapFilterSettings } from './utils/heightmapFilters'
+import type { HeightmapFilterSettings } from './utils/heightmapFilters'
+import { createDefaultTilingSettings } from './utils/tiling'
+import type { TilingSettings } from './utils/tiling'
+import { getHeightmapProcessing } from './utils/chunkGenerator'
+import type { BlockyMesher, MeshStats } from './utils/greedyMesher'
+import type { SmoothMesher } from './utils/smoothMeshers'
+import { loadStoredSetting, storeSetting } from './utils/settingsStorage'
 import './App.css'
 
 function App() {
@@ -15,7 +55,23 @@ function App() {
   const [manualUpdateTrigger, setManualUpdateTrigger] = useState(0)
   const [use3D, setUse3D] = useState(false) // Track 3D noise mode
   const [isSmooth, setIsSmooth] = useState(false) // Track smooth rendering mode
+  const [blockyMesher, setBlockyMesher] = useState<BlockyMesher>('instanced') // Instanced boxes or greedy mesh in blocky mode
+  const [smoothMesher, setSmoothMesher] = useState<SmoothMesher>('marchingCubes') // Polygonizer in smooth mode
+  const [meshStats, setMeshStats] = useState<MeshStats | null>(null) // Reported by the chunk
   const [mathExpression, setMathExpression] = useState("N") // Math expression for transforming noise
+  const [layers, setLayers] = useState<NoiseLayer[]>([]) // Ordered noise layer stack
+  const [layersEnabled, setLayersEnabled] = useState(false) // Whether the layer stack drives terrain and preview
+  const [graph, setGraph] = useState<NoiseGraph>(() => createDefaultGraph()) // Density node graph
+  const [graphEnabled, setGraphEnabled] = useState(false) // Whether the graph output drives terrain and preview
+  const [heightCurve, setHeightCurve] = useState<HeightCurve>(() => loadStoredSetting('heightCurve', createDefaultHeightCurve())) // Noise -> height spline
+  const [biomes, setBiomes] = useState<BiomeSettings>(() => loadStoredSetting('biomes', createDefaultBiomeSettings())) // Biome table
+  const [blocks, setBlocks] = useState<BlockSettings>(() => loadStoredSetting('blocks', createDefaultBlockSettings())) // Block type rules + palette
+  const [ores, setOres] = useState<OreSettings>(() => loadStoredSetting('ores', createDefaultOreSettings())) // Ore layers
+  const [oreStats, setOreStats] = useState<OreStats[] | null>(null) // Reported by the chunk
+  const [erosionPreview, setErosionPreview] = useState<ErosionPreview | null>(null) // Reported by the chunk
+  const [features, setFeatures] = useState<FeatureSettings>(() => loadStoredSetting('features', createDefaultFeatureSettings())) // Trees and rocks
+  const [heightmapFilters, setHeightmapFilters] = useState<HeightmapFilterSettings>(() => loadStoredSetting('heightmapFilters', createDefaultHeightmapFilterSettings())) // Heightmap post-process list
+  const [palettePresets, setPalettePresets] = useState<Record<string, BlockPalette>>(() => loadStoredSetting('blockPalettePresets', {})) // User palettes
   
   // State for chunk dimensions
   const [chunkSize, setChunkSize] = useState({ x: 32, y: 32, z: 32 })
@@ -28,9 +84,31 @@ function App() {
     isolevel: -1.0,
     amplitude: 8,
     verticalOffsetPercent: 25,
-    noiseSettings: {} as any
+    noiseSettings: {} as NoiseSettings,
+    layers: undefined as NoiseLayer[] | undefined,
+    graph: undefined as NoiseGraph | undefined,
+    expressionInputs: undefined as Record<string, NoiseSettings> | undefined,
+    heightCurve: undefined as HeightCurve | undefined,
+    biomes: undefined as BiomeSettings | undefined,
+    blocks: undefined as BlockSettings | undefined,
+    caves: undefined as CaveSettings | undefined,
+    ores: undefined as OreSettings | undefined,
+    water: undefined as WaterSettings | undefined,
+    features: undefined as FeatureSettings | undefined,
+    erosion: undefined as HydraulicErosionSettings | undefined,
+    heightmapFilters: undefined as HeightmapFilterSettings | undefined,
+    tiling: undefined as TilingSettings | undefined
   })
 
+  // Keep the height curve, biome table, block types, ores, features and heightmap filters across reloads
+  useEffect(() => storeSetting('heightCurve', heightCurve), [heightCurve])
+  useEffect(() => storeSetting('biomes', biomes), [biomes])
+  useEffect(() => storeSetting('blocks', blocks), [blocks])
+  useEffect(() => storeSetting('ores', ores), [ores])
+  useEffect(() => storeSetting('features', features), [features])
+  useEffect(() => storeSetting('heightmapFilters', heightmapFilters), [heightmapFilters])
+  useEffect(() => storeSetting('blockPalettePresets', palettePresets), [palettePresets])
+
   // Calculate frozen vertical offset based on percentage
   const frozenVerticalOffset = Math.floor((frozenValues.verticalOffsetPercent / 100) * chunkSize.y)
   // Leva controls for terrain parameters
@@ -44,7 +122,7 @@ function App() {
   const verticalOffset = Math.floor((verticalOffsetPercent / 100) * chunkSize.y)
 
   // General noise settings
-  const generalSettings = useControls('General', {
+  const [generalSettings, setGeneralSettings] = useControls('General', () => ({
     noiseType: { 
       value: 'OpenSimplex2', 
       options: ['OpenSimplex2', 'OpenSimplex2S', 'Cellular', 'Perlin', 'ValueCubic', 'Value']
@@ -55,10 +133,10 @@ function App() {
     },
     seed: 1337,
     frequency: { value: 0.01, pad: 4 }
-  })
+  }))
 
   // Fractal settings
-  const fractalSettings = useControls('Fractal', {
+  const [fractalSettings, setFractalSettings] = useControls('Fractal', () => ({
     type: { 
       value: 'None', 
       options: ['None', 'FBm', 'Ridged', 'PingPong', 'DomainWarpProgressive', 'DomainWarpIndependent']
@@ -68,10 +146,10 @@ function App() {
     gain: { value: 0.5, min: 0.0, max: 1.0, step: 0.01 },
     weightedStrength: { value: 0.0, min: -2.0, max: 2.0, step: 0.1 },
     pingPongStrength: { value: 2.0, min: 0.0, max: 10.0, step: 0.1 }
-  })
+  }))
 
   // Cellular settings
-  const cellularSettings = useControls('Cellular', {
+  const [cellularSettings, setCellularSettings] = useControls('Cellular', () => ({
     distanceFunction: { 
       value: 'EuclideanSq', 
       options: ['Euclidean', 'EuclideanSq', 'Manhattan', 'Hybrid']
@@ -81,10 +159,14 @@ function App() {
       options: ['CellValue', 'Distance', 'Distance2', 'Distance2Add', 'Distance2Sub', 'Distance2Mul', 'Distance2Div']
     },
     jitter: { value: 1.0, min: 0.0, max: 2.0, step: 0.05 }
-  })
+  }))
 
   // Domain Warp settings
-  const domainWarpSettings = useControls('Domain Warp', {
+  const [domainWarpSettings, setDomainWarpSettings] = useControls('Domain Warp', () => ({
+    mode: {
+      value: 'Manual',
+      options: ['Manual', 'Native']
+    },
     type: { 
       value: 'OpenSimplex2', 
       options: ['OpenSimplex2', 'OpenSimplex2Reduced', 'BasicGrid']
@@ -92,10 +174,10 @@ function App() {
     amplitude: 1.0,
     seed: 1337,
     frequency: { value: 0.01, pad: 4 }
-  })
+  }))
 
   // Domain Warp Fractal settings
-  const domainWarpFractalSettings = useControls('Domain Warp Fractal', {
+  const [domainWarpFractalSettings, setDomainWarpFractalSettings] = useControls('Domain Warp Fractal', () => ({
     type: { 
       value: 'None', 
       options: ['None', 'Progressive', 'Independent']
@@ -103,10 +185,11 @@ function App() {
     octaves: { value: 3, min: 1, max: 16, step: 1 },
     lacunarity: { value: 2.0, min: 0.1, max: 4.0, step: 0.1 },
     gain: { value: 0.5, min: 0.0, max: 1.0, step: 0.01 }
-  })
+  }))
 
-  // Combine all noise settings with proper mapping
-  const noiseSettings = {
+  // Combine all noise settings with proper mapping. Memoized so the chunk only regenerates when a value
+  // changes (chunk callbacks like ore stats re-render App)
+  const noiseSettings = useMemo(() => ({
     // General
     noiseType: generalSettings.noiseType,
     rotationType3D: generalSettings.rotationType3D,
@@ -128,11 +211,174 @@ function App() {
     domainWarpAmp: domainWarpSettings.amplitude,
     domainWarpSeed: domainWarpSettings.seed,
     domainWarpFrequency: domainWarpSettings.frequency,
+    domainWarpMode: domainWarpSettings.mode,
     // Domain Warp Fractal
     domainWarpFractalType: domainWarpFractalSettings.type,
     domainWarpFractalOctaves: domainWarpFractalSettings.octaves,
     domainWarpFractalLacunarity: domainWarpFractalSettings.lacunarity,
     domainWarpFractalGain: domainWarpFractalSettings.gain
+  }), [generalSettings, fractalSettings, cellularSettings, domainWarpSettings, domainWarpFractalSettings])
+
+  // Secondary noises for the math expression, based on the panel noise with their own type/seed/frequency
+  const expressionInputSettings = useControls('Expression Inputs', {
+    n2Type: { value: 'OpenSimplex2', options: ['OpenSimplex2', 'OpenSimplex2S', 'Cellular', 'Perlin', 'ValueCubic', 'Value'], label: 'N2 type' },
+    n2Seed: { value: 7331, label: 'N2 seed' },
+    n2Frequency: { value: 0.005, pad: 4, label: 'N2 frequency' },
+    n3Type: { value: 'Cellular', options: ['OpenSimplex2', 'OpenSimplex2S', 'Cellular', 'Perlin', 'ValueCubic', 'Value'], label: 'N3 type' },
+    n3Seed: { value: 4242, label: 'N3 seed' },
+    n3Frequency: { value: 0.02, pad: 4, label: 'N3 frequency' }
+  })
+
+  const expressionInputs: Record<string, NoiseSettings> = useMemo(() => ({
+    N2: { ...noiseSettings, noiseType: expressionInputSettings.n2Type, seed: expressionInputSettings.n2Seed, frequency: expressionInputSettings.n2Frequency },
+    N3: { ...noiseSettings, noiseType: expressionInputSettings.n3Type, seed: expressionInputSettings.n3Seed, frequency: expressionInputSettings.n3Frequency }
+  }), [noiseSettings, expressionInputSettings])
+  const expressionVariables = useMemo(() => getExpressionVariables(expressionInputs), [expressionInputs])
+
+  // Cave carving for 2D mode
+  const defaultCaves = createDefaultCaveSettings()
+  const caves: CaveSettings = useControls('Caves', {
+    enabled: defaultCaves.enabled,
+    seed: defaultCaves.seed,
+    cheeseEnabled: { value: defaultCaves.cheeseEnabled, label: 'cheese' },
+    cheeseFrequency: { value: defaultCaves.cheeseFrequency, min: 0.001, max: 0.2, step: 0.001, label: 'cheese freq' },
+    cheeseThreshold: { value: defaultCaves.cheeseThreshold, min: -1, max: 1, step: 0.01, label: 'cheese threshold' },
+    spaghettiEnabled: { value: defaultCaves.spaghettiEnabled, label: 'spaghetti' },
+    spaghettiFrequency: { value: defaultCaves.spaghettiFrequency, min: 0.001, max: 0.2, step: 0.001, label: 'spaghetti freq' },
+    spaghettiThickness: { value: defaultCaves.spaghettiThickness, min: 0, max: 0.5, step: 0.01, label: 'tunnel radius' },
+    surfaceFade: { value: defaultCaves.surfaceFade, min: 0, max: 16, step: 1, label: 'surface fade' },
+    floor: { value: defaultCaves.floor, min: 0, max: 16, step: 1 }
+  }, { collapsed: true })
+
+  // Sea level and water fill
+  const defaultWater = createDefaultWaterSettings()
+  const waterControls = useControls('Water', {
+    enabled: defaultWater.enabled,
+    mode: { value: defaultWater.mode, options: ['absolute', 'percent'] },
+    level: { value: defaultWater.level, min: 0, max: 256, step: 1, label: 'sea level' },
+    levelPercent: { value: defaultWater.levelPercent, min: 0, max: 100, step: 1, label: 'sea level %' },
+    beachWidth: { value: defaultWater.beachWidth, min: 0, max: 8, step: 1, label: 'beach width' },
+    tintPreview: { value: defaultWater.tintPreview, label: 'tint preview' }
+  }, { collapsed: true })
+  const water: WaterSettings = useMemo(() => ({ ...waterControls, mode: waterControls.mode as SeaLevelMode }), [waterControls])
+
+  // Droplet erosion of the 2D heightmap
+  const defaultErosion = createDefaultErosionSettings()
+  const erosion: HydraulicErosionSettings = useControls('Hydraulic Erosion', {
+    enabled: defaultErosion.enabled,
+    seed: defaultErosion.seed,
+    iterations: { value: defaultErosion.iterations, min: 0, max: 50000, step: 500, label: 'droplets' },
+    erosionRate: { value: defaultErosion.erosionRate, min: 0, max: 1, step: 0.01, label: 'erosion rate' },
+    depositionRate: { value: defaultErosion.depositionRate, min: 0, max: 1, step: 0.01, label: 'deposition rate' },
+    inertia: { value: defaultErosion.inertia, min: 0, max: 0.99, step: 0.01 },
+    evaporation: { value: defaultErosion.evaporation, min: 0, max: 0.5, step: 0.005 },
+    capacity: { value: defaultErosion.capacity, min: 0.5, max: 16, step: 0.5 },
+    radius: { value: defaultErosion.radius, min: 1, max: 6, step: 1, label: 'brush radius' }
+  }, { collapsed: true })
+
+  // Seamless tiling of the terrain noise
+  const defaultTiling = createDefaultTilingSettings()
+  const tiling: TilingSettings = useControls('Tiling', {
+    enabled: defaultTiling.enabled,
+    period: { value: defaultTiling.period, min: 8, max: 512, step: 8 }
+  }, { collapsed: true })
+
+  // Streamed grid of chunks around the camera target
+  const world = useControls('World', {
+    enabled: false,
+    radius: { value: 1, min: 1, max: 4, step: 1, label: 'chunk radius' },
+    cacheSize: { value: 64, min: 9, max: 256, step: 1, label: 'cached chunks' },
+    lod: { value: false, label: 'smooth LOD' },
+    lodRingWidth: { value: 1, min: 1, max: 4, step: 1, label: 'LOD ring width' },
+    lodColors: { value: false, label: 'LOD colors' }
+  }, { collapsed: true })
+
+  // Erosion and the heightmap filters are per chunk, so the world view leaves them out
+  const heightmapProcessing = getHeightmapProcessing({ use3D, seamless: false }, erosion, heightmapFilters)
+  const heightmapNotice = world.enabled && (heightmapProcessing.hydraulic || heightmapProcessing.filters)
+    ? 'Hydraulic erosion and filters are off in the world view: they only see one chunk, so neighbours would not line up.'
+    : undefined
+
+  // Push stored settings (e.g. a noise layer) back into the Leva panels
+  const loadSettingsIntoPanels = (settings: NoiseSettings) => {
+    setGeneralSettings({
+      noiseType: settings.noiseType,
+      rotationType3D: settings.rotationType3D,
+      seed: settings.seed,
+      frequency: settings.frequency
+    })
+    setFractalSettings({
+      type: settings.fractalType,
+      octaves: settings.fractalOctaves,
+      lacunarity: settings.fractalLacunarity,
+      gain: settings.fractalGain,
+      weightedStrength: settings.fractalWeightedStrength,
+      pingPongStrength: settings.fractalPingPongStrength
+    })
+    setCellularSettings({
+      distanceFunction: settings.cellularDistanceFunction,
+      returnType: settings.cellularReturnType,
+      jitter: settings.cellularJitter
+    })
+    setDomainWarpSettings({
+      mode: settings.domainWarpMode ?? 'Manual',
+      type: settings.domainWarpType,
+      amplitude: settings.domainWarpAmp,
+      seed: settings.domainWarpSeed ?? settings.seed,
+      frequency: settings.domainWarpFrequency ?? settings.frequency
+    })
+    setDomainWarpFractalSettings({
+      type: settings.domainWarpFractalType,
+      octaves: settings.domainWarpFractalOctaves,
+      lacunarity: settings.domainWarpFractalLacunarity,
+      gain: settings.domainWarpFractalGain
+    })
+  }
+
+  // Layer stack replaces the single panel noise when enabled
+  const activeLayers = layersEnabled ? layers : undefined
+  // Node graph takes priority over both when enabled
+  const activeGraph = graphEnabled ? graph : undefined
+
+  // Noise sources for the height curve histogram (memoized so it only re-samples when they change)
+  const tilePeriod = tiling.enabled ? tiling.period : undefined
+  const curveSamplerOptions: NoiseSamplerOptions = useMemo(() => ({
+    offsetX, offsetZ, mathExpression, expressionInputs, layers: activeLayers, graph: activeGraph, tilePeriod
+  }), [offsetX, offsetZ, mathExpression, expressionInputs, activeLayers, activeGraph, tilePeriod])
+
+  // Props shared by the single chunk and every chunk of the world view
+  const chunkProps: ChunkProps = {
+    sizeX: chunkSize.x,
+    sizeY: chunkSize.y,
+    sizeZ: chunkSize.z,
+    isolevel: autoUpdate ? isolevel : frozenValues.isolevel,
+    amplitude: autoUpdate ? amplitude : frozenValues.amplitude,
+    verticalOffset: autoUpdate ? verticalOffset : frozenVerticalOffset,
+    noiseSettings: autoUpdate ? noiseSettings : frozenValues.noiseSettings,
+    layers: autoUpdate ? activeLayers : frozenValues.layers,
+    graph: autoUpdate ? activeGraph : frozenValues.graph,
+    updateTrigger: manualUpdateTrigger,
+    use3D,
+    isSmooth,
+    blockyMesher,
+    smoothMesher,
+    onMeshStats: setMeshStats,
+    mathExpression,
+    expressionInputs: autoUpdate ? expressionInputs : frozenValues.expressionInputs,
+    heightCurve: autoUpdate ? heightCurve : frozenValues.heightCurve,
+    biomes: autoUpdate ? biomes : frozenValues.biomes,
+    blocks: autoUpdate ? blocks : frozenValues.blocks,
+    caves: autoUpdate ? caves : frozenValues.caves,
+    ores: autoUpdate ? ores : frozenValues.ores,
+    onOreStats: setOreStats,
+    water: autoUpdate ? water : frozenValues.water,
+    features: autoUpdate ? features : frozenValues.features,
+    erosion: autoUpdate ? erosion : frozenValues.erosion,
+    heightmapFilters: autoUpdate ? heightmapFilters : frozenValues.heightmapFilters,
+    tiling: autoUpdate ? tiling : frozenValues.tiling,
+    onErosion: setErosionPreview,
+    offsetX,
+    offsetZ
   }
 
   return (
@@ -159,32 +405,30 @@ function App() {
         {/* Cloud skybox - always renders behind terrain */}
         <CloudSky cloudCount={25} radius={1000} />
         
-        {/* Our chunk of cubes */}
-        <Chunk 
-          sizeX={chunkSize.x}
-          sizeY={chunkSize.y}
-          sizeZ={chunkSize.z}
-          isolevel={autoUpdate ? isolevel : frozenValues.isolevel} 
-          amplitude={autoUpdate ? amplitude : frozenValues.amplitude} 
-          verticalOffset={autoUpdate ? verticalOffset : frozenVerticalOffset}
-          noiseSettings={autoUpdate ? noiseSettings : frozenValues.noiseSettings}
-          updateTrigger={manualUpdateTrigger}
-          use3D={use3D}
-          isSmooth={isSmooth}
-          mathExpression={mathExpression}
-          offsetX={offsetX}
-          offsetZ={offsetZ}
-        />
-        
-        {/* Wireframe showing chunk boundaries */}
-        <ChunkFrame 
-          sizeX={chunkSize.x}
-          sizeY={chunkSize.y}
-          sizeZ={chunkSize.z}
-        />
+        {/* Our chunk of cubes, or the streamed grid of chunks around the camera */}
+        {world.enabled ? (
+          <ChunkWorld
+            {...chunkProps}
+            radius={world.radius}
+            cacheSize={world.cacheSize}
+            lodRingWidth={world.lod ? world.lodRingWidth : 0}
+            lodColors={world.lodColors}
+          />
+        ) : (
+          <>
+            <Chunk {...chunkProps} />
+            {/* Wireframe showing chunk boundaries */}
+            <ChunkFrame 
+              sizeX={chunkSize.x}
+              sizeY={chunkSize.y}
+              sizeZ={chunkSize.z}
+            />
+          </>
+        )}
         
         {/* Camera controls - center on chunk */}
         <OrbitControls 
+          makeDefault
           target={[0, 0, 0]}
           enableDamping={true}
           dampingFactor={0.05}
@@ -196,27 +440,108 @@ function App() {
       {/* Draggable noise preview */}
       <NoisePreview 
         noiseSettings={noiseSettings}
+        layers={activeLayers}
+        graph={activeGraph}
+        biomes={biomes}
+        water={water}
+        terrain={{ amplitude, verticalOffset, sizeY: chunkSize.y, heightCurve, biomes }}
+        expressionInputs={expressionInputs}
+        erosion={erosionPreview}
+        tiling={tiling}
         autoUpdate={autoUpdate}
         mathExpression={mathExpression}
+        expressionVariables={expressionVariables}
         onMathExpressionChange={setMathExpression}
         onAutoUpdateChange={(value) => {
           if (!value) {
             // Freeze current values when turning auto-update off
-            setFrozenValues({ isolevel, amplitude, verticalOffsetPercent, noiseSettings })
+            setFrozenValues({ isolevel, amplitude, verticalOffsetPercent, noiseSettings, layers: activeLayers, graph: activeGraph, expressionInputs, heightCurve, biomes, blocks, caves, ores, water, features, erosion, heightmapFilters, tiling })
           }
           setAutoUpdate(value)
         }}
         onManualUpdate={() => {
-          setFrozenValues({ isolevel, amplitude, verticalOffsetPercent, noiseSettings })
+          setFrozenValues({ isolevel, amplitude, verticalOffsetPercent, noiseSettings, layers: activeLayers, graph: activeGraph, expressionInputs, heightCurve, biomes, blocks, caves, ores, water, features, erosion, heightmapFilters, tiling })
           setManualUpdateTrigger(prev => prev + 1)
         }}
         on3DModeChange={setUse3D}
         onSmoothModeChange={setIsSmooth}
+        blockyMesher={blockyMesher}
+        onBlockyMesherChange={setBlockyMesher}
+        meshStats={meshStats}
+        smoothMesher={smoothMesher}
+        onSmoothMesherChange={setSmoothMesher}
         offsetX={offsetX}
         offsetZ={offsetZ}
         onOffsetsChange={(x, z) => { setOffsetX(x); setOffsetZ(z) }}
       />
       
+      {/* Noise layer stack */}
+      <LayerStackPanel
+        layers={layers}
+        onLayersChange={setLayers}
+        enabled={layersEnabled}
+        onEnabledChange={setLayersEnabled}
+        currentSettings={noiseSettings}
+        onLoadSettings={loadSettingsIntoPanels}
+      />
+      
+      {/* Density node graph */}
+      <NodeGraphEditor
+        graph={graph}
+        onGraphChange={setGraph}
+        enabled={graphEnabled}
+        onEnabledChange={setGraphEnabled}
+        currentSettings={noiseSettings}
+      />
+      
+      {/* Noise -> height spline for 2D terrain */}
+      <HeightCurveEditor
+        curve={heightCurve}
+        onCurveChange={setHeightCurve}
+        noiseSettings={noiseSettings}
+        samplerOptions={curveSamplerOptions}
+        sizeX={chunkSize.x}
+        sizeY={chunkSize.y}
+        sizeZ={chunkSize.z}
+      />
+      
+      {/* Biome table */}
+      <BiomePanel
+        settings={biomes}
+        onSettingsChange={setBiomes}
+        currentSettings={noiseSettings}
+      />
+      
+      {/* Block types and palette */}
+      <BlockPanel
+        settings={blocks}
+        onSettingsChange={setBlocks}
+        biomes={biomes.biomes}
+        palettePresets={palettePresets}
+        onPalettePresetsChange={setPalettePresets}
+      />
+      
+      {/* Ore layers and stats */}
+      <OrePanel
+        settings={ores}
+        onSettingsChange={setOres}
+        stats={oreStats}
+      />
+      
+      {/* Trees and rocks */}
+      <FeaturePanel
+        settings={features}
+        onSettingsChange={setFeatures}
+        biomes={biomes.biomes}
+      />
+      
+      {/* Heightmap post-process list */}
+      <HeightmapFilterPanel
+        settings={heightmapFilters}
+        onSettingsChange={setHeightmapFilters}
+        notice={heightmapNotice}
+      />
+      
       {/* Chunk size controls at bottom */}
       <ChunkSizeControls onSizeChange={setChunkSize} />
     </div>
@@ -0,0 +1,175 @@
+import { useState } from 'react'
+import type { NoiseSettings } from '../utils/noiseEngines'
+import { createBiome, createDefaultBiomeSettings } from '../utils/biomes'
+import type { Biome, BiomeSettings, ClimateNoise } from '../utils/biomes'
+
+interface BiomePanelProps {
+  settings: BiomeSettings
+  onSettingsChange: (settings: BiomeSettings) => void
+  currentSettings: NoiseSettings // Settings currently shown in the Leva panels
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '2px 6px',
+  fontSize: '10px',
+  backgroundColor: '#2a2d30',
+  color: '#ccc',
+  border: '1px solid #3c4043',
+  borderRadius: '3px',
+  cursor: 'pointer'
+}
+
+const inputStyle: React.CSSProperties = {
+  background: '#2a2d30',
+  color: '#fff',
+  border: '1px solid #3c4043',
+  borderRadius: 4,
+  padding: '2px 4px',
+  fontSize: 10,
+  width: '44px'
+}
+
+const labelStyle: React.CSSProperties = { color: '#aaa', fontSize: '10px' }
+
+export function BiomePanel({ settings, onSettingsChange, currentSettings }: BiomePanelProps) {
+  const [collapsed, setCollapsed] = useState(true)
+
+  const update = (changes: Partial<BiomeSettings>) => onSettingsChange({ ...settings, ...changes })
+
+  const updateBiome = (id: string, changes: Partial<Biome>) => {
+    update({ biomes: settings.biomes.map(biome => biome.id === id ? { ...biome, ...changes } : biome) })
+  }
+
+  const updateClimate = (key: 'temperature' | 'humidity', changes: Partial<ClimateNoise>) => {
+    update({ [key]: { ...settings[key], ...changes } })
+  }
+
+  const numberInput = (value: number, onChange: (value: number) => void, step = 0.05) => (
+    <input
+      type="number"
+      value={value}
+      step={step}
+      onChange={(e) => onChange(Number(e.target.value))}
+      style={inputStyle}
+    />
+  )
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        right: '340px',
+        bottom: '20px',
+        width: '330px',
+        maxHeight: '55vh',
+        overflowY: 'auto',
+        background: '#181c20',
+        border: '1px solid #3c4043',
+        borderRadius: '8px',
+        padding: '10px 12px',
+        fontFamily: 'system-ui, sans-serif',
+        color: '#ffffff',
+        fontSize: '12px',
+        boxShadow: '0 4px 12px rgba(0, 0, 0, 0.3)',
+        zIndex: 1000
+      }}
+      onMouseDown={(e) => e.stopPropagation()}
+      onMouseMove={(e) => e.stopPropagation()}
+      onMouseUp={(e) => e.stopPropagation()}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px' }}>
+        <div style={{ fontWeight: 'bold', cursor: 'pointer', userSelect: 'none' }} onClick={() => setCollapsed(!collapsed)}>
+          🌍 Biomes ({settings.biomes.length})
+        </div>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '11px', cursor: 'pointer', userSelect: 'none' }}>
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            style={{ width: '12px', height: '12px', accentColor: '#4CAF50' }}
+          />
+          Use biomes
+        </label>
+      </div>
+
+      {!collapsed && (
+        <div style={{ marginTop: '8px', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+          {/* Climate noise */}
+          {(['temperature', 'humidity'] as const).map(key => (
+            <div key={key} style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+              <span style={{ ...labelStyle, width: '70px' }}>{key}</span>
+              <span style={labelStyle}>seed</span>
+              {numberInput(settings[key].seed, (seed) => updateClimate(key, { seed }), 1)}
+              <span style={labelStyle}>freq</span>
+              {numberInput(settings[key].frequency, (frequency) => updateClimate(key, { frequency }), 0.001)}
+            </div>
+          ))}
+          <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <span style={{ ...labelStyle, width: '70px' }}>border blend</span>
+            {numberInput(settings.blendWidth, (blendWidth) => update({ blendWidth: Math.max(0, blendWidth) }))}
+          </div>
+
+          {settings.biomes.map(biome => (
+            <div key={biome.id} style={{ border: '1px solid #3c4043', borderRadius: '4px', padding: '6px' }}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '4px' }}>
+                <input
+                  type="color"
+                  value={biome.color}
+                  onChange={(e) => updateBiome(biome.id, { color: e.target.value })}
+                  style={{ width: '20px', height: '18px', padding: 0, border: 'none', background: 'none' }}
+                />
+                <input
+                  type="text"
+                  value={biome.name}
+                  onChange={(e) => updateBiome(biome.id, { name: e.target.value })}
+                  style={{ ...inputStyle, flex: 1 }}
+                />
+                <button style={buttonStyle} onClick={() => update({ biomes: settings.biomes.filter(b => b.id !== biome.id) })}>Remove</button>
+              </div>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '4px', marginBottom: '4px' }}>
+                <span style={labelStyle}>temp</span>
+                {numberInput(biome.minTemperature, (minTemperature) => updateBiome(biome.id, { minTemperature }))}
+                {numberInput(biome.maxTemperature, (maxTemperature) => updateBiome(biome.id, { maxTemperature }))}
+                <span style={labelStyle}>hum</span>
+                {numberInput(biome.minHumidity, (minHumidity) => updateBiome(biome.id, { minHumidity }))}
+                {numberInput(biome.maxHumidity, (maxHumidity) => updateBiome(biome.id, { maxHumidity }))}
+              </div>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '4px', flexWrap: 'wrap' }}>
+                <span style={labelStyle}>amp</span>
+                {numberInput(biome.amplitude, (amplitude) => updateBiome(biome.id, { amplitude }), 0.5)}
+                <span style={labelStyle}>offset %</span>
+                {numberInput(biome.verticalOffsetPercent, (verticalOffsetPercent) => updateBiome(biome.id, { verticalOffsetPercent }), 1)}
+                <button
+                  style={buttonStyle}
+                  onClick={() => updateBiome(biome.id, { noise: biome.noise ? undefined : { ...currentSettings } })}
+                  title="Use the panel settings as this biome's terrain noise"
+                >
+                  {biome.noise ? 'Clear noise' : 'Set noise'}
+                </button>
+                {biome.noise && (
+                  <span style={{ color: '#666', fontSize: '9px' }}>
+                    {[biome.noise.noiseType, biome.noise.fractalType].filter(Boolean).join(' / ') || 'custom'}
+                  </span>
+                )}
+              </div>
+            </div>
+          ))}
+
+          <div style={{ display: 'flex', gap: '4px' }}>
+            <button
+              style={{ ...buttonStyle, padding: '4px 8px', backgroundColor: '#4CAF50', color: '#ffffff', fontWeight: 'bold' }}
+              onClick={() => update({ biomes: [...settings.biomes, createBiome()] })}
+            >
+              + Add biome
+            </button>
+            <button style={buttonStyle} onClick={() => onSettingsChange({ ...createDefaultBiomeSettings(), enabled: settings.enabled })}>Reset</button>
+          </div>
+          <div style={{ fontSize: '9px', color: '#666', lineHeight: '1.3' }}>
+            Climate ranges are in noise space (-1..1); ranges touching ±1 extend past it.
+            Biome heights replace the Terrain panel and height curve in 2D mode.
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,218 @@
+import { useState } from 'react'
+import { BLOCK_PALETTE_PRESETS, BLOCK_TYPES, createBlockRule, createDefaultBlockSettings, getBlockColor } from '../utils/blockTypes'
+import type { BlockPalette, BlockRule, BlockSettings, BlockType } from '../utils/blockTypes'
+import type { Biome } from '../utils/biomes'
+
+interface BlockPanelProps {
+  settings: BlockSettings
+  onSettingsChange: (settings: BlockSettings) => void
+  biomes: Biome[] // Biome table, for per-biome rules
+  palettePresets: Record<string, BlockPalette> // User-saved palettes (built-in presets are always listed)
+  onPalettePresetsChange: (presets: Record<string, BlockPalette>) => void
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '2px 6px',
+  fontSize: '10px',
+  backgroundColor: '#2a2d30',
+  color: '#ccc',
+  border: '1px solid #3c4043',
+  borderRadius: '3px',
+  cursor: 'pointer'
+}
+
+const inputStyle: React.CSSProperties = {
+  background: '#2a2d30',
+  color: '#fff',
+  border: '1px solid #3c4043',
+  borderRadius: 4,
+  padding: '2px 4px',
+  fontSize: 10
+}
+
+const labelStyle: React.CSSProperties = { color: '#aaa', fontSize: '10px' }
+
+// Optional rule bounds: an empty input means "no bound"
+const BOUNDS: { label: string, min: keyof BlockRule, max: keyof BlockRule }[] = [
+  { label: 'depth', min: 'minDepth', max: 'maxDepth' },
+  { label: 'height %', min: 'minHeight', max: 'maxHeight' },
+  { label: 'slope', min: 'minSlope', max: 'maxSlope' }
+]
+
+export function BlockPanel({ settings, onSettingsChange, biomes, palettePresets, onPalettePresetsChange }: BlockPanelProps) {
+  const [collapsed, setCollapsed] = useState(true)
+  const [presetName, setPresetName] = useState('')
+
+  const update = (changes: Partial<BlockSettings>) => onSettingsChange({ ...settings, ...changes })
+
+  const updateRule = (id: string, changes: Partial<BlockRule>) => {
+    update({ rules: settings.rules.map(rule => rule.id === id ? { ...rule, ...changes } : rule) })
+  }
+
+  const moveRule = (index: number, direction: -1 | 1) => {
+    const target = index + direction
+    if (target < 0 || target >= settings.rules.length) return
+    const next = [...settings.rules]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    update({ rules: next })
+  }
+
+  const allPresets = { ...BLOCK_PALETTE_PRESETS, ...palettePresets }
+
+  const boundInput = (rule: BlockRule, key: keyof BlockRule) => (
+    <input
+      type="number"
+      value={(rule[key] as number | undefined) ?? ''}
+      placeholder="-"
+      onChange={(e) => updateRule(rule.id, { [key]: e.target.value === '' ? undefined : Number(e.target.value) })}
+      style={{ ...inputStyle, width: '34px' }}
+    />
+  )
+
+  const blockSelect = (value: BlockType, onChange: (block: BlockType) => void) => (
+    <select value={value} onChange={(e) => onChange(e.target.value as BlockType)} style={inputStyle}>
+      {BLOCK_TYPES.map(block => <option key={block} value={block}>{block}</option>)}
+    </select>
+  )
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        right: '680px',
+        bottom: '20px',
+        width: '340px',
+        maxHeight: '55vh',
+        overflowY: 'auto',
+        background: '#181c20',
+        border: '1px solid #3c4043',
+        borderRadius: '8px',
+        padding: '10px 12px',
+        fontFamily: 'system-ui, sans-serif',
+        color: '#ffffff',
+        fontSize: '12px',
+        boxShadow: '0 4px 12px rgba(0, 0, 0, 0.3)',
+        zIndex: 1000
+      }}
+      onMouseDown={(e) => e.stopPropagation()}
+      onMouseMove={(e) => e.stopPropagation()}
+      onMouseUp={(e) => e.stopPropagation()}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px' }}>
+        <div style={{ fontWeight: 'bold', cursor: 'pointer', userSelect: 'none' }} onClick={() => setCollapsed(!collapsed)}>
+          🧱 Block Types ({settings.rules.length} rules)
+        </div>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '11px', cursor: 'pointer', userSelect: 'none' }}>
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            style={{ width: '12px', height: '12px', accentColor: '#4CAF50' }}
+          />
+          Use blocks
+        </label>
+      </div>
+
+      {!collapsed && (
+        <div style={{ marginTop: '8px', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+          {/* Palette */}
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+            {BLOCK_TYPES.map(block => (
+              <label key={block} style={{ display: 'flex', alignItems: 'center', gap: '3px', ...labelStyle }}>
+                <input
+                  type="color"
+                  value={getBlockColor(settings.palette, block)}
+                  onChange={(e) => update({ palette: { ...settings.palette, [block]: e.target.value } })}
+                  style={{ width: '18px', height: '16px', padding: 0, border: 'none', background: 'none' }}
+                />
+                {block}
+              </label>
+            ))}
+          </div>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+            <select
+              value=""
+              onChange={(e) => { if (allPresets[e.target.value]) update({ palette: { ...allPresets[e.target.value] } }) }}
+              style={inputStyle}
+            >
+              <option value="" disabled>Load preset…</option>
+              {Object.keys(allPresets).map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+            <input
+              type="text"
+              value={presetName}
+              placeholder="preset name"
+              onChange={(e) => setPresetName(e.target.value)}
+              style={{ ...inputStyle, flex: 1, minWidth: 0 }}
+            />
+            <button
+              style={buttonStyle}
+              disabled={!presetName.trim()}
+              onClick={() => {
+                onPalettePresetsChange({ ...palettePresets, [presetName.trim()]: { ...settings.palette } })
+                setPresetName('')
+              }}
+            >
+              Save
+            </button>
+            {palettePresets[presetName.trim()] && (
+              <button
+                style={buttonStyle}
+                onClick={() => onPalettePresetsChange(Object.fromEntries(Object.entries(palettePresets).filter(([name]) => name !== presetName.trim())))}
+              >
+                Delete
+              </button>
+            )}
+          </div>
+
+          {/* Rules, first match wins */}
+          {settings.rules.map((rule, index) => (
+            <div key={rule.id} style={{ border: '1px solid #3c4043', borderRadius: '4px', padding: '6px' }}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '4px', marginBottom: '4px' }}>
+                <span style={{ width: '10px', height: '10px', borderRadius: '2px', background: getBlockColor(settings.palette, rule.block) }} />
+                {blockSelect(rule.block, (block) => updateRule(rule.id, { block }))}
+                <select
+                  value={rule.biome ?? ''}
+                  onChange={(e) => updateRule(rule.id, { biome: e.target.value || undefined })}
+                  style={{ ...inputStyle, flex: 1, minWidth: 0 }}
+                >
+                  <option value="">any biome</option>
+                  {biomes.map(biome => <option key={biome.id} value={biome.id}>{biome.name}</option>)}
+                  {rule.biome && !biomes.some(biome => biome.id === rule.biome) && <option value={rule.biome}>{rule.biome}</option>}
+                </select>
+                <button style={buttonStyle} onClick={() => moveRule(index, -1)} disabled={index === 0}>▲</button>
+                <button style={buttonStyle} onClick={() => moveRule(index, 1)} disabled={index === settings.rules.length - 1}>▼</button>
+                <button style={buttonStyle} onClick={() => update({ rules: settings.rules.filter(r => r.id !== rule.id) })}>✕</button>
+              </div>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '4px', flexWrap: 'wrap' }}>
+                {BOUNDS.map(bound => (
+                  <span key={bound.label} style={{ display: 'flex', alignItems: 'center', gap: '2px' }}>
+                    <span style={labelStyle}>{bound.label}</span>
+                    {boundInput(rule, bound.min)}
+                    {boundInput(rule, bound.max)}
+                  </span>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+            <button
+              style={{ ...buttonStyle, padding: '4px 8px', backgroundColor: '#4CAF50', color: '#ffffff', fontWeight: 'bold' }}
+              onClick={() => update({ rules: [...settings.rules, createBlockRule()] })}
+            >
+              + Add rule
+            </button>
+            <span style={labelStyle}>otherwise</span>
+            {blockSelect(settings.fallback, (fallback) => update({ fallback }))}
+            <button style={buttonStyle} onClick={() => onSettingsChange({ ...createDefaultBlockSettings(), enabled: settings.enabled })}>Reset</button>
+          </div>
+          <div style={{ fontSize: '9px', color: '#666', lineHeight: '1.3' }}>
+            Rules are checked top to bottom; empty bounds match anything.
+            Depth 0 is the surface block. Slope is 0 in 3D mode.
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,38 +1,37 @@
-import { useMemo, useRef, useEffect } from 'react'
-import FastNoiseLite from 'fastnoise-lite'
-import { InstancedMesh, Object3D, BufferGeometry, BufferAttribute, Mesh } from 'three'
-import { generateMarchingCubes } from '../utils/marchingCubes'
+import { useMemo, useRef, useEffect, useState } from 'react'
+import { InstancedMesh, Object3D, BufferGeometry, BufferAttribute, Mesh, Color } from 'three'
+import { createNoiseSampler } from '../utils/noiseSampler'
+import { createBiomeSampler } from '../utils/biomes'
+import { classifyBlock, getBlockColor } from '../utils/blockTypes'
+import { computeOreStats, createOreSampler } from '../utils/ores'
+import { WATER_COLOR, WATER_OPACITY, getSeaLevel } from '../utils/water'
+import { buildTemplate, placeFeatures } from '../utils/features'
+import { erodeHydraulicAsync, sampleHeightmap } from '../utils/erosion'
+import { applyHeightmapFilters } from '../utils/heightmapFilters'
+import { createChunkCarver, createChunkHeightFunction, createChunkSamplerOptions, createRawHeightFunction, getHeightmapProcessing } from '../utils/chunkGenerator'
+import { runChunkJob } from '../utils/chunkWorkerPool'
+import { greedyMeshVoxels } from '../utils/greedyMesher'
+import { ChunkLoadingIndicator } from './ChunkLoadingIndicator'
+import type { NoiseSettings } from '../utils/noiseEngines'
+import type { NoiseLayer } from '../utils/noiseLayers'
+import type { NoiseGraph } from '../utils/nodeGraph'
+import type { HeightCurve } from '../utils/heightCurve'
+import type { BiomeSettings } from '../utils/biomes'
+import type { BlockSettings, BlockType } from '../utils/blockTypes'
+import type { CaveSettings } from '../utils/caves'
+import type { OreSettings, OreStats } from '../utils/ores'
+import type { WaterSettings } from '../utils/water'
+import type { FeatureSettings } from '../utils/features'
+import type { ErosionPreview, Heightmap, HydraulicErosionSettings } from '../utils/erosion'
+import type { HeightmapFilterSettings } from '../utils/heightmapFilters'
+import type { TilingSettings } from '../utils/tiling'
+import type { LRUCache } from '../utils/chunkCache'
+import type { ChunkData, ChunkGenerationSettings, ChunkHeightSettings } from '../utils/chunkGenerator'
+import type { BlockyMesher, MeshStats } from '../utils/greedyMesher'
+import type { SmoothMesher } from '../utils/smoothMeshers'
+import type { ChunkLod } from '../utils/chunkLod'
 
-export interface NoiseSettings {
-  // General
-  noiseType: string
-  rotationType3D: string
-  seed: number
-  frequency: number
-  // Fractal
-  fractalType: string
-  fractalOctaves: number
-  fractalLacunarity: number
-  fractalGain: number
-  fractalWeightedStrength: number
-  fractalPingPongStrength: number
-  // Cellular
-  cellularDistanceFunction: string
-  cellularReturnType: string
-  cellularJitter: number
-  // Domain Warp
-  domainWarpType: string
-  domainWarpAmp: number
-  domainWarpSeed?: number
-  domainWarpFrequency?: number
-  // Domain Warp Fractal
-  domainWarpFractalType: string
-  domainWarpFractalOctaves: number
-  domainWarpFractalLacunarity: number
-  domainWarpFractalGain: number
-}
-
-interface ChunkProps {
+export interface ChunkProps {
   sizeX?: number // X dimension of the chunk (default 32)
   sizeY?: number // Y dimension of the chunk (default 32)
   sizeZ?: number // Z dimension of the chunk (default 32)
@@ -40,253 +39,141 @@ interface ChunkProps {
   amplitude?: number // How much height variation (default 8)
   verticalOffset?: number // Where the baseline terrain sits (default 8)
   noiseSettings?: NoiseSettings // FastNoise Lite settings
+  layers?: NoiseLayer[] // Optional layer stack; replaces noiseSettings as the noise source when any layer is enabled
+  graph?: NoiseGraph // Optional density node graph; replaces both of the above
   updateTrigger?: number // Trigger value to force updates when auto-update is off
   use3D?: boolean // Whether to use 3D noise or 2D noise
-  isSmooth?: boolean // Whether to use smooth (marching cubes) or blocky rendering
+  isSmooth?: boolean // Whether to use a smooth mesh or blocky rendering
+  smoothMesher?: SmoothMesher // Smooth mode polygonizer: marching cubes/tetrahedra, surface nets or dual contouring
   mathExpression?: string // Math expression to transform noise values
+  expressionInputs?: Record<string, NoiseSettings> // Secondary noises readable in the expression (N2, N3)
+  heightCurve?: HeightCurve // Noise -> height spline for 2D mode; replaces amplitude/verticalOffset when enabled
+  biomes?: BiomeSettings // Per-biome terrain parameters for 2D mode; takes priority over the height curve when enabled
+  blocks?: BlockSettings // Block type rules and palette for blocky mode
+  caves?: CaveSettings // 3D cave carving below the 2D heightmap surface
+  ores?: OreSettings // Ore layers replacing stone in blocky mode
+  onOreStats?: (stats: OreStats[] | null) => void // Per-ore stats of the current chunk (null when ores are off)
+  water?: WaterSettings // Sea level fill and beaches
+  features?: FeatureSettings // Trees and rocks scattered on the surface
+  erosion?: HydraulicErosionSettings // Droplet erosion of the 2D heightmap
+  heightmapFilters?: HeightmapFilterSettings // Ordered 2D heightmap filters (thermal erosion, blur, terrace, clamp) after hydraulic erosion
+  tiling?: TilingSettings // Seamless noise repeating every period in X and Z
+  onErosion?: (preview: ErosionPreview | null) => void // Heightmaps before/after erosion and filters (null when both are off)
   // New: offsets applied to X and Z axes before warping
   offsetX?: number
   offsetZ?: number
+  blockyMesher?: BlockyMesher // Blocky mode: one instanced box per voxel, or a single greedy-meshed geometry
+  onMeshStats?: (stats: MeshStats | null) => void // Blocky mesh size of the current chunk (null in smooth mode)
+  seamless?: boolean // Part of a world grid: smooth chunks meet their neighbours and voxel culling looks across chunk borders
+  cache?: LRUCache<unknown> // Generated data shared across mounts (world view)
+  cacheKey?: string // Settings hash + chunk coordinate, required with `cache`
+  lod?: ChunkLod // Smooth mode: sample stride and neighbour levels (world view)
+  lodColor?: string // Debug tint of the smooth mesh for its LOD level
 }
 
-export function Chunk({ sizeX = 32, sizeY = 32, sizeZ = 32, isolevel = 0.0, amplitude = 8, verticalOffset = 8, noiseSettings, updateTrigger, use3D = false, isSmooth = false, mathExpression = "N", offsetX = 0, offsetZ = 0 }: ChunkProps) {
+const DEFAULT_COLOR = '#9c9c9c'
+const EROSION_PADDING = 8 // Extra heightmap cells eroded around the chunk so its edges erode like the middle
+
+export function Chunk({ sizeX = 32, sizeY = 32, sizeZ = 32, isolevel = 0.0, amplitude = 8, verticalOffset = 8, noiseSettings, layers, graph, updateTrigger, use3D = false, isSmooth = false, smoothMesher = 'marchingCubes', mathExpression = "N", expressionInputs, heightCurve, biomes, blocks, caves, ores, onOreStats, water, features, erosion, heightmapFilters, tiling, onErosion, offsetX = 0, offsetZ = 0, blockyMesher = 'instanced', onMeshStats, seamless = false, cache, cacheKey, lod, lodColor }: ChunkProps) {
   const meshRef = useRef<InstancedMesh>(null)
   const smoothMeshRef = useRef<Mesh>(null)
-  
-  // Helper function to safely evaluate math expressions
-  const evaluateMathExpression = (expression: string, noiseValue: number): number => {
-    try {
-      // Create a safe evaluation environment
-      const N = noiseValue
-      
-      // Replace common math functions and operators
-      let safeExpression = expression
-        .replace(/\bN\b/g, N.toString())
-        .replace(/Math\./g, 'Math.')
-        // Convert |expression| to Math.abs(expression)
-        .replace(/\|([^|]+)\|/g, 'Math.abs($1)')
-        // Convert ^ operator to Math.pow() - handle parentheses and complex expressions
-        .replace(/([^()]+|\([^)]*\))\s*\^\s*([^()]+|\([^)]*\))/g, 'Math.pow($1, $2)')
-        // Handle nested ^ operators (right to left associativity)
-        .replace(/([^()]+|\([^)]*\))\s*\^\s*([^()]+|\([^)]*\))/g, 'Math.pow($1, $2)')
-      
-      // Create a function that evaluates the expression safely
-      const func = new Function('Math', `return ${safeExpression}`)
-      const result = func(Math)
-      
-      // Return the result if it's a valid number, otherwise return original noise
-      return isFinite(result) ? result : noiseValue
-    } catch (error) {
-      // If expression is invalid, return original noise value
-      return noiseValue
-    }
-  }
-  
-  // Helper function to configure FastNoiseLite engines (base + optional warp)
-  const createNoiseEngines = () => {
-    const seed = noiseSettings?.seed ?? 12345
-    const frequency = noiseSettings?.frequency ?? 0.01
-
-    // Base noise used for sampling
-    const base = new FastNoiseLite()
-    base.SetSeed(seed)
-    base.SetFrequency(frequency)
-    // Map noise type from UI (capitalized values)
-    switch (noiseSettings?.noiseType) {
-      case 'Perlin':
-        base.SetNoiseType(FastNoiseLite.NoiseType.Perlin)
-        break
-      case 'OpenSimplex2':
-        base.SetNoiseType(FastNoiseLite.NoiseType.OpenSimplex2)
-        break
-      case 'OpenSimplex2S':
-        base.SetNoiseType(FastNoiseLite.NoiseType.OpenSimplex2S)
-        break
-      case 'Cellular':
-        base.SetNoiseType(FastNoiseLite.NoiseType.Cellular)
-        base.SetCellularDistanceFunction(FastNoiseLite.CellularDistanceFunction.EuclideanSq)
-        base.SetCellularReturnType(FastNoiseLite.CellularReturnType.Distance)
-        break
-      case 'ValueCubic':
-        base.SetNoiseType(FastNoiseLite.NoiseType.ValueCubic)
-        break
-      case 'Value':
-        base.SetNoiseType(FastNoiseLite.NoiseType.Value)
-        break
-      default:
-        base.SetNoiseType(FastNoiseLite.NoiseType.OpenSimplex2)
-    }
-
-    // Regular fractal for base sampling only (ignore DomainWarp* here)
-    if (noiseSettings && noiseSettings.fractalType && noiseSettings.fractalType !== 'None') {
-      switch (noiseSettings.fractalType) {
-        case 'FBm':
-          base.SetFractalType(FastNoiseLite.FractalType.FBm)
-          break
-        case 'Ridged':
-          base.SetFractalType(FastNoiseLite.FractalType.Ridged)
-          break
-        case 'PingPong':
-          base.SetFractalType(FastNoiseLite.FractalType.PingPong)
-          break
-        default:
-          // If UI has DomainWarp* selected in the Fractal panel, don't apply to base
-          base.SetFractalType(FastNoiseLite.FractalType.None)
-          break
-      }
-      if (noiseSettings.fractalType === 'FBm' || noiseSettings.fractalType === 'Ridged' || noiseSettings.fractalType === 'PingPong') {
-        base.SetFractalOctaves(noiseSettings.fractalOctaves)
-        base.SetFractalLacunarity(noiseSettings.fractalLacunarity)
-        base.SetFractalGain(noiseSettings.fractalGain)
-        if (noiseSettings.fractalWeightedStrength !== undefined) base.SetFractalWeightedStrength(noiseSettings.fractalWeightedStrength)
-        if (noiseSettings.fractalPingPongStrength !== undefined) base.SetFractalPingPongStrength(noiseSettings.fractalPingPongStrength)
-      }
-    }
-
-    // Optional warp engine; use separate instance so settings don't conflict
-    let warp: FastNoiseLite | undefined
-    let warpY: FastNoiseLite | undefined // second axis for manual warp
-    const warpAmp = noiseSettings?.domainWarpAmp ?? 0
-    const warpFractalType = noiseSettings?.domainWarpFractalType ?? 'None'
-
-    if (warpAmp !== 0 || warpFractalType !== 'None') {
-      const wSeed = (noiseSettings?.domainWarpSeed ?? seed + 9999)
-      const wFreq = (noiseSettings?.domainWarpFrequency ?? frequency)
+  const waterMeshRef = useRef<InstancedMesh>(null)
+  const featureMeshRef = useRef<InstancedMesh>(null)
 
-      warp = new FastNoiseLite()
-      warp.SetSeed(wSeed)
-      warp.SetFrequency(wFreq)
-      // Domain warp type
-      switch (noiseSettings?.domainWarpType) {
-        case 'OpenSimplex2Reduced':
-          warp.SetDomainWarpType(FastNoiseLite.DomainWarpType.OpenSimplex2Reduced)
-          break
-        case 'BasicGrid':
-          warp.SetDomainWarpType(FastNoiseLite.DomainWarpType.BasicGrid)
-          break
-        default:
-          warp.SetDomainWarpType(FastNoiseLite.DomainWarpType.OpenSimplex2)
-          break
-      }
-      warp.SetDomainWarpAmp(warpAmp)
-      // Dedicated domain warp frequency if API exists
-      if (typeof warp.SetDomainWarpFrequency === 'function' && noiseSettings?.domainWarpFrequency != null) {
-        warp.SetDomainWarpFrequency(noiseSettings.domainWarpFrequency)
-      }
-      // Domain warp fractal controls live in the same FractalType enum
-      switch (warpFractalType) {
-        case 'Progressive':
-          // Prefer dedicated DomainWarpFractalType API if available
-          if (typeof warp.SetDomainWarpFractalType === 'function') {
-            warp.SetDomainWarpFractalType(FastNoiseLite.DomainWarpFractalType.Progressive)
-          } else {
-            warp.SetFractalType(FastNoiseLite.FractalType.DomainWarpProgressive)
-          }
-          break
-        case 'Independent':
-          if (typeof warp.SetDomainWarpFractalType === 'function') {
-            warp.SetDomainWarpFractalType(FastNoiseLite.DomainWarpFractalType.Independent)
-          } else {
-            warp.SetFractalType(FastNoiseLite.FractalType.DomainWarpIndependent)
-          }
-          break
-        default:
-          if (typeof warp.SetDomainWarpFractalType === 'function') {
-            warp.SetDomainWarpFractalType(FastNoiseLite.DomainWarpFractalType.None)
-          } else {
-            warp.SetFractalType(FastNoiseLite.FractalType.None)
-          }
-          break
-      }
-      if (warpFractalType !== 'None') {
-        if (typeof warp.SetDomainWarpFractalOctaves === 'function') warp.SetDomainWarpFractalOctaves(noiseSettings!.domainWarpFractalOctaves)
-        else warp.SetFractalOctaves(noiseSettings!.domainWarpFractalOctaves)
-        if (typeof warp.SetDomainWarpFractalLacunarity === 'function') warp.SetDomainWarpFractalLacunarity(noiseSettings!.domainWarpFractalLacunarity)
-        else warp.SetFractalLacunarity(noiseSettings!.domainWarpFractalLacunarity)
-        if (typeof warp.SetDomainWarpFractalGain === 'function') warp.SetDomainWarpFractalGain(noiseSettings!.domainWarpFractalGain)
-        else warp.SetFractalGain(noiseSettings!.domainWarpFractalGain)
-      }
+  // Everything the 2D terrain height depends on
+  const heightSettings = useMemo<ChunkHeightSettings>(() => ({
+    sizeX, sizeY, sizeZ, amplitude, verticalOffset, noiseSettings, layers, graph,
+    mathExpression, expressionInputs, heightCurve, biomes, tiling, offsetX, offsetZ, updateTrigger
+  }), [sizeX, sizeY, sizeZ, amplitude, verticalOffset, noiseSettings, layers, graph, mathExpression, expressionInputs, heightCurve, biomes, tiling, offsetX, offsetZ, updateTrigger])
 
-      // Prepare second axis for manual warp
-      warpY = new FastNoiseLite()
-      warpY.SetSeed(wSeed + 1337)
-      warpY.SetFrequency(wFreq)
-    }
+  // Raw heightmap around the chunk for erosion and the post-process filters (2D mode, single chunk only)
+  const { hydraulic: hydraulicEnabled, filters: filtersEnabled } = getHeightmapProcessing({ use3D, seamless }, erosion, heightmapFilters)
+  const rawHeightmap = useMemo(() => {
+    if (!(hydraulicEnabled || filtersEnabled)) return null
+    const sampler = createNoiseSampler(heightSettings.noiseSettings, createChunkSamplerOptions(heightSettings))
+    return sampleHeightmap(createRawHeightFunction(heightSettings, sampler), heightSettings.sizeX, heightSettings.sizeZ, EROSION_PADDING)
+  }, [hydraulicEnabled, filtersEnabled, heightSettings])
 
-    return { base, warp, warpY }
-  }
+  // Last failure, keyed by the raw heightmap (erosion) or the generation settings (worker job) it belongs to
+  const [failed, setFailed] = useState<{ source: Heightmap | ChunkGenerationSettings, message: string } | null>(null)
 
-  // FBM helpers for manual warp
-  const fbm2D = (n: FastNoiseLite, x: number, y: number, oct: number, lac: number, gain: number) => {
-    let amp = 1, freq = 1, sum = 0, norm = 0
-    for (let i = 0; i < Math.max(1, oct); i++) {
-      sum += amp * n.GetNoise(x * freq, y * freq)
-      norm += amp
-      amp *= gain
-      freq *= lac
-    }
-    return sum / (norm || 1)
-  }
-  const fbm3D = (n: FastNoiseLite, x: number, y: number, z: number, oct: number, lac: number, gain: number) => {
-    let amp = 1, freq = 1, sum = 0, norm = 0
-    for (let i = 0; i < Math.max(1, oct); i++) {
-      sum += amp * n.GetNoise(x * freq, y * freq, z * freq)
-      norm += amp
-      amp *= gain
-      freq *= lac
+  // Hydraulic erosion runs in time slices; the chunk keeps the raw terrain until the eroded map for the current source is done
+  const [eroded, setEroded] = useState<{ source: Heightmap, map: Heightmap } | null>(null)
+  const erodedKey = cache && cacheKey ? `${cacheKey}:eroded` : null
+  const cachedEroded = rawHeightmap && erodedKey ? cache!.peek(erodedKey) as Heightmap | undefined : undefined
+  useEffect(() => {
+    if (!rawHeightmap || !hydraulicEnabled || !erosion) return
+    if (cachedEroded) {
+      cache!.get(erodedKey!) // Mark as recently used (render only peeks)
+      return
     }
-    return sum / (norm || 1)
-  }
+    const job = { cancelled: false }
+    const report = (progress: number) =>
+      onErosion?.({ before: rawHeightmap, after: null, progress, sizeX, sizeY, sizeZ })
+    report(0)
+    erodeHydraulicAsync(rawHeightmap, erosion, sizeY, job, report).then(map => {
+      if (!map) return
+      if (erodedKey) cache!.set(erodedKey, map)
+      setEroded({ source: rawHeightmap, map })
+      setFailed(current => current?.source === rawHeightmap ? null : current) // A retry with new erosion settings went through
+    }).catch((error: Error) => setFailed({ source: rawHeightmap, message: error.message }))
+    return () => { job.cancelled = true }
+  }, [rawHeightmap, hydraulicEnabled, erosion, onErosion, sizeX, sizeY, sizeZ, cache, erodedKey, cachedEroded])
+  const erodedMap = eroded && eroded.source === rawHeightmap ? eroded.map : cachedEroded ?? null
 
-  // Create density function for marching cubes
-  const createDensityFunction = () => {
-    const { base, warp, warpY } = createNoiseEngines()
+  // Final heightmap: hydraulic erosion (once done), then the ordered filter list
+  const processedHeightmap = useMemo(() => {
+    const input = hydraulicEnabled ? erodedMap : rawHeightmap
+    if (!input) return null
+    return filtersEnabled && heightmapFilters ? applyHeightmapFilters(input, heightmapFilters, sizeY) : input
+  }, [hydraulicEnabled, filtersEnabled, erodedMap, rawHeightmap, heightmapFilters, sizeY])
 
-    // Pre-read warp params
-    const ampW = noiseSettings?.domainWarpAmp ?? 0
-    const octW = noiseSettings?.domainWarpFractalType !== 'None' ? noiseSettings!.domainWarpFractalOctaves : 1
-    const lacW = noiseSettings?.domainWarpFractalLacunarity ?? 2.0
-    const gainW = noiseSettings?.domainWarpFractalGain ?? 0.5
+  // Report the heightmaps for the preview's before/after view
+  useEffect(() => {
+    if (!rawHeightmap) onErosion?.(null)
+    else if (processedHeightmap) onErosion?.({ before: rawHeightmap, after: processedHeightmap, progress: 1, sizeX, sizeY, sizeZ })
+  }, [rawHeightmap, processedHeightmap, onErosion, sizeX, sizeY, sizeZ])
 
-    const applyWarp2D = (x: number, y: number) => {
-      if (!warp || ampW === 0) return { x, y }
-      const wy = warpY ?? warp
-      const dx = fbm2D(warp, x, y, octW, lacW, gainW) * ampW
-      const dy = fbm2D(wy, x + 123.45, y - 987.65, octW, lacW, gainW) * ampW
-      return { x: x + dx, y: y + dy }
-    }
+  // Highest water-filled Y level, -1 without water
+  const seaLevel = water?.enabled ? getSeaLevel(water, sizeY) : -1
+  const beachWidth = water?.beachWidth ?? 0
+  const blocksEnabled = !!blocks?.enabled
 
-    const applyWarp3D = (x: number, y: number, z: number) => {
-      if (!warp || ampW === 0) return { x, y, z }
-      const wy = warpY ?? warp
-      const dx = fbm3D(warp, x, y, z, octW, lacW, gainW) * ampW
-      const dy = fbm3D(wy, x + 11.11, y + 22.22, z - 33.33, octW, lacW, gainW) * ampW
-      const dz = fbm3D(warp, x - 44.44, y + 55.55, z + 66.66, octW, lacW, gainW) * ampW
-      return { x: x + dx, y: y + dy, z: z + dz }
-    }
+  // Full input of a generation job
+  const generation = useMemo<ChunkGenerationSettings>(() => ({
+    ...heightSettings, isolevel, use3D, isSmooth, smoothMesher, lod, caves, blocksEnabled, seaLevel, beachWidth, seamless,
+    heightmap: processedHeightmap
+  }), [heightSettings, isolevel, use3D, isSmooth, smoothMesher, lod, caves, blocksEnabled, seaLevel, beachWidth, seamless, processedHeightmap])
 
-    return (x: number, y: number, z: number): number => {
-      if (use3D) {
-        // Apply offsets on X/Z first
-        const p = applyWarp3D(x + offsetX, y, z + offsetZ)
-        const rawNoise = -base.GetNoise(p.x, p.y, p.z)
-        return evaluateMathExpression(mathExpression, rawNoise)
-      } else {
-        const p = applyWarp2D(x + offsetX, z + offsetZ)
-        const heightNoise = base.GetNoise(p.x, p.y)
-        const transformedNoise = evaluateMathExpression(mathExpression, heightNoise)
-        const terrainHeight = verticalOffset + (transformedNoise * amplitude)
-        return y - terrainHeight
-      }
+  // Voxels and the marching cubes mesh are generated in a worker. A settings change cancels the stale job,
+  // and the previous result stays on screen (with a loading outline) until the new one arrives.
+  const [generated, setGenerated] = useState<{ settings: ChunkGenerationSettings, data: ChunkData } | null>(null)
+  const lodKey = lod ? `:lod${lod.level}-${lod.neighbours.join('')}` : ''
+  const dataKey = cache && cacheKey ? `${cacheKey}:data:${processedHeightmap ? 'processed' : 'raw'}${lodKey}` : null
+  const cachedData = dataKey ? cache!.peek(dataKey) as ChunkData | undefined : undefined
+  useEffect(() => {
+    if (cachedData) {
+      cache!.get(dataKey!) // Mark as recently used (render only peeks)
+      return
     }
-  }
+    const job = runChunkJob(generation)
+    job.promise.then(data => {
+      if (!data) return
+      if (dataKey) cache!.set(dataKey, data)
+      setGenerated({ settings: generation, data })
+    }).catch((error: Error) => setFailed({ source: generation, message: error.message }))
+    return job.cancel
+  }, [generation, cache, dataKey, cachedData])
+  const isCurrent = generated?.settings === generation
+  const chunkData = isCurrent ? generated.data : cachedData ?? generated?.data ?? null
+  const pending = !isCurrent && !cachedData
+  const generationError = failed && (failed.source === generation || failed.source === rawHeightmap) ? failed.message : undefined // Shown on the loading outline
+  const cubeData = chunkData?.cubes ?? null
 
-  // Generate smooth geometry using marching cubes
+  // Smooth surface from the worker's mesher output
   const smoothGeometry = useMemo(() => {
-    if (!isSmooth) return null
-    
-    const densityFunction = createDensityFunction()
-    const result = generateMarchingCubes(sizeX, sizeY, sizeZ, densityFunction, isolevel, use3D)
+    const result = chunkData?.smooth
+    if (!isSmooth || !result) return null
     
     const geometry = new BufferGeometry()
     geometry.setAttribute('position', new BufferAttribute(result.vertices, 3))
@@ -294,101 +181,185 @@ export function Chunk({ sizeX = 32, sizeY = 32, sizeZ = 32, isolevel = 0.0, ampl
     geometry.setIndex(new BufferAttribute(result.indices, 1))
     
     return geometry
-  }, [sizeX, sizeY, sizeZ, isolevel, amplitude, verticalOffset, noiseSettings, updateTrigger, use3D, isSmooth, mathExpression, offsetX, offsetZ])
+  }, [chunkData, isSmooth])
+  useEffect(() => () => smoothGeometry?.dispose(), [smoothGeometry])
 
-  // Generate cube positions based on noise and isolevel
-  const cubePositions = useMemo(() => {
-    const positions: [number, number, number][] = []
-    const heightMultiplier = amplitude
-    const baseHeight = verticalOffset
-
-    if (use3D) {
-      const { base, warp, warpY } = createNoiseEngines()
-      const ampW = noiseSettings?.domainWarpAmp ?? 0
-      const octW = noiseSettings?.domainWarpFractalType !== 'None' ? noiseSettings!.domainWarpFractalOctaves : 1
-      const lacW = noiseSettings?.domainWarpFractalLacunarity ?? 2.0
-      const gainW = noiseSettings?.domainWarpFractalGain ?? 0.5
-      for (let x = 0; x < sizeX; x++) {
-        for (let y = 0; y < sizeY; y++) {
-          for (let z = 0; z < sizeZ; z++) {
-            let wx = x + offsetX, wy = y, wz = z + offsetZ
-            if (warp && ampW !== 0) {
-              const wyN = warpY ?? warp
-              const dx = fbm3D(warp, wx, wy, wz, octW, lacW, gainW) * ampW
-              const dy = fbm3D(wyN, wx + 11.11, wy + 22.22, wz - 33.33, octW, lacW, gainW) * ampW
-              const dz = fbm3D(warp, wx - 44.44, wy + 55.55, wz + 66.66, octW, lacW, gainW) * ampW
-              wx += dx; wy += dy; wz += dz
-            }
-            const rawNoise = base.GetNoise(wx, wy, wz)
-            const noiseValue = evaluateMathExpression(mathExpression, rawNoise)
-            if (noiseValue > isolevel) {
-              const centeredX = x - sizeX / 2 + 0.5
-              const centeredY = y - sizeY / 2 + 0.5
-              const centeredZ = z - sizeZ / 2 + 0.5
-              positions.push([centeredX, centeredY, centeredZ])
-            }
-          }
-        }
+  // Block type per cube; re-run on rule edits without regenerating the terrain
+  const cubeBlocks = useMemo(() => {
+    if (!blocks?.enabled || !cubeData) return null
+    const { count, positions, depths, slopes, biomes: biomeIndices, beach } = cubeData
+    const types: BlockType[] = new Array(count)
+    for (let i = 0; i < count; i++) {
+      if (beach[i]) {
+        types[i] = 'sand'
+        continue
       }
+      const y = positions[i * 3 + 1] + sizeY / 2 - 0.5
+      types[i] = classifyBlock(blocks, {
+        depth: depths[i],
+        heightPercent: (y / sizeY) * 100,
+        slope: slopes[i],
+        biome: biomeIndices[i] >= 0 ? biomes?.biomes[biomeIndices[i]]?.id : undefined
+      })
+    }
+    return types
+  }, [cubeData, blocks, biomes, sizeY])
+
+  // Ore index per cube (-1 = none); ores only replace stone (every block counts as stone without block types)
+  const cubeOres = useMemo(() => {
+    if (!ores?.enabled || !cubeData) return null
+    const sampleOre = createOreSampler(ores, noiseSettings, offsetX, offsetZ)
+    const { count, positions, beach } = cubeData
+    const indices = new Int16Array(count).fill(-1)
+    for (let i = 0; i < count; i++) {
+      if ((cubeBlocks && cubeBlocks[i] !== 'stone') || beach[i]) continue
+      indices[i] = sampleOre(positions[i * 3] + sizeX / 2 - 0.5, positions[i * 3 + 1] + sizeY / 2 - 0.5, positions[i * 3 + 2] + sizeZ / 2 - 0.5)
+    }
+    return indices
+  }, [cubeBlocks, cubeData, ores, noiseSettings, offsetX, offsetZ, sizeX, sizeY, sizeZ])
+
+  // Report ore stats to the panel outside the canvas
+  useEffect(() => {
+    if (!onOreStats) return
+    if (!cubeOres || !ores || !cubeData) {
+      onOreStats(null)
+      return
+    }
+    const ys = new Float32Array(cubeData.count)
+    for (let i = 0; i < cubeData.count; i++) ys[i] = cubeData.positions[i * 3 + 1] + sizeY / 2 - 0.5
+    onOreStats(computeOreStats(ores, cubeOres, ys, sizeY))
+  }, [cubeOres, cubeData, ores, onOreStats, sizeY])
+
+  // Feature voxels (trees, rocks) snapped onto the surface, clipped to the chunk
+  const featureVoxels = useMemo(() => {
+    if (!features?.enabled || features.features.length === 0 || !cubeData) return null
+    const { noiseSettings, biomes } = generation
+    const sampler = createNoiseSampler(noiseSettings, createChunkSamplerOptions(generation))
+    const biomeSampler = biomes?.enabled && biomes.biomes.length > 0
+      ? createBiomeSampler(biomes, noiseSettings, createChunkSamplerOptions(generation), sizeY)
+      : undefined
+
+    // 2D reads the heightmap (also outside the chunk, so neighbours agree); 3D only knows its own columns
+    let heightAt: (x: number, z: number) => number | null
+    if (generation.use3D) {
+      heightAt = (x, z) => x < 0 || z < 0 || x >= sizeX || z >= sizeZ || cubeData.tops[x * sizeZ + z] < 0 ? null : cubeData.tops[x * sizeZ + z]
     } else {
-      const { base, warp, warpY } = createNoiseEngines()
-      const ampW = noiseSettings?.domainWarpAmp ?? 0
-      const octW = noiseSettings?.domainWarpFractalType !== 'None' ? noiseSettings!.domainWarpFractalOctaves : 1
-      const lacW = noiseSettings?.domainWarpFractalLacunarity ?? 2.0
-      const gainW = noiseSettings?.domainWarpFractalGain ?? 0.5
-      const iso = createNoiseEngines().base
-      iso.SetSeed((noiseSettings?.seed || 12345) + 1000)
-      const noiseMap = new Array(sizeX * sizeZ)
-      const isoNoiseMap = new Array(sizeX * sizeZ)
-      for (let x = 0; x < sizeX; x++) {
-        for (let z = 0; z < sizeZ; z++) {
-          const index = x * sizeZ + z
-          let wx = x + offsetX, wz = z + offsetZ
-          if (warp && ampW !== 0) {
-            const wyN = warpY ?? warp
-            const dx = fbm2D(warp, wx, wz, octW, lacW, gainW) * ampW
-            const dy = fbm2D(wyN, wx + 123.45, wz - 987.65, octW, lacW, gainW) * ampW
-            wx += dx; wz += dy
-          }
-          noiseMap[index] = base.GetNoise(wx, wz)
-          isoNoiseMap[index] = iso.GetNoise(x + 1000, z + 1000)
-        }
+      const terrainHeight = createChunkHeightFunction(generation, sampler)
+      const carve = createChunkCarver(generation)
+      const cache = new Map<string, number | null>()
+      heightAt = (x, z) => {
+        const key = `${x},${z}`
+        if (cache.has(key)) return cache.get(key)!
+        const height = Math.floor(terrainHeight(x, z))
+        // No features on cave mouths
+        const result = height < 0 || (carve && carve(x, height, z, 0) > 0) ? null : height
+        cache.set(key, result)
+        return result
       }
-      for (let x = 0; x < sizeX; x++) {
-        for (let z = 0; z < sizeZ; z++) {
-          const index = x * sizeZ + z
-          const rawNoise = noiseMap[index]
-          const transformedNoise = evaluateMathExpression(mathExpression, rawNoise)
-          const height = Math.floor(baseHeight + (transformedNoise * heightMultiplier))
-          for (let y = 0; y <= height && y < sizeY; y++) {
-            const isoNoiseValue = isoNoiseMap[index]
-            if (isoNoiseValue > isolevel) {
-              const centeredX = x - sizeX / 2 + 0.5
-              const centeredY = y - sizeY / 2 + 0.5
-              const centeredZ = z - sizeZ / 2 + 0.5
-              positions.push([centeredX, centeredY, centeredZ])
-            }
-          }
-        }
+    }
+
+    const placed = placeFeatures(features, {
+      height: (x, z) => {
+        const height = heightAt(x, z)
+        return height === null || height < seaLevel ? null : height // Not under water
+      },
+      slope: (x, z) => {
+        const height = heightAt(x, z) ?? 0
+        return Math.max(...[[1, 0], [-1, 0], [0, 1], [0, -1]].map(([dx, dz]) => Math.abs(height - (heightAt(x + dx, z + dz) ?? height))))
+      },
+      biome: (x, z) => biomeSampler ? biomeSampler.biomes[biomeSampler.dominant(x, z)].id : undefined
+    }, sizeX, sizeY, sizeZ, generation.offsetX, generation.offsetZ, noiseSettings)
+
+    // Terrain voxels block feature voxels, and overlapping features keep the first one placed
+    const occupied = new Uint8Array(sizeX * sizeY * sizeZ)
+    const indexOf = (x: number, y: number, z: number) => (x * sizeY + y) * sizeZ + z
+    for (let i = 0; i < cubeData.count; i++) {
+      const p = cubeData.positions
+      occupied[indexOf(p[i * 3] + sizeX / 2 - 0.5, p[i * 3 + 1] + sizeY / 2 - 0.5, p[i * 3 + 2] + sizeZ / 2 - 0.5)] = 1
+    }
+    const positions: [number, number, number][] = []
+    const types: BlockType[] = []
+    placed.forEach(feature => {
+      buildTemplate(feature.template, feature.variant).forEach(({ dx, dy, dz, block }) => {
+        const x = feature.x + dx, y = feature.y + dy, z = feature.z + dz
+        if (x < 0 || y < 0 || z < 0 || x >= sizeX || y >= sizeY || z >= sizeZ) return
+        const index = indexOf(x, y, z)
+        if (occupied[index]) return
+        occupied[index] = 1
+        positions.push([x - sizeX / 2 + 0.5, y - sizeY / 2 + 0.5, z - sizeZ / 2 + 0.5])
+        types.push(block)
+      })
+    })
+    return { positions, types }
+  }, [features, cubeData, generation, sizeX, sizeY, sizeZ, seaLevel])
+
+  useEffect(() => {
+    if (!featureMeshRef.current || !featureVoxels) return
+    const dummy = new Object3D()
+    const color = new Color()
+    featureVoxels.positions.forEach((position, i) => {
+      dummy.position.set(...position)
+      dummy.updateMatrix()
+      featureMeshRef.current!.setMatrixAt(i, dummy.matrix)
+      featureMeshRef.current!.setColorAt(i, color.set(getBlockColor(blocks?.enabled ? blocks.palette : undefined, featureVoxels.types[i])))
+    })
+    featureMeshRef.current.instanceMatrix.needsUpdate = true
+    featureMeshRef.current.count = featureVoxels.positions.length
+    if (featureMeshRef.current.instanceColor) featureMeshRef.current.instanceColor.needsUpdate = true
+    featureMeshRef.current.frustumCulled = false
+  }, [featureVoxels, blocks, ores, isSmooth])
+
+  // Color per cube (ore, block palette, or plain gray without block types) as an id into a small palette;
+  // 0 marks cubes hidden by the ore x-ray. Buried cubes keep their color (the greedy mesher needs them as solid)
+  // but are left out of the instances unless the x-ray is on.
+  const cubeColors = useMemo(() => {
+    if (!cubeData) return null
+    const palette: string[] = []
+    const paletteIds = new Map<string, number>()
+    const ids = new Uint16Array(cubeData.count)
+    const xray = !!(cubeOres && ores?.xray)
+    let visible = 0, instances = 0
+    for (let i = 0; i < cubeData.count; i++) {
+      const ore = cubeOres ? cubeOres[i] : -1
+      if (xray && ore < 0) continue // X-ray: only ores stay visible
+      const color = ore >= 0 ? ores!.ores[ore].color
+        : cubeBlocks && blocks ? getBlockColor(blocks.palette, cubeBlocks[i])
+        : cubeData.beach[i] ? getBlockColor(undefined, 'sand')
+        : DEFAULT_COLOR
+      if (!paletteIds.has(color)) {
+        paletteIds.set(color, palette.length)
+        palette.push(color)
       }
+      ids[i] = paletteIds.get(color)! + 1
+      visible++
+      if (xray || !cubeData.buried[i]) instances++
     }
-    return positions
-  }, [sizeX, sizeY, sizeZ, isolevel, amplitude, verticalOffset, noiseSettings, updateTrigger, use3D, mathExpression, offsetX, offsetZ])
+    return { palette, ids, visible, instances, xray }
+  }, [cubeData, cubeBlocks, cubeOres, blocks, ores])
+
+  const useGreedy = !isSmooth && blockyMesher === 'greedy'
 
   // Update instanced mesh positions
   useEffect(() => {
-    if (!meshRef.current) return
+    if (!meshRef.current || !cubeData || !cubeColors) return
     
     const dummy = new Object3D()
+    const colors = cubeColors.palette.map(color => new Color(color))
+    let count = 0
     
-    cubePositions.forEach((position, i) => {
-      dummy.position.set(...position)
+    for (let i = 0; i < cubeData.count; i++) {
+      const id = cubeColors.ids[i]
+      if (id === 0 || (cubeData.buried[i] && !cubeColors.xray)) continue
+      dummy.position.fromArray(cubeData.positions, i * 3)
       dummy.updateMatrix()
-      meshRef.current!.setMatrixAt(i, dummy.matrix)
-    })
+      meshRef.current.setMatrixAt(count, dummy.matrix)
+      meshRef.current.setColorAt(count, colors[id - 1])
+      count++
+    }
     
     meshRef.current.instanceMatrix.needsUpdate = true
-    meshRef.current.count = cubePositions.length
+    meshRef.current.count = count
+    if (meshRef.current.instanceColor) meshRef.current.instanceColor.needsUpdate = true
     
     // Fix frustum culling by manually setting bounding sphere
     // Calculate the maximum extent of the chunk
@@ -403,24 +374,113 @@ export function Chunk({ sizeX = 32, sizeY = 32, sizeZ = 32, isolevel = 0.0, ampl
     
     // Disable automatic frustum culling to prevent disappearing
     meshRef.current.frustumCulled = false
-  }, [cubePositions, sizeX, sizeY, sizeZ])
+  }, [cubeData, cubeColors, useGreedy, sizeX, sizeY, sizeZ])
+
+  // Greedy mesh: one geometry with merged faces and per-vertex colors
+  const greedyMesh = useMemo(() => {
+    if (!useGreedy || !cubeData || !cubeColors) return null
+    const voxels = new Uint16Array(sizeX * sizeY * sizeZ)
+    for (let i = 0; i < cubeData.count; i++) {
+      const p = cubeData.positions
+      const x = p[i * 3] + sizeX / 2 - 0.5, y = p[i * 3 + 1] + sizeY / 2 - 0.5, z = p[i * 3 + 2] + sizeZ / 2 - 0.5
+      voxels[(x * sizeY + y) * sizeZ + z] = cubeColors.ids[i]
+    }
+    const color = new Color()
+    const palette = cubeColors.palette.flatMap(hex => color.set(hex).toArray())
+    const result = greedyMeshVoxels(voxels, sizeX, sizeY, sizeZ, palette)
+
+    const geometry = new BufferGeometry()
+    geometry.setAttribute('position', new BufferAttribute(result.vertices, 3))
+    geometry.setAttribute('normal', new BufferAttribute(result.normals, 3))
+    geometry.setAttribute('color', new BufferAttribute(result.colors, 3))
+    geometry.setIndex(new BufferAttribute(result.indices, 1))
+    return { geometry, quadCount: result.quadCount }
+  }, [useGreedy, cubeData, cubeColors, sizeX, sizeY, sizeZ])
+  useEffect(() => () => greedyMesh?.geometry.dispose(), [greedyMesh])
 
-  // Calculate max possible cubes for buffer allocation
-  const maxCubes = sizeX * sizeY * sizeZ
+  // Report the blocky mesh size for the mesher comparison
+  useEffect(() => {
+    if (!onMeshStats) return
+    if (isSmooth || !cubeColors) {
+      onMeshStats(null)
+      return
+    }
+    onMeshStats(useGreedy
+      ? { mesher: 'greedy', voxels: cubeColors.visible, totalVoxels: cubeColors.visible, faces: greedyMesh?.quadCount ?? 0 }
+      : { mesher: 'instanced', voxels: cubeColors.instances, totalVoxels: cubeColors.visible, faces: cubeColors.instances * 6 })
+  }, [onMeshStats, isSmooth, useGreedy, cubeColors, greedyMesh])
+
+  // Water voxels (blocky mode)
+  const waterPositions = cubeData?.waterPositions
+  useEffect(() => {
+    if (!waterMeshRef.current || !waterPositions) return
+    const dummy = new Object3D()
+    const count = waterPositions.length / 3
+    for (let i = 0; i < count; i++) {
+      dummy.position.fromArray(waterPositions, i * 3)
+      dummy.updateMatrix()
+      waterMeshRef.current.setMatrixAt(i, dummy.matrix)
+    }
+    waterMeshRef.current.instanceMatrix.needsUpdate = true
+    waterMeshRef.current.count = count
+    waterMeshRef.current.frustumCulled = false
+  }, [waterPositions])
+
+  // Instance buffer sized to the cubes actually drawn (buried cubes are left out); a new count recreates the mesh
+  const maxCubes = Math.max(1, cubeColors?.instances ?? 0)
+  const maxWaterCubes = sizeX * sizeZ * Math.min(sizeY, seaLevel + 1)
+  const waterColor = blocks?.enabled ? getBlockColor(blocks.palette, 'water') : WATER_COLOR
+  const loadingIndicator = (pending || generationError) && <ChunkLoadingIndicator sizeX={sizeX} sizeY={sizeY} sizeZ={sizeZ} error={generationError} />
+  const featureMesh = featureVoxels && featureVoxels.positions.length > 0 && !(ores?.enabled && ores.xray) && (
+    <instancedMesh ref={featureMeshRef} args={[undefined, undefined, featureVoxels.positions.length]}>
+      <boxGeometry args={[1.0, 1.0, 1.0]} />
+      <meshLambertMaterial color="#ffffff" />
+    </instancedMesh>
+  )
 
   // Conditional rendering based on smooth/blocky mode
   if (isSmooth) {
-    return smoothGeometry ? (
-      <mesh ref={smoothMeshRef} geometry={smoothGeometry}>
-        <meshLambertMaterial color="#9c9c9cff" />
-      </mesh>
-    ) : null
+    const waterHeight = Math.min(seaLevel, sizeY - 1)
+    return (
+      <>
+        {smoothGeometry && (
+          <mesh ref={smoothMeshRef} geometry={smoothGeometry}>
+            <meshLambertMaterial color={lodColor ?? '#9c9c9cff'} />
+          </mesh>
+        )}
+        {/* Translucent water volume spanning the sampled grid up to the sea level */}
+        {waterHeight > 0 && (
+          <mesh position={[0, waterHeight / 2 - sizeY / 2 + 0.5, 0]}>
+            <boxGeometry args={seamless ? [sizeX, waterHeight, sizeZ] : [sizeX - 1, waterHeight, sizeZ - 1]} />
+            <meshLambertMaterial color={waterColor} transparent opacity={WATER_OPACITY} depthWrite={false} />
+          </mesh>
+        )}
+        {featureMesh}
+        {loadingIndicator}
+      </>
+    )
   }
 
   return (
-    <instancedMesh ref={meshRef} args={[undefined, undefined, maxCubes]}>
-      <boxGeometry args={[1.0, 1.0, 1.0]} />
-      <meshLambertMaterial color="#9c9c9cff" />
-    </instancedMesh>
+    <>
+      {greedyMesh ? (
+        <mesh geometry={greedyMesh.geometry}>
+          <meshLambertMaterial vertexColors />
+        </mesh>
+      ) : !useGreedy && (
+        <instancedMesh ref={meshRef} args={[undefined, undefined, maxCubes]}>
+          <boxGeometry args={[1.0, 1.0, 1.0]} />
+          <meshLambertMaterial color="#ffffff" />
+        </instancedMesh>
+      )}
+      {maxWaterCubes > 0 && (
+        <instancedMesh ref={waterMeshRef} args={[undefined, undefined, maxWaterCubes]} renderOrder={1}>
+          <boxGeometry args={[1.0, 1.0, 1.0]} />
+          <meshLambertMaterial color={waterColor} transparent opacity={WATER_OPACITY} depthWrite={false} />
+        </instancedMesh>
+      )}
+      {featureMesh}
+      {loadingIndicator}
+    </>
   )
 }
@@ -4,13 +4,15 @@ interface ChunkFrameProps {
   sizeX: number
   sizeY: number
   sizeZ: number
+  chunksX?: number // Grid of chunks to outline (world view), centered on the origin chunk
+  chunksZ?: number
 }
 
-export function ChunkFrame({ sizeX, sizeY, sizeZ }: ChunkFrameProps) {
-  // Calculate the bounds of the chunk
-  const halfX = sizeX / 2
+export function ChunkFrame({ sizeX, sizeY, sizeZ, chunksX = 1, chunksZ = 1 }: ChunkFrameProps) {
+  // Calculate the bounds of the chunk (or the whole grid)
+  const halfX = (sizeX * chunksX) / 2
   const halfY = sizeY / 2
-  const halfZ = sizeZ / 2
+  const halfZ = (sizeZ * chunksZ) / 2
 
   // Define the 8 corners of the cube as typed tuples
   const corners: [number, number, number][] = [
@@ -45,6 +47,17 @@ export function ChunkFrame({ sizeX, sizeY, sizeZ }: ChunkFrameProps) {
     [corners[5], corners[6]], // back right
   ]
 
+  // Chunk borders inside the grid, drawn along the bottom
+  const gridSegments: [number, number, number][] = []
+  for (let i = 1; i < chunksX; i++) {
+    const x = -halfX + i * sizeX
+    gridSegments.push([x, -halfY, -halfZ], [x, -halfY, halfZ])
+  }
+  for (let i = 1; i < chunksZ; i++) {
+    const z = -halfZ + i * sizeZ
+    gridSegments.push([-halfX, -halfY, z], [halfX, -halfY, z])
+  }
+
   return (
     <group>
       {edges.map((edge, index) => (
@@ -57,6 +70,16 @@ export function ChunkFrame({ sizeX, sizeY, sizeZ }: ChunkFrameProps) {
           opacity={0.3}
         />
       ))}
+      {gridSegments.length > 0 && (
+        <Line
+          points={gridSegments}
+          segments
+          color="#ffffff"
+          lineWidth={1}
+          transparent
+          opacity={0.2}
+        />
+      )}
     </group>
   )
 }
@@ -0,0 +1,51 @@
+import { useEffect, useMemo, useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
+import { Html } from '@react-three/drei'
+import { BoxGeometry, EdgesGeometry } from 'three'
+import type { LineBasicMaterial } from 'three'
+
+interface ChunkLoadingIndicatorProps {
+  sizeX: number
+  sizeY: number
+  sizeZ: number
+  error?: string // Generation failed: a steady red outline with the message above the chunk
+}
+
+// Pulsing outline around a chunk whose generation job is still running
+export function ChunkLoadingIndicator({ sizeX, sizeY, sizeZ, error }: ChunkLoadingIndicatorProps) {
+  const materialRef = useRef<LineBasicMaterial>(null)
+  const geometry = useMemo(() => {
+    const box = new BoxGeometry(sizeX - 0.1, sizeY - 0.1, sizeZ - 0.1) // Just inside the chunk frame
+    const edges = new EdgesGeometry(box)
+    box.dispose()
+    return edges
+  }, [sizeX, sizeY, sizeZ])
+  useEffect(() => () => geometry.dispose(), [geometry])
+
+  useFrame(({ clock }) => {
+    if (materialRef.current && !error) materialRef.current.opacity = 0.45 + 0.35 * Math.sin(clock.elapsedTime * 6)
+  })
+
+  return (
+    <>
+      <lineSegments geometry={geometry}>
+        <lineBasicMaterial ref={materialRef} color={error ? '#ff6b6b' : '#4CAF50'} transparent opacity={error ? 0.9 : 0.5} />
+      </lineSegments>
+      {error && (
+        <Html position={[0, sizeY / 2 + 1, 0]} center>
+          <div style={{
+            background: '#181c20',
+            border: '1px solid #3c4043',
+            borderRadius: '4px',
+            padding: '4px 8px',
+            color: '#ff6b6b',
+            fontSize: '11px',
+            whiteSpace: 'nowrap'
+          }}>
+            ⚠ Chunk generation failed: {error}
+          </div>
+        </Html>
+      )}
+    </>
+  )
+}
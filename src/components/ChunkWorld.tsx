@@ -0,0 +1,107 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useFrame, useThree } from '@react-three/fiber'
+import type { Vector3 } from 'three'
+import { Chunk } from './Chunk'
+import { ChunkFrame } from './ChunkFrame'
+import { LRUCache, chunkCacheKey, hashSettings } from '../utils/chunkCache'
+import { LOD_COLORS, getLodLevel } from '../utils/chunkLod'
+import type { ChunkProps } from './Chunk'
+import type { ChunkLod } from '../utils/chunkLod'
+
+interface ChunkWorldProps extends Omit<ChunkProps, 'cache' | 'cacheKey' | 'seamless' | 'lod' | 'lodColor'> {
+  radius: number // Chunks loaded in each direction around the camera target
+  cacheSize: number // Generated chunks kept in the LRU cache after they unload
+  showFrame?: boolean // Outline the loaded grid and its chunk borders
+  lodRingWidth?: number // Smooth mode: rings of chunks per LOD level around the center (0 = full resolution everywhere)
+  lodColors?: boolean // Tint smooth chunks by LOD level
+}
+
+// Cached entries per chunk: generated data for the raw and the processed heightmap, plus the eroded heightmap
+const ENTRIES_PER_CHUNK = 3
+
+// Streams a square of chunks around the orbit target: each chunk is a regular Chunk shifted by whole chunk
+// sizes (its noise offset moves with it), chunks leaving the square unmount, and their generated data
+// stays in an LRU cache so panning back doesn't regenerate them. In smooth mode, farther rings can be meshed
+// at a coarser stride (see chunkLod).
+export function ChunkWorld({ radius, cacheSize, showFrame = true, lodRingWidth = 0, lodColors = false, onOreStats, onErosion, onMeshStats, ...chunkProps }: ChunkWorldProps) {
+  const { sizeX = 32, sizeY = 32, sizeZ = 32, offsetX = 0, offsetZ = 0, isSmooth = false } = chunkProps
+  const controls = useThree(state => state.controls) as unknown as { target: Vector3 } | null
+  const [center, setCenter] = useState<[number, number]>([0, 0])
+
+  // Never smaller than the loaded square, so visible chunks aren't evicted
+  const capacity = Math.max(cacheSize, (radius * 2 + 1) ** 2) * ENTRIES_PER_CHUNK
+  const [cache] = useState(() => new LRUCache<unknown>(capacity))
+  useEffect(() => {
+    cache.capacity = capacity
+    cache.trim()
+  }, [cache, capacity])
+  useEffect(() => () => cache.clear(), [cache])
+
+  // Follow the chunk under the orbit target
+  useFrame(() => {
+    const target = controls?.target
+    if (!target) return
+    const chunkX = Math.round(target.x / sizeX), chunkZ = Math.round(target.z / sizeZ)
+    if (chunkX !== center[0] || chunkZ !== center[1]) setCenter([chunkX, chunkZ])
+  })
+
+  // Every generation setting goes into the key; the base offset is part of it, chunk coordinates are added per chunk
+  const settingsHash = hashSettings(chunkProps)
+
+  const coordinates = useMemo(() => {
+    const list: [number, number][] = []
+    for (let dx = -radius; dx <= radius; dx++) {
+      for (let dz = -radius; dz <= radius; dz++) {
+        list.push([center[0] + dx, center[1] + dz])
+      }
+    }
+    return list
+  }, [center, radius])
+
+  // LOD level per loaded chunk from its ring around the center, plus its neighbours' levels for the seams
+  const lods = useMemo(() => {
+    const byCoordinate = new Map<string, ChunkLod>()
+    if (!isSmooth || lodRingWidth <= 0) return byCoordinate
+    const levelAt = (chunkX: number, chunkZ: number) =>
+      getLodLevel(Math.max(Math.abs(chunkX - center[0]), Math.abs(chunkZ - center[1])), lodRingWidth)
+    for (const [chunkX, chunkZ] of coordinates) {
+      byCoordinate.set(`${chunkX},${chunkZ}`, {
+        level: levelAt(chunkX, chunkZ),
+        neighbours: [levelAt(chunkX - 1, chunkZ), levelAt(chunkX + 1, chunkZ), levelAt(chunkX, chunkZ - 1), levelAt(chunkX, chunkZ + 1)]
+      })
+    }
+    return byCoordinate
+  }, [coordinates, center, isSmooth, lodRingWidth])
+
+  return (
+    <>
+      {coordinates.map(([chunkX, chunkZ]) => {
+        // Stats and the erosion preview describe the chunk under the camera
+        const isCenter = chunkX === center[0] && chunkZ === center[1]
+        const lod = lods.get(`${chunkX},${chunkZ}`)
+        return (
+          <group key={`${chunkX},${chunkZ}`} position={[chunkX * sizeX, 0, chunkZ * sizeZ]}>
+            <Chunk
+              {...chunkProps}
+              offsetX={offsetX + chunkX * sizeX}
+              offsetZ={offsetZ + chunkZ * sizeZ}
+              onOreStats={isCenter ? onOreStats : undefined}
+              onErosion={isCenter ? onErosion : undefined}
+              onMeshStats={isCenter ? onMeshStats : undefined}
+              seamless
+              cache={cache}
+              cacheKey={chunkCacheKey(settingsHash, chunkX, chunkZ)}
+              lod={lod}
+              lodColor={lod && lodColors ? LOD_COLORS[lod.level] : undefined}
+            />
+          </group>
+        )
+      })}
+      {showFrame && (
+        <group position={[center[0] * sizeX, 0, center[1] * sizeZ]}>
+          <ChunkFrame sizeX={sizeX} sizeY={sizeY} sizeZ={sizeZ} chunksX={radius * 2 + 1} chunksZ={radius * 2 + 1} />
+        </group>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,182 @@
+import { useState } from 'react'
+import { FEATURE_TEMPLATES, createDefaultFeatureSettings, createFeatureRule } from '../utils/features'
+import type { FeatureRule, FeatureSettings, FeatureTemplate } from '../utils/features'
+import type { Biome } from '../utils/biomes'
+
+interface FeaturePanelProps {
+  settings: FeatureSettings
+  onSettingsChange: (settings: FeatureSettings) => void
+  biomes: Biome[] // Biome table, for per-biome features
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '2px 6px',
+  fontSize: '10px',
+  backgroundColor: '#2a2d30',
+  color: '#ccc',
+  border: '1px solid #3c4043',
+  borderRadius: '3px',
+  cursor: 'pointer'
+}
+
+const inputStyle: React.CSSProperties = {
+  background: '#2a2d30',
+  color: '#fff',
+  border: '1px solid #3c4043',
+  borderRadius: 4,
+  padding: '2px 4px',
+  fontSize: 10,
+  width: '38px'
+}
+
+const labelStyle: React.CSSProperties = { color: '#aaa', fontSize: '10px' }
+
+const checkboxStyle: React.CSSProperties = { width: '12px', height: '12px', accentColor: '#4CAF50' }
+
+export function FeaturePanel({ settings, onSettingsChange, biomes }: FeaturePanelProps) {
+  const [collapsed, setCollapsed] = useState(true)
+
+  const update = (changes: Partial<FeatureSettings>) => onSettingsChange({ ...settings, ...changes })
+
+  const updateFeature = (id: string, changes: Partial<FeatureRule>) => {
+    update({ features: settings.features.map(feature => feature.id === id ? { ...feature, ...changes } : feature) })
+  }
+
+  const numberInput = (feature: FeatureRule, key: 'minDistance' | 'coverage' | 'densityFrequency' | 'densityThreshold', step: number) => (
+    <input
+      type="number"
+      value={feature[key]}
+      step={step}
+      onChange={(e) => updateFeature(feature.id, { [key]: Number(e.target.value) })}
+      style={inputStyle}
+    />
+  )
+
+  // Optional filters: an empty input means "no bound"
+  const boundInput = (feature: FeatureRule, key: 'minHeight' | 'maxHeight' | 'maxSlope') => (
+    <input
+      type="number"
+      value={feature[key] ?? ''}
+      placeholder="-"
+      onChange={(e) => updateFeature(feature.id, { [key]: e.target.value === '' ? undefined : Number(e.target.value) })}
+      style={{ ...inputStyle, width: '32px' }}
+    />
+  )
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        left: '20px',
+        bottom: '64px',
+        width: '320px',
+        maxHeight: '55vh',
+        overflowY: 'auto',
+        background: '#181c20',
+        border: '1px solid #3c4043',
+        borderRadius: '8px',
+        padding: '10px 12px',
+        fontFamily: 'system-ui, sans-serif',
+        color: '#ffffff',
+        fontSize: '12px',
+        boxShadow: '0 4px 12px rgba(0, 0, 0, 0.3)',
+        zIndex: 1000
+      }}
+      onMouseDown={(e) => e.stopPropagation()}
+      onMouseMove={(e) => e.stopPropagation()}
+      onMouseUp={(e) => e.stopPropagation()}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px' }}>
+        <div style={{ fontWeight: 'bold', cursor: 'pointer', userSelect: 'none' }} onClick={() => setCollapsed(!collapsed)}>
+          🌲 Features ({settings.features.length})
+        </div>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '11px', cursor: 'pointer', userSelect: 'none' }}>
+          <input type="checkbox" checked={settings.enabled} onChange={(e) => update({ enabled: e.target.checked })} style={checkboxStyle} />
+          Place features
+        </label>
+      </div>
+
+      {!collapsed && (
+        <div style={{ marginTop: '8px', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+            <span style={labelStyle}>seed</span>
+            <input
+              type="number"
+              value={settings.seed}
+              onChange={(e) => update({ seed: Number(e.target.value) })}
+              style={{ ...inputStyle, width: '60px' }}
+            />
+          </div>
+
+          {settings.features.map(feature => (
+            <div key={feature.id} style={{ border: '1px solid #3c4043', borderRadius: '4px', padding: '6px', opacity: feature.enabled ? 1 : 0.5 }}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '4px', marginBottom: '4px' }}>
+                <input
+                  type="checkbox"
+                  checked={feature.enabled}
+                  onChange={(e) => updateFeature(feature.id, { enabled: e.target.checked })}
+                  style={checkboxStyle}
+                />
+                <input
+                  type="text"
+                  value={feature.name}
+                  onChange={(e) => updateFeature(feature.id, { name: e.target.value })}
+                  style={{ ...inputStyle, flex: 1, width: 'auto', minWidth: 0 }}
+                />
+                <select
+                  value={feature.template}
+                  onChange={(e) => updateFeature(feature.id, { template: e.target.value as FeatureTemplate })}
+                  style={{ ...inputStyle, width: 'auto' }}
+                >
+                  {FEATURE_TEMPLATES.map(template => <option key={template} value={template}>{template}</option>)}
+                </select>
+                <button style={buttonStyle} onClick={() => update({ features: settings.features.filter(f => f.id !== feature.id) })}>✕</button>
+              </div>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '4px', flexWrap: 'wrap', marginBottom: '4px' }}>
+                <span style={labelStyle}>dist</span>
+                {numberInput(feature, 'minDistance', 1)}
+                <span style={labelStyle}>cover</span>
+                {numberInput(feature, 'coverage', 0.05)}
+                <span style={labelStyle}>freq</span>
+                {numberInput(feature, 'densityFrequency', 0.01)}
+                <span style={labelStyle}>thr</span>
+                {numberInput(feature, 'densityThreshold', 0.05)}
+              </div>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '4px', flexWrap: 'wrap' }}>
+                <span style={labelStyle}>height %</span>
+                {boundInput(feature, 'minHeight')}
+                {boundInput(feature, 'maxHeight')}
+                <span style={labelStyle}>max slope</span>
+                {boundInput(feature, 'maxSlope')}
+                <select
+                  value={feature.biome ?? ''}
+                  onChange={(e) => updateFeature(feature.id, { biome: e.target.value || undefined })}
+                  style={{ ...inputStyle, flex: 1, width: 'auto', minWidth: 0 }}
+                >
+                  <option value="">any biome</option>
+                  {biomes.map(biome => <option key={biome.id} value={biome.id}>{biome.name}</option>)}
+                  {feature.biome && !biomes.some(biome => biome.id === feature.biome) && <option value={feature.biome}>{feature.biome}</option>}
+                </select>
+              </div>
+            </div>
+          ))}
+
+          <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+            <button
+              style={{ ...buttonStyle, padding: '4px 8px', backgroundColor: '#4CAF50', color: '#ffffff', fontWeight: 'bold' }}
+              onClick={() => update({ features: [...settings.features, createFeatureRule()] })}
+            >
+              + Add feature
+            </button>
+            <button style={buttonStyle} onClick={() => onSettingsChange({ ...createDefaultFeatureSettings(), enabled: settings.enabled })}>Reset</button>
+          </div>
+          <div style={{ fontSize: '9px', color: '#666', lineHeight: '1.3' }}>
+            Dist is the minimum spacing in blocks; a density noise above thr lets features spawn with the cover chance.
+            Placement depends only on the seed and world position, so it lines up across chunk offsets.
+            Biome filters need biomes enabled; 3D mode only places on columns inside the chunk.
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,196 @@
+import { useMemo, useRef, useState } from 'react'
+import { CURVE_INTERPOLATIONS, buildHistogram, createDefaultHeightCurve, evaluateHeightCurve, sortCurvePoints } from '../utils/heightCurve'
+import type { CurveInterpolation, HeightCurve } from '../utils/heightCurve'
+import { createNoiseSampler } from '../utils/noiseSampler'
+import type { NoiseSamplerOptions } from '../utils/noiseSampler'
+import type { NoiseSettings } from '../utils/noiseEngines'
+
+interface HeightCurveEditorProps {
+  curve: HeightCurve
+  onCurveChange: (curve: HeightCurve) => void
+  noiseSettings: NoiseSettings
+  samplerOptions: NoiseSamplerOptions // Same sources/expression as the chunk, for the histogram
+  sizeX: number
+  sizeY: number
+  sizeZ: number
+}
+
+// Plot area (px)
+const WIDTH = 260
+const HEIGHT = 150
+const BINS = 52
+const POINT_RADIUS = 5
+
+const toScreen = ([noise, height]: number[]) => ({ x: (noise + 1) / 2 * WIDTH, y: HEIGHT - height * HEIGHT })
+const clamp = (v: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, v))
+
+const buttonStyle: React.CSSProperties = {
+  padding: '2px 6px',
+  fontSize: '10px',
+  backgroundColor: '#2a2d30',
+  color: '#ccc',
+  border: '1px solid #3c4043',
+  borderRadius: '3px',
+  cursor: 'pointer'
+}
+
+export function HeightCurveEditor({ curve, onCurveChange, noiseSettings, samplerOptions, sizeX, sizeY, sizeZ }: HeightCurveEditorProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  const svgRef = useRef<SVGSVGElement>(null)
+
+  // Histogram of the noise values the chunk currently sees (after layers/graph/expression)
+  const histogram = useMemo(() => {
+    if (!isOpen) return []
+    const sampler = createNoiseSampler(noiseSettings, { ...samplerOptions, chunkSize: { x: sizeX, y: sizeY, z: sizeZ } })
+    const counts = buildHistogram(sampler.fillGrid2D(sizeX, sizeZ), BINS)
+    const peak = Math.max(1, ...counts)
+    return counts.map(count => count / peak)
+  }, [isOpen, noiseSettings, samplerOptions, sizeX, sizeY, sizeZ])
+
+  // Sampled curve as an SVG polyline
+  const curvePath = useMemo(() => {
+    const steps = 100
+    const parts: string[] = []
+    for (let i = 0; i <= steps; i++) {
+      const noise = -1 + (2 * i) / steps
+      const { x, y } = toScreen([noise, evaluateHeightCurve(curve, noise)])
+      parts.push(`${i === 0 ? 'M' : 'L'} ${x.toFixed(1)} ${y.toFixed(1)}`)
+    }
+    return parts.join(' ')
+  }, [curve])
+
+  const eventToCurve = (e: React.MouseEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect()
+    const noise = clamp(((e.clientX - rect.left) / WIDTH) * 2 - 1, -1, 1)
+    const height = clamp(1 - (e.clientY - rect.top) / HEIGHT, 0, 1)
+    return [Number(noise.toFixed(3)), Number(height.toFixed(3))]
+  }
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    if (dragIndex === null) return
+    const [noise, height] = eventToCurve(e)
+    const { points } = curve
+    // Keep points ordered by staying between the neighbours
+    const lo = dragIndex > 0 ? points[dragIndex - 1][0] : -1
+    const hi = dragIndex < points.length - 1 ? points[dragIndex + 1][0] : 1
+    const next = points.map((p, i) => i === dragIndex ? [clamp(noise, lo, hi), height] : p)
+    onCurveChange({ ...curve, points: next })
+  }
+
+  const addPoint = (e: React.MouseEvent) => {
+    if (e.target !== e.currentTarget && !(e.target as Element).hasAttribute('data-background')) return
+    onCurveChange({ ...curve, points: sortCurvePoints([...curve.points, eventToCurve(e)]) })
+  }
+
+  const removePoint = (index: number) => {
+    if (curve.points.length <= 2) return // A curve needs two ends
+    onCurveChange({ ...curve, points: curve.points.filter((_, i) => i !== index) })
+  }
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        left: '20px',
+        bottom: '20px',
+        background: '#181c20',
+        border: '1px solid #3c4043',
+        borderRadius: '8px',
+        padding: '10px 12px',
+        fontFamily: 'system-ui, sans-serif',
+        color: '#ffffff',
+        fontSize: '12px',
+        boxShadow: '0 4px 12px rgba(0, 0, 0, 0.3)',
+        zIndex: 1000
+      }}
+      onMouseDown={(e) => e.stopPropagation()}
+      onMouseMove={(e) => e.stopPropagation()}
+      onMouseUp={(e) => e.stopPropagation()}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px' }}>
+        <div style={{ fontWeight: 'bold', cursor: 'pointer', userSelect: 'none' }} onClick={() => setIsOpen(!isOpen)}>
+          📈 Height Curve {isOpen ? '▾' : '▸'}
+        </div>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '11px', cursor: 'pointer', userSelect: 'none' }}>
+          <input
+            type="checkbox"
+            checked={curve.enabled}
+            onChange={(e) => onCurveChange({ ...curve, enabled: e.target.checked })}
+            style={{ width: '12px', height: '12px', accentColor: '#4CAF50' }}
+          />
+          Use curve
+        </label>
+      </div>
+
+      {isOpen && (
+        <div style={{ marginTop: '8px' }}>
+          <svg
+            ref={svgRef}
+            width={WIDTH}
+            height={HEIGHT}
+            style={{ display: 'block', background: '#111', border: '1px solid #3c4043', borderRadius: '4px', cursor: 'crosshair' }}
+            onMouseMove={handleMouseMove}
+            onMouseUp={() => setDragIndex(null)}
+            onMouseLeave={() => setDragIndex(null)}
+            onClick={addPoint}
+          >
+            {/* Noise histogram behind the curve */}
+            {histogram.map((value, i) => (
+              <rect
+                key={i}
+                data-background
+                x={(i / BINS) * WIDTH}
+                y={HEIGHT - value * HEIGHT * 0.9}
+                width={WIDTH / BINS - 1}
+                height={value * HEIGHT * 0.9}
+                fill="#2f4a30"
+              />
+            ))}
+            <line x1={WIDTH / 2} y1={0} x2={WIDTH / 2} y2={HEIGHT} stroke="#333" pointerEvents="none" />
+            <path d={curvePath} fill="none" stroke="#4CAF50" strokeWidth={2} pointerEvents="none" />
+            {curve.points.map((point, i) => {
+              const { x, y } = toScreen(point)
+              return (
+                <circle
+                  key={i}
+                  cx={x}
+                  cy={y}
+                  r={POINT_RADIUS}
+                  fill={dragIndex === i ? '#ffffff' : '#4CAF50'}
+                  stroke="#181c20"
+                  style={{ cursor: 'grab' }}
+                  onMouseDown={(e) => { e.preventDefault(); setDragIndex(i) }}
+                  onClick={(e) => e.stopPropagation()}
+                  onDoubleClick={(e) => { e.stopPropagation(); removePoint(i) }}
+                  onContextMenu={(e) => { e.preventDefault(); removePoint(i) }}
+                >
+                  <title>{`noise ${point[0]} → height ${Math.round(point[1] * sizeY)}`}</title>
+                </circle>
+              )
+            })}
+          </svg>
+          <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '9px', color: '#666', marginTop: '2px' }}>
+            <span>-1</span>
+            <span>noise</span>
+            <span>1</span>
+          </div>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginTop: '6px' }}>
+            <select
+              value={curve.interpolation}
+              onChange={(e) => onCurveChange({ ...curve, interpolation: e.target.value as CurveInterpolation })}
+              style={{ background: '#2a2d30', color: '#fff', border: '1px solid #3c4043', borderRadius: 4, padding: '2px 4px', fontSize: 10 }}
+            >
+              {CURVE_INTERPOLATIONS.map(mode => <option key={mode} value={mode}>{mode}</option>)}
+            </select>
+            <button style={buttonStyle} onClick={() => onCurveChange({ ...createDefaultHeightCurve(), enabled: curve.enabled })}>Reset</button>
+          </div>
+          <div style={{ fontSize: '9px', color: '#666', marginTop: '4px', lineHeight: '1.3' }}>
+            Click to add a point, drag to move, double-click to delete.<br/>
+            Height is a fraction of the chunk height ({sizeY}); replaces amplitude/offset in 2D mode.
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,145 @@
+import { useState } from 'react'
+import { FILTER_DEFINITIONS, HEIGHTMAP_FILTER_TYPES, createDefaultHeightmapFilterSettings, createHeightmapFilter } from '../utils/heightmapFilters'
+import type { HeightmapFilter, HeightmapFilterSettings, HeightmapFilterType } from '../utils/heightmapFilters'
+
+interface HeightmapFilterPanelProps {
+  settings: HeightmapFilterSettings
+  onSettingsChange: (settings: HeightmapFilterSettings) => void
+  notice?: string // Shown under the title, even when collapsed (e.g. why the filters are not applied)
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '2px 6px',
+  fontSize: '10px',
+  backgroundColor: '#2a2d30',
+  color: '#ccc',
+  border: '1px solid #3c4043',
+  borderRadius: '3px',
+  cursor: 'pointer'
+}
+
+const inputStyle: React.CSSProperties = {
+  background: '#2a2d30',
+  color: '#fff',
+  border: '1px solid #3c4043',
+  borderRadius: 4,
+  padding: '2px 4px',
+  fontSize: 10
+}
+
+const labelStyle: React.CSSProperties = { color: '#aaa', fontSize: '10px' }
+
+const checkboxStyle: React.CSSProperties = { width: '12px', height: '12px', accentColor: '#4CAF50' }
+
+export function HeightmapFilterPanel({ settings, onSettingsChange, notice }: HeightmapFilterPanelProps) {
+  const [collapsed, setCollapsed] = useState(true)
+  const [newType, setNewType] = useState<HeightmapFilterType>('blur')
+
+  const update = (changes: Partial<HeightmapFilterSettings>) => onSettingsChange({ ...settings, ...changes })
+
+  const updateFilter = (id: string, changes: Partial<HeightmapFilter>) => {
+    update({ filters: settings.filters.map(filter => filter.id === id ? { ...filter, ...changes } : filter) })
+  }
+
+  const moveFilter = (index: number, direction: -1 | 1) => {
+    const target = index + direction
+    if (target < 0 || target >= settings.filters.length) return
+    const next = [...settings.filters]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    update({ filters: next })
+  }
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        left: '350px',
+        bottom: '64px',
+        width: '320px',
+        maxHeight: '55vh',
+        overflowY: 'auto',
+        background: '#181c20',
+        border: '1px solid #3c4043',
+        borderRadius: '8px',
+        padding: '10px 12px',
+        fontFamily: 'system-ui, sans-serif',
+        color: '#ffffff',
+        fontSize: '12px',
+        boxShadow: '0 4px 12px rgba(0, 0, 0, 0.3)',
+        zIndex: 1000
+      }}
+      onMouseDown={(e) => e.stopPropagation()}
+      onMouseMove={(e) => e.stopPropagation()}
+      onMouseUp={(e) => e.stopPropagation()}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px' }}>
+        <div style={{ fontWeight: 'bold', cursor: 'pointer', userSelect: 'none' }} onClick={() => setCollapsed(!collapsed)}>
+          ⛰️ Heightmap Filters ({settings.filters.length})
+        </div>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '11px', cursor: 'pointer', userSelect: 'none' }}>
+          <input type="checkbox" checked={settings.enabled} onChange={(e) => update({ enabled: e.target.checked })} style={checkboxStyle} />
+          Use filters
+        </label>
+      </div>
+
+      {notice && <div style={{ marginTop: '6px', fontSize: '10px', color: '#ff6b6b', lineHeight: '1.3' }}>⚠ {notice}</div>}
+
+      {!collapsed && (
+        <div style={{ marginTop: '8px', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+          {settings.filters.map((filter, index) => {
+            const definition = FILTER_DEFINITIONS[filter.type]
+            return (
+              <div key={filter.id} style={{ border: '1px solid #3c4043', borderRadius: '4px', padding: '6px', opacity: filter.enabled ? 1 : 0.5 }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '4px', marginBottom: '4px' }}>
+                  <input
+                    type="checkbox"
+                    checked={filter.enabled}
+                    onChange={(e) => updateFilter(filter.id, { enabled: e.target.checked })}
+                    style={checkboxStyle}
+                  />
+                  <span style={{ flex: 1, fontSize: '11px' }}>{index + 1}. {definition.label}</span>
+                  <button style={buttonStyle} onClick={() => moveFilter(index, -1)} disabled={index === 0}>▲</button>
+                  <button style={buttonStyle} onClick={() => moveFilter(index, 1)} disabled={index === settings.filters.length - 1}>▼</button>
+                  <button style={buttonStyle} onClick={() => update({ filters: settings.filters.filter(f => f.id !== filter.id) })}>✕</button>
+                </div>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '4px', flexWrap: 'wrap' }}>
+                  {definition.params.map(param => (
+                    <span key={param.key} style={{ display: 'flex', alignItems: 'center', gap: '2px' }}>
+                      <span style={labelStyle}>{param.label}</span>
+                      <input
+                        type="number"
+                        value={filter.params[param.key] ?? definition.defaultParams()[param.key]}
+                        step={param.step}
+                        min={param.min}
+                        max={param.max}
+                        onChange={(e) => updateFilter(filter.id, { params: { ...filter.params, [param.key]: Number(e.target.value) } })}
+                        style={{ ...inputStyle, width: '40px' }}
+                      />
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )
+          })}
+
+          <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+            <select value={newType} onChange={(e) => setNewType(e.target.value as HeightmapFilterType)} style={inputStyle}>
+              {HEIGHTMAP_FILTER_TYPES.map(type => <option key={type} value={type}>{FILTER_DEFINITIONS[type].label}</option>)}
+            </select>
+            <button
+              style={{ ...buttonStyle, padding: '4px 8px', backgroundColor: '#4CAF50', color: '#ffffff', fontWeight: 'bold' }}
+              onClick={() => update({ filters: [...settings.filters, createHeightmapFilter(newType)] })}
+            >
+              + Add filter
+            </button>
+            <button style={buttonStyle} onClick={() => onSettingsChange({ ...createDefaultHeightmapFilterSettings(), enabled: settings.enabled })}>Reset</button>
+          </div>
+          <div style={{ fontSize: '9px', color: '#666', lineHeight: '1.3' }}>
+            Filters run top to bottom on the 2D heightmap, after hydraulic erosion and before blocks or marching cubes.
+            Thermal erosion moves material down slopes steeper than the talus angle. Clamp bounds are % of the chunk height.
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,170 @@
+import { useState } from 'react'
+import type { NoiseSettings } from '../utils/noiseEngines'
+import { BLEND_MODES, createNoiseLayer } from '../utils/noiseLayers'
+import type { BlendMode, NoiseLayer } from '../utils/noiseLayers'
+
+interface LayerStackPanelProps {
+  layers: NoiseLayer[]
+  onLayersChange: (layers: NoiseLayer[]) => void
+  enabled: boolean // Whether the stack replaces the single noise from the panels
+  onEnabledChange: (enabled: boolean) => void
+  currentSettings: NoiseSettings // Settings currently shown in the Leva panels
+  onLoadSettings: (settings: NoiseSettings) => void // Push a layer's settings into the Leva panels
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '2px 6px',
+  fontSize: '10px',
+  backgroundColor: '#2a2d30',
+  color: '#ccc',
+  border: '1px solid #3c4043',
+  borderRadius: '3px',
+  cursor: 'pointer'
+}
+
+const inputStyle: React.CSSProperties = {
+  background: '#2a2d30',
+  color: '#fff',
+  border: '1px solid #3c4043',
+  borderRadius: 4,
+  padding: '2px 4px',
+  fontSize: 10
+}
+
+export function LayerStackPanel({ layers, onLayersChange, enabled, onEnabledChange, currentSettings, onLoadSettings }: LayerStackPanelProps) {
+  const [collapsed, setCollapsed] = useState(false)
+
+  const updateLayer = (id: string, changes: Partial<NoiseLayer>) => {
+    onLayersChange(layers.map(layer => layer.id === id ? { ...layer, ...changes } : layer))
+  }
+
+  const moveLayer = (index: number, direction: -1 | 1) => {
+    const target = index + direction
+    if (target < 0 || target >= layers.length) return
+    const next = [...layers]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onLayersChange(next)
+  }
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        right: '20px',
+        bottom: '20px',
+        width: '300px',
+        maxHeight: '45vh',
+        overflowY: 'auto',
+        background: '#181c20',
+        border: '1px solid #3c4043',
+        borderRadius: '8px',
+        padding: '10px 12px',
+        fontFamily: 'system-ui, sans-serif',
+        color: '#ffffff',
+        fontSize: '12px',
+        boxShadow: '0 4px 12px rgba(0, 0, 0, 0.3)',
+        zIndex: 1000
+      }}
+      onMouseDown={(e) => e.stopPropagation()}
+      onMouseMove={(e) => e.stopPropagation()}
+      onMouseUp={(e) => e.stopPropagation()}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px' }}>
+        <div style={{ fontWeight: 'bold', cursor: 'pointer', userSelect: 'none' }} onClick={() => setCollapsed(!collapsed)}>
+          🗂️ Noise Layers ({layers.length})
+        </div>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '11px', cursor: 'pointer', userSelect: 'none' }}>
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => onEnabledChange(e.target.checked)}
+            style={{ width: '12px', height: '12px', accentColor: '#4CAF50' }}
+          />
+          Use stack
+        </label>
+      </div>
+
+      {!collapsed && (
+        <div style={{ marginTop: '8px', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+          {layers.length === 0 && (
+            <div style={{ fontSize: '10px', color: '#888' }}>
+              No layers yet. Tune the panels, then add them as a layer.
+            </div>
+          )}
+
+          {layers.map((layer, index) => (
+            <div
+              key={layer.id}
+              style={{
+                border: '1px solid #3c4043',
+                borderRadius: '4px',
+                padding: '6px',
+                opacity: layer.enabled ? 1 : 0.5
+              }}
+            >
+              <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '4px' }}>
+                <input
+                  type="checkbox"
+                  checked={layer.enabled}
+                  onChange={(e) => updateLayer(layer.id, { enabled: e.target.checked })}
+                  style={{ width: '12px', height: '12px', accentColor: '#4CAF50' }}
+                />
+                <input
+                  type="text"
+                  value={layer.name}
+                  onChange={(e) => updateLayer(layer.id, { name: e.target.value })}
+                  style={{ ...inputStyle, flex: 1 }}
+                />
+                <button style={buttonStyle} onClick={() => moveLayer(index, -1)} disabled={index === 0}>▲</button>
+                <button style={buttonStyle} onClick={() => moveLayer(index, 1)} disabled={index === layers.length - 1}>▼</button>
+              </div>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '4px' }}>
+                <select
+                  value={layer.blendMode}
+                  onChange={(e) => updateLayer(layer.id, { blendMode: e.target.value as BlendMode })}
+                  disabled={index === 0}
+                  title={index === 0 ? 'The first layer is the starting value' : 'Blend mode'}
+                  style={inputStyle}
+                >
+                  {BLEND_MODES.map(mode => <option key={mode} value={mode}>{mode}</option>)}
+                </select>
+                <span style={{ color: '#aaa', fontSize: '10px' }}>weight</span>
+                <input
+                  type="number"
+                  value={layer.weight}
+                  step={0.05}
+                  onChange={(e) => updateLayer(layer.id, { weight: Number(e.target.value) })}
+                  style={{ ...inputStyle, width: '56px' }}
+                />
+                <span style={{ color: '#666', fontSize: '9px' }}>
+                  {layer.settings.noiseType} @ {layer.settings.frequency}
+                </span>
+              </div>
+              <div style={{ display: 'flex', gap: '4px', flexWrap: 'wrap' }}>
+                <button style={buttonStyle} onClick={() => onLoadSettings(layer.settings)} title="Show this layer's settings in the panels">Load</button>
+                <button style={buttonStyle} onClick={() => updateLayer(layer.id, { settings: { ...currentSettings } })} title="Store the panel settings in this layer">Save</button>
+                {layer.blendMode === 'lerp' && (
+                  <button
+                    style={buttonStyle}
+                    onClick={() => updateLayer(layer.id, { mask: layer.mask ? undefined : { ...currentSettings } })}
+                    title="Use the panel settings as this layer's lerp mask"
+                  >
+                    {layer.mask ? 'Clear mask' : 'Set mask'}
+                  </button>
+                )}
+                <button style={buttonStyle} onClick={() => onLayersChange(layers.filter(l => l.id !== layer.id))}>Remove</button>
+              </div>
+            </div>
+          ))}
+
+          <button
+            style={{ ...buttonStyle, padding: '4px 8px', backgroundColor: '#4CAF50', color: '#ffffff', fontWeight: 'bold' }}
+            onClick={() => onLayersChange([...layers, createNoiseLayer(currentSettings)])}
+          >
+            + Add layer from panels
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
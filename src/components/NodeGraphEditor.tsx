@@ -0,0 +1,448 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import type { NoiseSettings } from '../utils/noiseEngines'
+import { GraphError, MATH_OPS, NODE_DEFINITIONS, UNARY_OPS, compileNoiseGraph, createDefaultGraph, createGraphNode, dependsOn, parseGraph, serializeGraph } from '../utils/nodeGraph'
+import type { GraphNode, GraphNodeType, GraphParamValue, NoiseGraph } from '../utils/nodeGraph'
+
+interface NodeGraphEditorProps {
+  graph: NoiseGraph
+  onGraphChange: (graph: NoiseGraph) => void
+  enabled: boolean // Whether the graph output replaces the regular noise
+  onEnabledChange: (enabled: boolean) => void
+  currentSettings: NoiseSettings // Settings currently shown in the Leva panels
+}
+
+// Node box layout (px); ports are positioned from these
+const NODE_WIDTH = 150
+const HEADER_HEIGHT = 20
+const PORT_ROW = 18
+
+const NOISE_TYPES = ['OpenSimplex2', 'OpenSimplex2S', 'Cellular', 'Perlin', 'ValueCubic', 'Value']
+const FRACTAL_TYPES = ['None', 'FBm', 'Ridged', 'PingPong']
+const ADDABLE_TYPES = (Object.keys(NODE_DEFINITIONS) as GraphNodeType[]).filter(type => type !== 'output')
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  background: '#2a2d30',
+  color: '#fff',
+  border: '1px solid #3c4043',
+  borderRadius: 3,
+  padding: '1px 3px',
+  fontSize: 10,
+  boxSizing: 'border-box'
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '2px 6px',
+  fontSize: '10px',
+  backgroundColor: '#2a2d30',
+  color: '#ccc',
+  border: '1px solid #3c4043',
+  borderRadius: '3px',
+  cursor: 'pointer'
+}
+
+const inputPortPosition = (node: GraphNode, index: number) => ({
+  x: node.x,
+  y: node.y + HEADER_HEIGHT + PORT_ROW * index + PORT_ROW / 2
+})
+
+const outputPortPosition = (node: GraphNode) => ({
+  x: node.x + NODE_WIDTH,
+  y: node.y + HEADER_HEIGHT / 2
+})
+
+const wirePath = (from: { x: number, y: number }, to: { x: number, y: number }) => {
+  const bend = Math.max(40, Math.abs(to.x - from.x) / 2)
+  return `M ${from.x} ${from.y} C ${from.x + bend} ${from.y}, ${to.x - bend} ${to.y}, ${to.x} ${to.y}`
+}
+
+const formatCurve = (points: GraphParamValue) =>
+  Array.isArray(points) ? (points as number[][]).map(([x, y]) => `${x}:${y}`).join(' ') : ''
+
+const parseCurve = (text: string): number[][] | null => {
+  const points = text.trim().split(/\s+/).map(pair => pair.split(':').map(Number))
+  if (points.length < 2 || points.some(p => p.length !== 2 || p.some(v => !Number.isFinite(v)))) return null
+  return points
+}
+
+export function NodeGraphEditor({ graph, onGraphChange, enabled, onEnabledChange, currentSettings }: NodeGraphEditorProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [addType, setAddType] = useState<GraphNodeType>('noise')
+  const [jsonText, setJsonText] = useState('')
+  const [importError, setImportError] = useState<string | null>(null)
+  // Transient interaction state; node positions are committed on mouse up
+  const [dragging, setDragging] = useState<{ id: string, dx: number, dy: number, x: number, y: number } | null>(null)
+  const [pendingWire, setPendingWire] = useState<{ fromId: string, x: number, y: number } | null>(null)
+  const canvasRef = useRef<HTMLDivElement>(null)
+
+  // Compile once per graph change to surface errors (the sampler compiles its own copy)
+  const compileError = useMemo(() => {
+    try {
+      compileNoiseGraph(graph, 2)
+      return null
+    } catch (error) {
+      return error instanceof GraphError ? error : new GraphError((error as Error).message)
+    }
+  }, [graph])
+
+  const nodes = graph.nodes.map(node =>
+    dragging && dragging.id === node.id ? { ...node, x: dragging.x, y: dragging.y } : node
+  )
+  const byId = new Map(nodes.map(node => [node.id, node]))
+
+  const updateNode = (id: string, changes: Partial<GraphNode>) => {
+    onGraphChange({ ...graph, nodes: graph.nodes.map(node => node.id === id ? { ...node, ...changes } : node) })
+  }
+
+  const updateParam = (node: GraphNode, key: string, value: GraphParamValue | undefined) => {
+    const params = { ...node.params }
+    if (value === undefined) delete params[key]
+    else params[key] = value
+    updateNode(node.id, { params })
+  }
+
+  const removeNode = (id: string) => {
+    onGraphChange({
+      ...graph,
+      nodes: graph.nodes
+        .filter(node => node.id !== id)
+        .map(node => ({
+          ...node,
+          inputs: Object.fromEntries(Object.entries(node.inputs).map(([port, source]) => [port, source === id ? null : source]))
+        }))
+    })
+  }
+
+  const connect = (fromId: string, toId: string, port: string) => {
+    // Refuse wires that would feed a node its own output
+    if (dependsOn(graph, fromId, toId)) return
+    const target = graph.nodes.find(node => node.id === toId)
+    if (!target) return
+    updateNode(toId, { inputs: { ...target.inputs, [port]: fromId } })
+  }
+
+  const canvasPoint = (e: { clientX: number, clientY: number }) => {
+    const rect = canvasRef.current!.getBoundingClientRect()
+    return {
+      x: e.clientX - rect.left + canvasRef.current!.scrollLeft,
+      y: e.clientY - rect.top + canvasRef.current!.scrollTop
+    }
+  }
+
+  // Track node drags and wire drags on the document so fast moves don't drop them
+  useEffect(() => {
+    if (!dragging && !pendingWire) return
+    const handleMove = (e: MouseEvent) => {
+      const p = canvasPoint(e)
+      if (dragging) setDragging({ ...dragging, x: Math.max(0, p.x - dragging.dx), y: Math.max(0, p.y - dragging.dy) })
+      if (pendingWire) setPendingWire({ ...pendingWire, x: p.x, y: p.y })
+    }
+    const handleUp = () => {
+      if (dragging) updateNode(dragging.id, { x: dragging.x, y: dragging.y })
+      setDragging(null)
+      setPendingWire(null)
+    }
+    document.addEventListener('mousemove', handleMove)
+    document.addEventListener('mouseup', handleUp)
+    return () => {
+      document.removeEventListener('mousemove', handleMove)
+      document.removeEventListener('mouseup', handleUp)
+    }
+  })
+
+  const numberField = (node: GraphNode, key: string, label: string, step = 0.01) => (
+    <label key={key} style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+      <span style={{ width: 52, color: '#aaa' }}>{label}</span>
+      <input
+        type="number"
+        step={step}
+        value={Number(node.params[key] ?? 0)}
+        onChange={(e) => updateParam(node, key, Number(e.target.value))}
+        style={inputStyle}
+      />
+    </label>
+  )
+
+  const selectField = (node: GraphNode, key: string, label: string, options: readonly string[]) => (
+    <label key={key} style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+      <span style={{ width: 52, color: '#aaa' }}>{label}</span>
+      <select value={String(node.params[key])} onChange={(e) => updateParam(node, key, e.target.value)} style={inputStyle}>
+        {options.map(option => <option key={option} value={option}>{option}</option>)}
+      </select>
+    </label>
+  )
+
+  const renderParams = (node: GraphNode) => {
+    switch (node.type) {
+      case 'noise':
+        if (node.params.settings) {
+          return (
+            <>
+              <div style={{ color: '#aaa' }}>Panel settings ({(node.params.settings as NoiseSettings).noiseType})</div>
+              <button style={buttonStyle} onClick={() => updateParam(node, 'settings', undefined)}>Use custom</button>
+            </>
+          )
+        }
+        return (
+          <>
+            {selectField(node, 'noiseType', 'type', NOISE_TYPES)}
+            {numberField(node, 'seed', 'seed', 1)}
+            {numberField(node, 'frequency', 'freq', 0.001)}
+            {selectField(node, 'fractalType', 'fractal', FRACTAL_TYPES)}
+            {numberField(node, 'octaves', 'octaves', 1)}
+            <button style={buttonStyle} onClick={() => updateParam(node, 'settings', { ...currentSettings })}>Copy panels</button>
+          </>
+        )
+      case 'coord':
+        return (
+          <>
+            {selectField(node, 'axis', 'axis', ['x', 'y', 'z'])}
+            {numberField(node, 'scale', 'scale')}
+          </>
+        )
+      case 'constant':
+        return numberField(node, 'value', 'value')
+      case 'math':
+        return selectField(node, 'op', 'op', MATH_OPS)
+      case 'unary':
+        return selectField(node, 'op', 'fn', UNARY_OPS)
+      case 'remap':
+        return ['inMin', 'inMax', 'outMin', 'outMax'].map(key => numberField(node, key, key))
+      case 'clamp':
+        return ['min', 'max'].map(key => numberField(node, key, key))
+      case 'curve':
+        return (
+          <input
+            key={formatCurve(node.params.points)}
+            type="text"
+            defaultValue={formatCurve(node.params.points)}
+            title="Control points as x:y pairs"
+            onBlur={(e) => {
+              const points = parseCurve(e.target.value)
+              if (points) updateParam(node, 'points', points)
+              else e.target.value = formatCurve(node.params.points)
+            }}
+            style={{ ...inputStyle, fontFamily: 'monospace' }}
+          />
+        )
+      case 'warp':
+        return ['amplitude', 'frequency', 'seed'].map(key => numberField(node, key, key, key === 'frequency' ? 0.001 : 1))
+      default:
+        return null
+    }
+  }
+
+  const wires = nodes.flatMap(node =>
+    NODE_DEFINITIONS[node.type].inputs.flatMap((port, index) => {
+      const source = node.inputs[port] ? byId.get(node.inputs[port]!) : undefined
+      return source ? [{ key: `${node.id}:${port}`, d: wirePath(outputPortPosition(source), inputPortPosition(node, index)) }] : []
+    })
+  )
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: '20px',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        width: isOpen ? '760px' : 'auto',
+        background: '#181c20',
+        border: '1px solid #3c4043',
+        borderRadius: '8px',
+        padding: '8px 12px',
+        fontFamily: 'system-ui, sans-serif',
+        color: '#ffffff',
+        fontSize: '11px',
+        boxShadow: '0 4px 12px rgba(0, 0, 0, 0.3)',
+        zIndex: 1001
+      }}
+      onMouseDown={(e) => e.stopPropagation()}
+      onMouseMove={(e) => e.stopPropagation()}
+      onMouseUp={(e) => e.stopPropagation()}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+        <div style={{ fontWeight: 'bold', cursor: 'pointer', userSelect: 'none' }} onClick={() => setIsOpen(!isOpen)}>
+          🕸️ Node Graph {isOpen ? '▾' : '▸'}
+        </div>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '6px', cursor: 'pointer', userSelect: 'none' }}>
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => onEnabledChange(e.target.checked)}
+            style={{ width: '12px', height: '12px', accentColor: '#4CAF50' }}
+          />
+          Use graph
+        </label>
+        {compileError && <span style={{ color: '#ff6b6b' }}>⚠ {compileError.message}</span>}
+      </div>
+
+      {isOpen && (
+        <>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '6px', margin: '8px 0' }}>
+            <select value={addType} onChange={(e) => setAddType(e.target.value as GraphNodeType)} style={{ ...inputStyle, width: 'auto' }}>
+              {ADDABLE_TYPES.map(type => <option key={type} value={type}>{NODE_DEFINITIONS[type].label}</option>)}
+            </select>
+            <button
+              style={buttonStyle}
+              onClick={() => {
+                const scroll = canvasRef.current
+                const node = createGraphNode(addType, (scroll?.scrollLeft ?? 0) + 40, (scroll?.scrollTop ?? 0) + 40)
+                onGraphChange({ ...graph, nodes: [...graph.nodes, node] })
+              }}
+            >
+              + Add node
+            </button>
+            <div style={{ flex: 1 }} />
+            <button style={buttonStyle} onClick={() => { setJsonText(serializeGraph(graph)); setImportError(null) }}>Export JSON</button>
+            <button
+              style={buttonStyle}
+              onClick={() => {
+                try {
+                  onGraphChange(parseGraph(jsonText))
+                  setImportError(null)
+                } catch (error) {
+                  setImportError((error as Error).message)
+                }
+              }}
+            >
+              Import JSON
+            </button>
+            <button style={buttonStyle} onClick={() => onGraphChange(createDefaultGraph(currentSettings))}>Reset</button>
+          </div>
+
+          <div
+            ref={canvasRef}
+            style={{
+              position: 'relative',
+              height: '340px',
+              overflow: 'auto',
+              background: '#111417',
+              border: '1px solid #3c4043',
+              borderRadius: '4px'
+            }}
+          >
+            <div style={{ position: 'relative', width: '1400px', height: '800px' }}>
+              <svg width={1400} height={800} style={{ position: 'absolute', left: 0, top: 0, pointerEvents: 'none' }}>
+                {wires.map(wire => <path key={wire.key} d={wire.d} stroke="#4CAF50" strokeWidth={2} fill="none" />)}
+                {pendingWire && byId.get(pendingWire.fromId) && (
+                  <path d={wirePath(outputPortPosition(byId.get(pendingWire.fromId)!), pendingWire)} stroke="#aaa" strokeWidth={2} strokeDasharray="4 3" fill="none" />
+                )}
+              </svg>
+
+              {nodes.map(node => {
+                const definition = NODE_DEFINITIONS[node.type]
+                const hasError = compileError?.nodeId === node.id
+                return (
+                  <div
+                    key={node.id}
+                    style={{
+                      position: 'absolute',
+                      left: node.x,
+                      top: node.y,
+                      width: NODE_WIDTH,
+                      background: '#22262a',
+                      border: `1px solid ${hasError ? '#ff6b6b' : node.type === 'output' ? '#4CAF50' : '#3c4043'}`,
+                      borderRadius: '4px',
+                      boxSizing: 'border-box'
+                    }}
+                  >
+                    <div
+                      style={{
+                        height: HEADER_HEIGHT,
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'space-between',
+                        padding: '0 6px',
+                        background: '#2a2d30',
+                        cursor: 'move',
+                        userSelect: 'none',
+                        fontWeight: 'bold',
+                        boxSizing: 'border-box'
+                      }}
+                      onMouseDown={(e) => {
+                        const p = canvasPoint(e)
+                        setDragging({ id: node.id, dx: p.x - node.x, dy: p.y - node.y, x: node.x, y: node.y })
+                      }}
+                    >
+                      <span>{definition.label}</span>
+                      {node.type !== 'output' && (
+                        <span style={{ cursor: 'pointer', color: '#888' }} onMouseDown={(e) => e.stopPropagation()} onClick={() => removeNode(node.id)}>✕</span>
+                      )}
+                    </div>
+
+                    {/* Output port */}
+                    {node.type !== 'output' && (
+                      <div
+                        title="Drag to an input"
+                        onMouseDown={(e) => {
+                          e.stopPropagation()
+                          setPendingWire({ fromId: node.id, ...canvasPoint(e) })
+                        }}
+                        style={{
+                          position: 'absolute',
+                          right: -6,
+                          top: HEADER_HEIGHT / 2 - 5,
+                          width: 10,
+                          height: 10,
+                          borderRadius: '50%',
+                          background: '#4CAF50',
+                          cursor: 'crosshair'
+                        }}
+                      />
+                    )}
+
+                    {/* Input ports */}
+                    {definition.inputs.map(port => (
+                      <div
+                        key={port}
+                        style={{ position: 'relative', height: PORT_ROW, display: 'flex', alignItems: 'center', paddingLeft: 10, color: '#ccc' }}
+                        onMouseUp={() => { if (pendingWire) connect(pendingWire.fromId, node.id, port) }}
+                      >
+                        <div
+                          title={node.inputs[port] ? 'Click to disconnect' : 'Drop a wire here'}
+                          onMouseDown={(e) => {
+                            e.stopPropagation()
+                            if (node.inputs[port]) updateNode(node.id, { inputs: { ...node.inputs, [port]: null } })
+                          }}
+                          style={{
+                            position: 'absolute',
+                            left: -6,
+                            top: PORT_ROW / 2 - 5,
+                            width: 10,
+                            height: 10,
+                            borderRadius: '50%',
+                            background: node.inputs[port] ? '#4CAF50' : '#3c4043',
+                            border: '1px solid #888',
+                            boxSizing: 'border-box',
+                            cursor: 'pointer'
+                          }}
+                        />
+                        {port}
+                      </div>
+                    ))}
+
+                    <div style={{ padding: '4px 6px', display: 'flex', flexDirection: 'column', gap: 3 }}>
+                      {renderParams(node)}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+
+          <div style={{ marginTop: '8px' }}>
+            <textarea
+              value={jsonText}
+              onChange={(e) => setJsonText(e.target.value)}
+              placeholder="Export fills this box; paste graph JSON here to import"
+              rows={4}
+              style={{ ...inputStyle, fontFamily: 'monospace', resize: 'vertical' }}
+            />
+            {importError && <div style={{ color: '#ff6b6b', marginTop: '2px' }}>{importError}</div>}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
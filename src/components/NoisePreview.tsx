@@ -1,23 +1,61 @@
-import { useRef, useEffect, useState } from 'react'
-import FastNoiseLite from 'fastnoise-lite'
-import type { NoiseSettings } from './Chunk'
+import { useRef, useEffect, useState, useMemo } from 'react'
+import { createNoiseSampler } from '../utils/noiseSampler'
+import { validateExpression } from '../utils/mathExpression'
+import type { NoiseSettings } from '../utils/noiseEngines'
+import type { NoiseLayer } from '../utils/noiseLayers'
+import type { NoiseGraph } from '../utils/nodeGraph'
+import { createBiomeSampler, parseHexColor } from '../utils/biomes'
+import type { BiomeSettings } from '../utils/biomes'
+import { createTerrainHeightFunction } from '../utils/terrainHeight'
+import type { TerrainHeightSettings } from '../utils/terrainHeight'
+import { getSeaLevel } from '../utils/water'
+import type { WaterSettings } from '../utils/water'
+import { createHeightmapLookup } from '../utils/erosion'
+import type { ErosionPreview } from '../utils/erosion'
+import type { TilingSettings } from '../utils/tiling'
+import { BLOCKY_MESHERS } from '../utils/greedyMesher'
+import type { BlockyMesher, MeshStats } from '../utils/greedyMesher'
+import { SMOOTH_MESHERS, SMOOTH_MESHER_LABELS } from '../utils/smoothMeshers'
+import type { SmoothMesher } from '../utils/smoothMeshers'
 
 interface NoisePreviewProps {
   noiseSettings: NoiseSettings
+  layers?: NoiseLayer[] // Layer stack shown instead of noiseSettings when any layer is enabled
+  graph?: NoiseGraph // Node graph output shown instead of both when set
+  biomes?: BiomeSettings // Enables the biome view when biomes are on
+  water?: WaterSettings // Tints pixels whose 2D terrain height is below the sea level
+  terrain?: TerrainHeightSettings // Height mapping used for the sea level tint
+  expressionInputs?: Record<string, NoiseSettings> // Secondary expression noises, for the terrain height
+  erosion?: ErosionPreview | null // Chunk heightmaps for the erosion before/after view
+  tiling?: TilingSettings // Seamless noise; enables the 2×2 tiled view
   autoUpdate: boolean
   onAutoUpdateChange: (value: boolean) => void
   onManualUpdate: () => void
   on3DModeChange: (is3D: boolean) => void
   onSmoothModeChange: (isSmooth: boolean) => void
+  blockyMesher?: BlockyMesher // Blocky mode mesher
+  onBlockyMesherChange?: (mesher: BlockyMesher) => void
+  meshStats?: MeshStats | null // Blocky mesh size reported by the chunk
+  smoothMesher?: SmoothMesher // Smooth mode polygonizer
+  onSmoothMesherChange?: (mesher: SmoothMesher) => void
   onMathExpressionChange: (expression: string) => void
   mathExpression?: string
+  expressionVariables?: string[] // Variables the expression may use (defaults to just N)
   // New: external offsets binding so App can sync chunk
   offsetX?: number
   offsetZ?: number
   onOffsetsChange?: (x: number, z: number) => void
 }
 
-export function NoisePreview({ noiseSettings, autoUpdate, onAutoUpdateChange, onManualUpdate, on3DModeChange, onSmoothModeChange, onMathExpressionChange, mathExpression = "N", offsetX: propOffsetX, offsetZ: propOffsetZ, onOffsetsChange }: NoisePreviewProps) {
+// Map a cellular cell value (-1..1) to a distinct RGB color (HSL hue wheel)
+function cellColor(value: number): [number, number, number] {
+  const h = ((value + 1) * 0.5 * 6 * 7.31) % 6 // Spread neighbouring ids across the wheel
+  const c = 0.75, x = c * (1 - Math.abs((h % 2) - 1)), m = 0.2
+  const [r, g, b] = h < 1 ? [c, x, 0] : h < 2 ? [x, c, 0] : h < 3 ? [0, c, x] : h < 4 ? [0, x, c] : h < 5 ? [x, 0, c] : [c, 0, x]
+  return [(r + m) * 255, (g + m) * 255, (b + m) * 255]
+}
+
+export function NoisePreview({ noiseSettings, layers, graph, biomes, water, terrain, expressionInputs, erosion, tiling, autoUpdate, onAutoUpdateChange, onManualUpdate, on3DModeChange, onSmoothModeChange, blockyMesher = 'instanced', onBlockyMesherChange, meshStats, smoothMesher = 'marchingCubes', onSmoothMesherChange, onMathExpressionChange, mathExpression = "N", expressionVariables, offsetX: propOffsetX, offsetZ: propOffsetZ, onOffsetsChange }: NoisePreviewProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
   const [isDragging, setIsDragging] = useState(false)
@@ -25,7 +63,13 @@ export function NoisePreview({ noiseSettings, autoUpdate, onAutoUpdateChange, on
   const [is3D, setIs3D] = useState(false) // Toggle between 2D and 3D noise for chunk generation
   const [zoomLevel, setZoomLevel] = useState(1.0) // Zoom level for noise preview (1.0 = normal, higher = more zoomed in)
   const [isSmooth, setIsSmooth] = useState(false) // Toggle between blocky and smooth rendering
+  const [showCells, setShowCells] = useState(false) // Color Voronoi regions by cellular CellValue
+  const [showBiomes, setShowBiomes] = useState(false) // Color the preview by blended biome
+  const [tiledView, setTiledView] = useState(false) // Show one period 2×2 to check the tiling seams
+  const [erosionView, setErosionView] = useState<'off' | 'before' | 'after'>('off') // Show the chunk heightmap around erosion
   const dragOffset = useRef({ x: 0, y: 0 })
+  // Parse error for the math expression (terrain falls back to raw noise while invalid)
+  const expressionError = useMemo(() => validateExpression(mathExpression, expressionVariables), [mathExpression, expressionVariables])
   // Offsets: use controlled props when provided, otherwise local state
   const [offsetXState, setOffsetXState] = useState(0)
   const [offsetZState, setOffsetZState] = useState(0)
@@ -41,105 +85,6 @@ export function NoisePreview({ noiseSettings, autoUpdate, onAutoUpdateChange, on
     else setOffsetZState(v)
   }
 
-  // Helper to build base and warp engines (mirrors Chunk.tsx)
-  const buildEngines = () => {
-    const seed = noiseSettings.seed
-    const frequency = noiseSettings.frequency
-
-    const base = new FastNoiseLite()
-    base.SetSeed(seed)
-    base.SetFrequency(frequency)
-    switch (noiseSettings.noiseType) {
-      case 'Perlin': base.SetNoiseType(FastNoiseLite.NoiseType.Perlin); break
-      case 'OpenSimplex2': base.SetNoiseType(FastNoiseLite.NoiseType.OpenSimplex2); break
-      case 'OpenSimplex2S': base.SetNoiseType(FastNoiseLite.NoiseType.OpenSimplex2S); break
-      case 'Cellular':
-        base.SetNoiseType(FastNoiseLite.NoiseType.Cellular)
-        base.SetCellularDistanceFunction(FastNoiseLite.CellularDistanceFunction.EuclideanSq)
-        base.SetCellularReturnType(FastNoiseLite.CellularReturnType.Distance)
-        break
-      case 'ValueCubic': base.SetNoiseType(FastNoiseLite.NoiseType.ValueCubic); break
-      case 'Value': base.SetNoiseType(FastNoiseLite.NoiseType.Value); break
-      default: base.SetNoiseType(FastNoiseLite.NoiseType.OpenSimplex2)
-    }
-    if (noiseSettings.fractalType !== 'None') {
-      switch (noiseSettings.fractalType) {
-        case 'FBm': base.SetFractalType(FastNoiseLite.FractalType.FBm); break
-        case 'Ridged': base.SetFractalType(FastNoiseLite.FractalType.Ridged); break
-        case 'PingPong': base.SetFractalType(FastNoiseLite.FractalType.PingPong); break
-        default: base.SetFractalType(FastNoiseLite.FractalType.None); break
-      }
-      if (noiseSettings.fractalType === 'FBm' || noiseSettings.fractalType === 'Ridged' || noiseSettings.fractalType === 'PingPong') {
-        base.SetFractalOctaves(noiseSettings.fractalOctaves)
-        base.SetFractalLacunarity(noiseSettings.fractalLacunarity)
-        base.SetFractalGain(noiseSettings.fractalGain)
-        if (noiseSettings.fractalWeightedStrength !== undefined) base.SetFractalWeightedStrength(noiseSettings.fractalWeightedStrength)
-        if (noiseSettings.fractalPingPongStrength !== undefined) base.SetFractalPingPongStrength(noiseSettings.fractalPingPongStrength)
-      }
-    }
-
-    let warp: FastNoiseLite | undefined
-    let warpY: FastNoiseLite | undefined
-    const warpAmp = noiseSettings.domainWarpAmp ?? 0
-    const warpFractalType = noiseSettings.domainWarpFractalType ?? 'None'
-    if (warpAmp !== 0 || warpFractalType !== 'None') {
-      const wSeed = (noiseSettings.domainWarpSeed ?? seed + 9999)
-      const wFreq = (noiseSettings.domainWarpFrequency ?? frequency)
-      warp = new FastNoiseLite()
-      warp.SetSeed(wSeed)
-      warp.SetFrequency(wFreq)
-      switch (noiseSettings.domainWarpType) {
-        case 'OpenSimplex2Reduced': warp.SetDomainWarpType(FastNoiseLite.DomainWarpType.OpenSimplex2Reduced); break
-        case 'BasicGrid': warp.SetDomainWarpType(FastNoiseLite.DomainWarpType.BasicGrid); break
-        default: warp.SetDomainWarpType(FastNoiseLite.DomainWarpType.OpenSimplex2); break
-      }
-      warp.SetDomainWarpAmp(warpAmp)
-      if (typeof warp.SetDomainWarpFrequency === 'function' && noiseSettings.domainWarpFrequency != null) {
-        warp.SetDomainWarpFrequency(noiseSettings.domainWarpFrequency)
-      }
-      switch (warpFractalType) {
-        case 'Progressive':
-          if (typeof warp.SetDomainWarpFractalType === 'function') warp.SetDomainWarpFractalType(FastNoiseLite.DomainWarpFractalType.Progressive)
-          else warp.SetFractalType(FastNoiseLite.FractalType.DomainWarpProgressive)
-          break
-        case 'Independent':
-          if (typeof warp.SetDomainWarpFractalType === 'function') warp.SetDomainWarpFractalType(FastNoiseLite.DomainWarpFractalType.Independent)
-          else warp.SetFractalType(FastNoiseLite.FractalType.DomainWarpIndependent)
-          break
-        default:
-          if (typeof warp.SetDomainWarpFractalType === 'function') warp.SetDomainWarpFractalType(FastNoiseLite.DomainWarpFractalType.None)
-          else warp.SetFractalType(FastNoiseLite.FractalType.None)
-          break
-      }
-      if (warpFractalType !== 'None') {
-        if (typeof warp.SetDomainWarpFractalOctaves === 'function') warp.SetDomainWarpFractalOctaves(noiseSettings.domainWarpFractalOctaves)
-        else warp.SetFractalOctaves(noiseSettings.domainWarpFractalOctaves)
-        if (typeof warp.SetDomainWarpFractalLacunarity === 'function') warp.SetDomainWarpFractalLacunarity(noiseSettings.domainWarpFractalLacunarity)
-        else warp.SetFractalLacunarity(noiseSettings.domainWarpFractalLacunarity)
-        if (typeof warp.SetDomainWarpFractalGain === 'function') warp.SetDomainWarpFractalGain(noiseSettings.domainWarpFractalGain)
-        else warp.SetFractalGain(noiseSettings.domainWarpFractalGain)
-      }
-
-      // Second axis for manual fallback
-      warpY = new FastNoiseLite()
-      warpY.SetSeed(wSeed + 1337)
-      warpY.SetFrequency(wFreq)
-    }
-    return { base, warp, warpY }
-  }
-
-  // FBM helper used for manual warp
-  const fbm2D = (noise: FastNoiseLite, x: number, y: number, oct: number, lac: number, gain: number) => {
-    let amp = 1, freq = 1, sum = 0, norm = 0
-    for (let i = 0; i < Math.max(1, oct); i++) {
-      sum += amp * noise.GetNoise(x * freq, y * freq)
-      norm += amp
-      amp *= gain
-      freq *= lac
-    }
-    return sum / (norm || 1)
-  }
-
   // Generate noise texture - always show 2D preview
   useEffect(() => {
     const canvas = canvasRef.current
@@ -156,48 +101,104 @@ export function NoisePreview({ noiseSettings, autoUpdate, onAutoUpdateChange, on
     const imageData = ctx.createImageData(width, height)
     const data = imageData.data
 
-    const { base, warp, warpY } = buildEngines()
+    // Erosion view: hillshaded chunk heightmap before or after erosion (ignores zoom)
+    const erosionMap = erosion && erosionView !== 'off'
+      ? erosionView === 'after' ? erosion.after ?? erosion.before : erosion.before
+      : null
+    if (erosion && erosionMap) {
+      const heightAt = createHeightmapLookup(erosionMap, () => 0)
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const hx = x / width * erosion.sizeX, hz = y / height * erosion.sizeZ
+          const h = heightAt(hx, hz)
+          // Light from the top-left
+          const shade = Math.min(1, Math.max(0, 0.5 + (heightAt(hx - 0.5, hz) - heightAt(hx + 0.5, hz) + heightAt(hx, hz - 0.5) - heightAt(hx, hz + 0.5)) * 0.4))
+          const intensity = Math.min(255, Math.max(0, (0.25 + 0.45 * (h / erosion.sizeY) + 0.3 * shade) * 255))
+          const index = (y * width + x) * 4
+          data[index] = intensity
+          data[index + 1] = intensity
+          data[index + 2] = intensity
+          data[index + 3] = 255
+        }
+      }
+      ctx.putImageData(imageData, 0, 0)
+      return
+    }
+
+    // Tiled view: two periods from the world origin, so the tile borders cross the middle of the image
+    const tilePeriod = tiling?.enabled ? tiling.period : undefined
+    const showTiles = tiledView && !!tilePeriod
+    const viewOffsetX = showTiles ? 0 : offsetX, viewOffsetZ = showTiles ? 0 : offsetZ
 
-    const amp = noiseSettings.domainWarpAmp ?? 0
-    const useWarp = !!warp && amp !== 0
-    const oct = noiseSettings.domainWarpFractalType !== 'None' ? noiseSettings.domainWarpFractalOctaves : 1
-    const lac = noiseSettings.domainWarpFractalLacunarity ?? 2.0
-    const gain = noiseSettings.domainWarpFractalGain ?? 0.5
+    // Same sampler as the chunk; preview shows raw noise without the math expression
+    const sampler = createNoiseSampler(noiseSettings, { offsetX: viewOffsetX, offsetZ: viewOffsetZ, layers, graph, tilePeriod })
+    const cellOverlay = showCells && noiseSettings.noiseType === 'Cellular'
+    const biomeSampler = showBiomes && biomes?.enabled && biomes.biomes.length > 0
+      ? createBiomeSampler(biomes, noiseSettings, { offsetX: viewOffsetX, offsetZ: viewOffsetZ, tilePeriod })
+      : undefined
+    const biomeColors = biomeSampler?.biomes.map(biome => parseHexColor(biome.color)) ?? []
+    const biomeWeights = new Float32Array(biomeColors.length)
+    // Sea tint needs the real terrain height, so this path applies the math expression
+    const seaTint = water?.enabled && water.tintPreview && terrain
+    const seaLevel = seaTint ? getSeaLevel(water, terrain.sizeY) : 0
+    const terrainOptions = { offsetX: viewOffsetX, offsetZ: viewOffsetZ, layers, graph, mathExpression, expressionInputs, chunkSize: { x: 32, y: terrain?.sizeY ?? 32, z: 32 }, tilePeriod }
+    const heightAt = seaTint
+      ? createTerrainHeightFunction(createNoiseSampler(noiseSettings, terrainOptions), terrain, noiseSettings, terrainOptions)
+      : undefined
 
     for (let y = 0; y < height; y++) {
       for (let x = 0; x < width; x++) {
-        // Apply zoom level and offsets
+        // Apply zoom level (offsets are applied by the sampler); the tiled view ignores zoom
         const centerOffset = 16 // Half of 32 (chunk size)
-        let nx = ((x / width * 32) - centerOffset) / zoomLevel + centerOffset + offsetX
-        let nz = ((y / height * 32) - centerOffset) / zoomLevel + centerOffset + offsetZ
-
-        if (useWarp) {
-          // Manual domain warp: two independent offsets
-          const wy = warpY ?? warp!
-          const dx = fbm2D(warp!, nx, nz, oct, lac, gain) * amp
-          const dy = fbm2D(wy, nx + 123.45, nz - 987.65, oct, lac, gain) * amp
-          nx += dx
-          nz += dy
-        }
+        const nx = showTiles ? x / width * 2 * tilePeriod! : ((x / width * 32) - centerOffset) / zoomLevel + centerOffset
+        const nz = showTiles ? y / height * 2 * tilePeriod! : ((y / height * 32) - centerOffset) / zoomLevel + centerOffset
 
         // Generate raw noise value
-        // Domain warp is applied automatically by FastNoiseLite when configured
-        const noiseValue = base.GetNoise(nx, nz)
+        const noiseValue = sampler.noise2D(nx, nz)
         
         // Convert raw noise (-1 to 1) directly to grayscale (0-255)
         // This shows the pure noise pattern without terrain modifications
         const intensity = Math.floor(((noiseValue + 1) / 2) * 255)
 
         const index = (y * width + x) * 4
-        data[index] = intensity     // Red
-        data[index + 1] = intensity // Green  
-        data[index + 2] = intensity // Blue
+        if (biomeSampler) {
+          // Blend biome colors by weight so borders show the transition, shaded by the noise
+          biomeSampler.weights(nx, nz, biomeWeights)
+          let r = 0, g = 0, b = 0
+          for (let i = 0; i < biomeColors.length; i++) {
+            const w = biomeWeights[i]
+            r += biomeColors[i][0] * w
+            g += biomeColors[i][1] * w
+            b += biomeColors[i][2] * w
+          }
+          const shade = 0.6 + 0.4 * (intensity / 255)
+          data[index] = r * shade
+          data[index + 1] = g * shade
+          data[index + 2] = b * shade
+        } else if (cellOverlay) {
+          // Tint each cell by its id, shaded by the current return type
+          const [r, g, b] = cellColor(sampler.cellValue2D(nx, nz))
+          const shade = 0.35 + 0.65 * Math.min(1, Math.max(0, intensity / 255))
+          data[index] = r * shade
+          data[index + 1] = g * shade
+          data[index + 2] = b * shade
+        } else {
+          data[index] = intensity     // Red
+          data[index + 1] = intensity // Green  
+          data[index + 2] = intensity // Blue
+        }
+        if (heightAt && Math.floor(heightAt(nx, nz)) < seaLevel) {
+          // Blend towards blue below the sea level
+          data[index] = data[index] * 0.35
+          data[index + 1] = data[index + 1] * 0.45 + 40
+          data[index + 2] = data[index + 2] * 0.45 + 140
+        }
         data[index + 3] = 255       // Alpha
       }
     }
 
     ctx.putImageData(imageData, 0, 0)
-  }, [noiseSettings, zoomLevel, offsetX, offsetZ])
+  }, [noiseSettings, layers, graph, biomes, water, terrain, expressionInputs, mathExpression, zoomLevel, offsetX, offsetZ, showCells, showBiomes, erosion, erosionView, tiling, tiledView])
 
   // Dragging functionality
   const handleMouseDown = (e: React.MouseEvent) => {
@@ -299,10 +300,113 @@ export function NoisePreview({ noiseSettings, autoUpdate, onAutoUpdateChange, on
         textAlign: 'center',
         marginBottom: '8px'
       }}>
-        32×32 2D noise preview<br/>
+        {erosion && erosionView !== 'off'
+          ? `Chunk heightmap ${erosionView === 'after' && erosion.after ? 'after' : 'before'} erosion and filters`
+          : tiledView && tiling?.enabled ? `One ${tiling.period}×${tiling.period} tile repeated 2×2`
+          : '32×32 2D noise preview'}<br/>
         {is3D ? 'Terrain uses 3D noise' : 'Terrain uses 2D noise'}<br/>
         White: High | Black: Low
       </div>
+
+      {/* Cell region overlay (Cellular noise only) */}
+      {noiseSettings.noiseType === 'Cellular' && (
+        <label style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          gap: '6px',
+          fontSize: '11px',
+          marginBottom: '8px',
+          cursor: 'pointer',
+          userSelect: 'none'
+        }}>
+          <input
+            type="checkbox"
+            checked={showCells}
+            onChange={(e) => setShowCells(e.target.checked)}
+            style={{ width: '12px', height: '12px', accentColor: '#4CAF50' }}
+          />
+          Show cell regions
+        </label>
+      )}
+      
+      {/* Biome view (biomes enabled only) */}
+      {biomes?.enabled && (
+        <label style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          gap: '6px',
+          fontSize: '11px',
+          marginBottom: '8px',
+          cursor: 'pointer',
+          userSelect: 'none'
+        }}>
+          <input
+            type="checkbox"
+            checked={showBiomes}
+            onChange={(e) => setShowBiomes(e.target.checked)}
+            style={{ width: '12px', height: '12px', accentColor: '#4CAF50' }}
+          />
+          Biome view
+        </label>
+      )}
+      
+      {/* 2×2 tiled view (tiling enabled only) */}
+      {tiling?.enabled && (
+        <label style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          gap: '6px',
+          fontSize: '11px',
+          marginBottom: '8px',
+          cursor: 'pointer',
+          userSelect: 'none'
+        }}>
+          <input
+            type="checkbox"
+            checked={tiledView}
+            onChange={(e) => setTiledView(e.target.checked)}
+            style={{ width: '12px', height: '12px', accentColor: '#4CAF50' }}
+          />
+          2×2 tiled view
+        </label>
+      )}
+      
+      {/* Erosion before/after (hydraulic erosion enabled only) */}
+      {erosion && (
+        <div style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          gap: '4px',
+          fontSize: '11px',
+          marginBottom: '8px'
+        }}>
+          <span style={{ color: '#ccc', marginRight: '2px' }}>Erosion</span>
+          {(['off', 'before', 'after'] as const).map(view => (
+            <button
+              key={view}
+              onClick={() => setErosionView(view)}
+              style={{
+                padding: '2px 6px',
+                fontSize: '10px',
+                backgroundColor: erosionView === view ? '#4CAF50' : '#2a2d30',
+                color: erosionView === view ? '#ffffff' : '#ccc',
+                border: '1px solid #3c4043',
+                borderRadius: '3px',
+                cursor: 'pointer'
+              }}
+            >
+              {view}
+            </button>
+          ))}
+          {!erosion.after && (
+            <span style={{ fontSize: '10px', color: '#888', fontFamily: 'monospace' }}>{Math.round(erosion.progress * 100)}%</span>
+          )}
+        </div>
+      )}
       
       {/* Zoom Control */}
       <div style={{
@@ -450,7 +554,7 @@ export function NoisePreview({ noiseSettings, autoUpdate, onAutoUpdateChange, on
             fontSize: '9px',
             color: '#888'
           }}>
-            Use "N" for noise
+            N = noise, X/Y/Z = position, SX/SY/SZ = size
           </span>
         </div>
         <input
@@ -463,22 +567,37 @@ export function NoisePreview({ noiseSettings, autoUpdate, onAutoUpdateChange, on
             padding: '6px 8px',
             fontSize: '11px',
             backgroundColor: '#2a2d30',
-            border: '1px solid #3c4043',
+            border: '1px solid ' + (expressionError ? '#ff6b6b' : '#3c4043'),
             borderRadius: '4px',
             color: '#ffffff',
             fontFamily: 'monospace',
             outline: 'none'
           }}
-          onFocus={(e) => e.target.style.borderColor = '#4CAF50'}
-          onBlur={(e) => e.target.style.borderColor = '#3c4043'}
+          onFocus={(e) => { if (!expressionError) e.target.style.borderColor = '#4CAF50' }}
+          onBlur={(e) => { if (!expressionError) e.target.style.borderColor = '#3c4043' }}
         />
+        {expressionError && (
+          <div style={{
+            fontSize: '10px',
+            color: '#ff6b6b',
+            marginTop: '3px',
+            lineHeight: '1.3'
+          }}>
+            <div style={{ fontFamily: 'monospace', whiteSpace: 'pre', overflowX: 'auto', color: '#ccc' }}>
+              {mathExpression}{'\n'}{' '.repeat(expressionError.position)}^
+            </div>
+            Col {expressionError.position + 1}: {expressionError.message} (using raw noise)
+          </div>
+        )}
         <div style={{
           fontSize: '9px',
           color: '#666',
           marginTop: '3px',
           lineHeight: '1.2'
         }}>
-          Examples: N^2, |N|*1000, |N+0.5|^3, (N+1)^3*500
+          Examples: N^2, |N|*1000, N - Y/32, N - sqrt(X*X + Z*Z)/SX, lerp(N, N2, 0.5)<br/>
+          Extra noises: {expressionVariables?.filter(name => /^N\d/.test(name)).join(', ') || 'none'}<br/>
+          Functions: clamp, smoothstep, lerp, floor, sign, min, max, abs, ...
         </div>
       </div>
       
@@ -613,6 +732,70 @@ export function NoisePreview({ noiseSettings, autoUpdate, onAutoUpdateChange, on
           </div>
           <span style={{ color: '#ccc', fontSize: '10px', width: '35px', textAlign: 'left' }}>Smooth</span>
         </div>
+
+        {/* Blocky mesher choice and the resulting mesh size */}
+        {!isSmooth && onBlockyMesherChange && (
+          <div style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            gap: '4px',
+            fontSize: '11px'
+          }}>
+            {BLOCKY_MESHERS.map(mesher => (
+              <button
+                key={mesher}
+                onClick={() => onBlockyMesherChange(mesher)}
+                style={{
+                  padding: '2px 6px',
+                  fontSize: '10px',
+                  backgroundColor: blockyMesher === mesher ? '#4CAF50' : '#2a2d30',
+                  color: blockyMesher === mesher ? '#ffffff' : '#ccc',
+                  border: '1px solid #3c4043',
+                  borderRadius: '3px',
+                  cursor: 'pointer'
+                }}
+              >
+                {mesher}
+              </button>
+            ))}
+            {meshStats && (
+              <span style={{ fontSize: '10px', color: '#888', fontFamily: 'monospace' }}>
+                {meshStats.voxels.toLocaleString()}/{meshStats.totalVoxels.toLocaleString()} vox · {meshStats.faces.toLocaleString()} faces
+              </span>
+            )}
+          </div>
+        )}
+
+        {/* Smooth mode polygonizer */}
+        {isSmooth && onSmoothMesherChange && (
+          <div style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            gap: '4px',
+            fontSize: '11px'
+          }}>
+            {SMOOTH_MESHERS.map(mesher => (
+              <button
+                key={mesher}
+                onClick={() => onSmoothMesherChange(mesher)}
+                title={SMOOTH_MESHER_LABELS[mesher].name}
+                style={{
+                  padding: '2px 6px',
+                  fontSize: '10px',
+                  backgroundColor: smoothMesher === mesher ? '#4CAF50' : '#2a2d30',
+                  color: smoothMesher === mesher ? '#ffffff' : '#ccc',
+                  border: '1px solid #3c4043',
+                  borderRadius: '3px',
+                  cursor: 'pointer'
+                }}
+              >
+                {SMOOTH_MESHER_LABELS[mesher].short}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   )
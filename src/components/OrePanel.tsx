@@ -0,0 +1,174 @@
+import { useState } from 'react'
+import { createDefaultOreSettings, createOreType } from '../utils/ores'
+import type { OreSettings, OreStats, OreType } from '../utils/ores'
+
+interface OrePanelProps {
+  settings: OreSettings
+  onSettingsChange: (settings: OreSettings) => void
+  stats: OreStats[] | null // From the current chunk
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '2px 6px',
+  fontSize: '10px',
+  backgroundColor: '#2a2d30',
+  color: '#ccc',
+  border: '1px solid #3c4043',
+  borderRadius: '3px',
+  cursor: 'pointer'
+}
+
+const inputStyle: React.CSSProperties = {
+  background: '#2a2d30',
+  color: '#fff',
+  border: '1px solid #3c4043',
+  borderRadius: 4,
+  padding: '2px 4px',
+  fontSize: 10,
+  width: '40px'
+}
+
+const labelStyle: React.CSSProperties = { color: '#aaa', fontSize: '10px' }
+
+const checkboxStyle: React.CSSProperties = { width: '12px', height: '12px', accentColor: '#4CAF50' }
+
+// Bar chart of counts per Y level, bottom of the chunk on the left
+function DistributionBars({ byY, color }: { byY: number[], color: string }) {
+  const peak = Math.max(1, ...byY)
+  return (
+    <div style={{ display: 'flex', alignItems: 'flex-end', height: '20px', gap: '1px', flex: 1 }} title="Count by Y (bottom → top)">
+      {byY.map((count, y) => (
+        <div key={y} style={{ flex: 1, height: `${(count / peak) * 100}%`, minHeight: count > 0 ? '1px' : 0, background: color }} />
+      ))}
+    </div>
+  )
+}
+
+export function OrePanel({ settings, onSettingsChange, stats }: OrePanelProps) {
+  const [collapsed, setCollapsed] = useState(true)
+
+  const update = (changes: Partial<OreSettings>) => onSettingsChange({ ...settings, ...changes })
+
+  const updateOre = (id: string, changes: Partial<OreType>) => {
+    update({ ores: settings.ores.map(ore => ore.id === id ? { ...ore, ...changes } : ore) })
+  }
+
+  const numberInput = (ore: OreType, key: 'seed' | 'frequency' | 'threshold' | 'minHeight' | 'maxHeight', step: number) => (
+    <input
+      type="number"
+      value={ore[key]}
+      step={step}
+      onChange={(e) => updateOre(ore.id, { [key]: Number(e.target.value) })}
+      style={inputStyle}
+    />
+  )
+
+  const totalPercent = stats ? stats.reduce((sum, stat) => sum + stat.percent, 0) : 0
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        left: '320px',
+        bottom: '20px',
+        width: '320px',
+        maxHeight: '55vh',
+        overflowY: 'auto',
+        background: '#181c20',
+        border: '1px solid #3c4043',
+        borderRadius: '8px',
+        padding: '10px 12px',
+        fontFamily: 'system-ui, sans-serif',
+        color: '#ffffff',
+        fontSize: '12px',
+        boxShadow: '0 4px 12px rgba(0, 0, 0, 0.3)',
+        zIndex: 1000
+      }}
+      onMouseDown={(e) => e.stopPropagation()}
+      onMouseMove={(e) => e.stopPropagation()}
+      onMouseUp={(e) => e.stopPropagation()}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px' }}>
+        <div style={{ fontWeight: 'bold', cursor: 'pointer', userSelect: 'none' }} onClick={() => setCollapsed(!collapsed)}>
+          💎 Ores ({settings.ores.length})
+        </div>
+        <div style={{ display: 'flex', gap: '10px' }}>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '11px', cursor: 'pointer', userSelect: 'none' }}>
+            <input type="checkbox" checked={settings.xray} onChange={(e) => update({ xray: e.target.checked })} style={checkboxStyle} />
+            X-ray
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '11px', cursor: 'pointer', userSelect: 'none' }}>
+            <input type="checkbox" checked={settings.enabled} onChange={(e) => update({ enabled: e.target.checked })} style={checkboxStyle} />
+            Use ores
+          </label>
+        </div>
+      </div>
+
+      {!collapsed && (
+        <div style={{ marginTop: '8px', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+          {settings.ores.map(ore => {
+            const stat = stats?.find(s => s.id === ore.id)
+            return (
+              <div key={ore.id} style={{ border: '1px solid #3c4043', borderRadius: '4px', padding: '6px', opacity: ore.enabled ? 1 : 0.5 }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '4px' }}>
+                  <input
+                    type="checkbox"
+                    checked={ore.enabled}
+                    onChange={(e) => updateOre(ore.id, { enabled: e.target.checked })}
+                    style={checkboxStyle}
+                  />
+                  <input
+                    type="color"
+                    value={ore.color}
+                    onChange={(e) => updateOre(ore.id, { color: e.target.value })}
+                    style={{ width: '20px', height: '18px', padding: 0, border: 'none', background: 'none' }}
+                  />
+                  <input
+                    type="text"
+                    value={ore.name}
+                    onChange={(e) => updateOre(ore.id, { name: e.target.value })}
+                    style={{ ...inputStyle, flex: 1, width: 'auto' }}
+                  />
+                  <button style={buttonStyle} onClick={() => update({ ores: settings.ores.filter(o => o.id !== ore.id) })}>Remove</button>
+                </div>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '4px', flexWrap: 'wrap', marginBottom: '4px' }}>
+                  <span style={labelStyle}>seed</span>
+                  {numberInput(ore, 'seed', 1)}
+                  <span style={labelStyle}>freq</span>
+                  {numberInput(ore, 'frequency', 0.01)}
+                  <span style={labelStyle}>thr</span>
+                  {numberInput(ore, 'threshold', 0.01)}
+                  <span style={labelStyle}>Y</span>
+                  {numberInput(ore, 'minHeight', 1)}
+                  {numberInput(ore, 'maxHeight', 1)}
+                </div>
+                {stat && (
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                    <span style={{ fontSize: '10px', color: '#ccc', fontFamily: 'monospace', width: '120px' }}>
+                      {stat.count} ({stat.percent.toFixed(2)}%)
+                    </span>
+                    <DistributionBars byY={stat.byY} color={ore.color} />
+                  </div>
+                )}
+              </div>
+            )
+          })}
+
+          <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+            <button
+              style={{ ...buttonStyle, padding: '4px 8px', backgroundColor: '#4CAF50', color: '#ffffff', fontWeight: 'bold' }}
+              onClick={() => update({ ores: [...settings.ores, createOreType()] })}
+            >
+              + Add ore
+            </button>
+            <button style={buttonStyle} onClick={() => onSettingsChange({ ...createDefaultOreSettings(), enabled: settings.enabled })}>Reset</button>
+          </div>
+          <div style={{ fontSize: '9px', color: '#666', lineHeight: '1.3' }}>
+            {stats ? `All ores: ${totalPercent.toFixed(2)}% of solid volume. ` : 'Enable ores to see stats. '}
+            Ores replace stone blocks (every block when block types are off); earlier ores win. Blocky mode only.
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
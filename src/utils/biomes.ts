@@ -0,0 +1,201 @@
+// Biomes
+// Temperature + humidity noise per column, classified through a biome table.
+// Each biome carries its own terrain parameters; weights blend smoothly across table borders.
+
+import { createNoiseSampler } from './noiseSampler'
+import type { NoiseSampler, NoiseSamplerOptions } from './noiseSampler'
+import type { NoiseSettings } from './noiseEngines'
+
+export interface Biome {
+  id: string
+  name: string
+  color: string // Hex color for the preview biome view
+  // Climate ranges in noise space (-1..1); ranges touching -1/1 extend to infinity
+  minTemperature: number
+  maxTemperature: number
+  minHumidity: number
+  maxHumidity: number
+  amplitude: number // Height variation, like the Terrain panel's amplitude
+  verticalOffsetPercent: number // Baseline height as % of the chunk height
+  noise?: Partial<NoiseSettings> // Overrides on top of the panel noise (e.g. Ridged fractal for mountains)
+}
+
+export interface ClimateNoise {
+  seed: number
+  frequency: number
+}
+
+export interface BiomeSettings {
+  enabled: boolean
+  temperature: ClimateNoise
+  humidity: ClimateNoise
+  blendWidth: number // Width of the border blend in climate space
+  biomes: Biome[]
+}
+
+export function createDefaultBiomeSettings(): BiomeSettings {
+  return {
+    enabled: false,
+    temperature: { seed: 101, frequency: 0.004 },
+    humidity: { seed: 202, frequency: 0.004 },
+    blendWidth: 0.2,
+    biomes: [
+      { id: 'tundra', name: 'Tundra', color: '#dfe8ee', minTemperature: -1, maxTemperature: -0.35, minHumidity: -1, maxHumidity: 0.3, amplitude: 4, verticalOffsetPercent: 30 },
+      { id: 'mountains', name: 'Mountains', color: '#8a8d91', minTemperature: -1, maxTemperature: -0.35, minHumidity: 0.3, maxHumidity: 1, amplitude: 16, verticalOffsetPercent: 35, noise: { fractalType: 'Ridged', fractalOctaves: 5 } },
+      { id: 'plains', name: 'Plains', color: '#8fbf5a', minTemperature: -0.35, maxTemperature: 0.35, minHumidity: -1, maxHumidity: 0.2, amplitude: 4, verticalOffsetPercent: 25 },
+      { id: 'forest', name: 'Forest', color: '#3f7d3a', minTemperature: -0.35, maxTemperature: 0.35, minHumidity: 0.2, maxHumidity: 1, amplitude: 8, verticalOffsetPercent: 28 },
+      { id: 'desert', name: 'Desert', color: '#d8c37a', minTemperature: 0.35, maxTemperature: 1, minHumidity: -1, maxHumidity: 0, amplitude: 3, verticalOffsetPercent: 22 },
+      { id: 'jungle', name: 'Jungle', color: '#2f9e4f', minTemperature: 0.35, maxTemperature: 1, minHumidity: 0, maxHumidity: 1, amplitude: 10, verticalOffsetPercent: 30 }
+    ]
+  }
+}
+
+let nextBiomeId = 1
+
+export function createBiome(overrides: Partial<Biome> = {}): Biome {
+  const id = nextBiomeId++
+  return {
+    id: `biome-${id}-${Date.now().toString(36)}`,
+    name: `Biome ${id}`,
+    color: '#a0a0a0',
+    minTemperature: -1,
+    maxTemperature: 1,
+    minHumidity: -1,
+    maxHumidity: 1,
+    amplitude: 8,
+    verticalOffsetPercent: 25,
+    ...overrides
+  }
+}
+
+const smoothstep = (e0: number, e1: number, x: number) => {
+  if (e1 <= e0) return x < e0 ? 0 : 1
+  const t = Math.min(1, Math.max(0, (x - e0) / (e1 - e0)))
+  return t * t * (3 - 2 * t)
+}
+
+// 0..1 membership of v in [lo, hi], ramping over `width` around each border.
+// Neighbouring ranges sharing a border sum to 1 across it.
+function rangeWeight(v: number, lo: number, hi: number, width: number): number {
+  const half = width / 2
+  const above = lo <= -1 ? 1 : smoothstep(lo - half, lo + half, v)
+  const below = hi >= 1 ? 1 : 1 - smoothstep(hi - half, hi + half, v)
+  return above * below
+}
+
+function climateSettings(base: NoiseSettings | undefined, climate: ClimateNoise): NoiseSettings {
+  return {
+    ...(base ?? {} as NoiseSettings),
+    noiseType: 'OpenSimplex2',
+    seed: climate.seed,
+    frequency: climate.frequency,
+    fractalType: 'FBm',
+    fractalOctaves: 3,
+    fractalLacunarity: 2,
+    fractalGain: 0.5,
+    domainWarpAmp: 0,
+    domainWarpFractalType: 'None'
+  }
+}
+
+export interface BiomeSampler {
+  biomes: Biome[]
+  temperature(x: number, z: number): number
+  humidity(x: number, z: number): number
+  // Normalized per-biome weights (index matches biomes); `out` is reused when given
+  weights(x: number, z: number, out?: Float32Array): Float32Array
+  // Index of the strongest biome
+  dominant(x: number, z: number): number
+  // Blended terrain height of a column in blocks
+  height(x: number, z: number): number
+}
+
+export function createBiomeSampler(
+  settings: BiomeSettings,
+  noiseSettings: NoiseSettings | undefined,
+  options: NoiseSamplerOptions = {},
+  sizeY = 32
+): BiomeSampler {
+  const { biomes, blendWidth } = settings
+  const climateOptions = { offsetX: options.offsetX, offsetZ: options.offsetZ, tilePeriod: options.tilePeriod }
+  const temperatureSampler = createNoiseSampler(climateSettings(noiseSettings, settings.temperature), climateOptions)
+  const humiditySampler = createNoiseSampler(climateSettings(noiseSettings, settings.humidity), climateOptions)
+
+  // Biomes without overrides share the regular terrain sampler (overrides need full base settings)
+  const terrainSampler = createNoiseSampler(noiseSettings, options)
+  const biomeSamplers: NoiseSampler[] = biomes.map(biome =>
+    noiseSettings && biome.noise && Object.keys(biome.noise).length > 0
+      ? createNoiseSampler({ ...noiseSettings, ...biome.noise }, options)
+      : terrainSampler
+  )
+
+  const scratch = new Float32Array(biomes.length)
+
+  const weights = (x: number, z: number, out = new Float32Array(biomes.length)) => {
+    const t = temperatureSampler.noise2D(x, z)
+    const h = humiditySampler.noise2D(x, z)
+    let total = 0
+    for (let i = 0; i < biomes.length; i++) {
+      const biome = biomes[i]
+      out[i] = rangeWeight(t, biome.minTemperature, biome.maxTemperature, blendWidth)
+        * rangeWeight(h, biome.minHumidity, biome.maxHumidity, blendWidth)
+      total += out[i]
+    }
+    if (total > 0) {
+      for (let i = 0; i < biomes.length; i++) out[i] /= total
+      return out
+    }
+    // Gap in the table: fall back to the biome whose range center is closest
+    let best = 0, bestDistance = Infinity
+    for (let i = 0; i < biomes.length; i++) {
+      const biome = biomes[i]
+      const dt = t - (biome.minTemperature + biome.maxTemperature) / 2
+      const dh = h - (biome.minHumidity + biome.maxHumidity) / 2
+      const distance = dt * dt + dh * dh
+      if (distance < bestDistance) { best = i; bestDistance = distance }
+      out[i] = 0
+    }
+    if (biomes.length > 0) out[best] = 1
+    return out
+  }
+
+  return {
+    biomes,
+    temperature: temperatureSampler.noise2D,
+    humidity: humiditySampler.noise2D,
+    weights,
+    dominant: (x, z) => {
+      const w = weights(x, z, scratch)
+      let best = 0
+      for (let i = 1; i < w.length; i++) if (w[i] > w[best]) best = i
+      return best
+    },
+    height: (x, z) => {
+      if (biomes.length === 0) return 0
+      const w = weights(x, z, scratch)
+      let shared: number | undefined // Terrain noise is sampled once for all biomes without overrides
+      let height = 0
+      for (let i = 0; i < biomes.length; i++) {
+        if (w[i] <= 0) continue
+        const biomeSampler = biomeSamplers[i]
+        let noise: number
+        if (biomeSampler === terrainSampler) {
+          shared ??= terrainSampler.sample2D(x, z)
+          noise = shared
+        } else {
+          noise = biomeSampler.sample2D(x, z)
+        }
+        const biome = biomes[i]
+        height += w[i] * ((biome.verticalOffsetPercent / 100) * sizeY + noise * biome.amplitude)
+      }
+      return height
+    }
+  }
+}
+
+// Hex color to [r, g, b] in 0..255
+export function parseHexColor(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace('#', '').slice(0, 6), 16)
+  if (Number.isNaN(value)) return [160, 160, 160]
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
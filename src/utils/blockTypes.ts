@@ -0,0 +1,85 @@
+// Block Types
+// Material layering for blocky mode: ordered rules pick a block type per voxel from its depth below
+// the surface, height, slope and biome. Colors come from a configurable palette.
+
+export type BlockType = 'grass' | 'dirt' | 'stone' | 'sand' | 'snow' | 'water' | 'gravel' | 'clay' | 'wood' | 'leaves'
+
+export const BLOCK_TYPES: BlockType[] = ['grass', 'dirt', 'stone', 'sand', 'snow', 'water', 'gravel', 'clay', 'wood', 'leaves']
+
+export type BlockPalette = Record<BlockType, string> // Hex color per block type
+
+export interface BlockRule {
+  id: string
+  block: BlockType
+  // Every bound is optional; a rule matches when all given bounds hold (inclusive)
+  minDepth?: number // Blocks below the surface (0 = surface block)
+  maxDepth?: number
+  minHeight?: number // % of the chunk height
+  maxHeight?: number
+  minSlope?: number // Largest height step to a neighbouring column, in blocks
+  maxSlope?: number
+  biome?: string // Biome id; any biome when unset
+}
+
+export interface BlockSettings {
+  enabled: boolean
+  palette: BlockPalette
+  rules: BlockRule[] // First matching rule wins
+  fallback: BlockType // Used when no rule matches
+}
+
+export interface BlockContext {
+  depth: number
+  heightPercent: number
+  slope: number
+  biome?: string
+}
+
+export const BLOCK_PALETTE_PRESETS: Record<string, BlockPalette> = {
+  Classic: { grass: '#5f9e3a', dirt: '#8a5a35', stone: '#8c8c8c', sand: '#e0cf8f', snow: '#f4f8fb', water: '#3a6fd8', gravel: '#7d7773', clay: '#a4a9b6', wood: '#6b4a2b', leaves: '#3e8e3e' },
+  Autumn: { grass: '#b8862f', dirt: '#6f4426', stone: '#7b746c', sand: '#d6b77a', snow: '#efece6', water: '#2f5b8f', gravel: '#6d6560', clay: '#a38f83', wood: '#5a3b22', leaves: '#c7602a' },
+  Muted: { grass: '#7d9270', dirt: '#77665a', stone: '#9a9a96', sand: '#cfc6a8', snow: '#e8ecee', water: '#5d7fa3', gravel: '#8b8682', clay: '#a7a6ae', wood: '#6e5a48', leaves: '#6a8464' },
+  Gray: { grass: '#b0b0b0', dirt: '#9c9c9c', stone: '#8a8a8a', sand: '#c4c4c4', snow: '#eeeeee', water: '#707070', gravel: '#7a7a7a', clay: '#a8a8a8', wood: '#6a6a6a', leaves: '#9a9a9a' }
+}
+
+// Palette color with a Classic fallback (palettes saved before a block type existed lack it)
+export function getBlockColor(palette: Partial<BlockPalette> | undefined, block: BlockType): string {
+  return palette?.[block] ?? BLOCK_PALETTE_PRESETS.Classic[block]
+}
+
+let nextRuleId = 1
+
+export function createBlockRule(overrides: Partial<BlockRule> = {}): BlockRule {
+  return { id: `rule-${nextRuleId++}-${Date.now().toString(36)}`, block: 'stone', ...overrides }
+}
+
+export function createDefaultBlockSettings(): BlockSettings {
+  return {
+    enabled: false,
+    palette: { ...BLOCK_PALETTE_PRESETS.Classic },
+    rules: [
+      createBlockRule({ block: 'stone', maxDepth: 1, minSlope: 3 }), // Cliffs
+      createBlockRule({ block: 'snow', maxDepth: 0, minHeight: 70 }),
+      createBlockRule({ block: 'snow', maxDepth: 0, biome: 'tundra' }),
+      createBlockRule({ block: 'sand', maxDepth: 3, biome: 'desert' }),
+      createBlockRule({ block: 'sand', maxDepth: 2, maxHeight: 22 }),
+      createBlockRule({ block: 'grass', maxDepth: 0 }),
+      createBlockRule({ block: 'dirt', maxDepth: 3 })
+    ],
+    fallback: 'stone'
+  }
+}
+
+const within = (value: number, min?: number, max?: number) =>
+  (min === undefined || value >= min) && (max === undefined || value <= max)
+
+export function classifyBlock(settings: BlockSettings, context: BlockContext): BlockType {
+  for (const rule of settings.rules) {
+    if (!within(context.depth, rule.minDepth, rule.maxDepth)) continue
+    if (!within(context.heightPercent, rule.minHeight, rule.maxHeight)) continue
+    if (!within(context.slope, rule.minSlope, rule.maxSlope)) continue
+    if (rule.biome && rule.biome !== context.biome) continue
+    return rule.block
+  }
+  return settings.fallback
+}
@@ -0,0 +1,83 @@
+// Caves
+// 3D cave noise carved out of 2D heightmap terrain.
+// Cheese caves: large caverns where a smooth noise passes a threshold.
+// Spaghetti caves: tunnels where two ridged noises peak together (both raw noises near zero).
+
+import { createNoiseSampler } from './noiseSampler'
+import type { NoiseSettings } from './noiseEngines'
+
+export interface CaveSettings {
+  enabled: boolean
+  seed: number
+  cheeseEnabled: boolean
+  cheeseFrequency: number
+  cheeseThreshold: number // Noise above this (-1..1) is air; higher = fewer caverns
+  spaghettiEnabled: boolean
+  spaghettiFrequency: number
+  spaghettiThickness: number // Tunnel radius in noise units
+  surfaceFade: number // Blocks below the surface over which caves fade in (0 = caves may break the surface)
+  floor: number // Bottom rows that are never carved
+}
+
+// Carve values are roughly -1..1; scaled up so cave walls get gradients similar to the terrain's
+export const CAVE_DENSITY_SCALE = 8
+
+export function createDefaultCaveSettings(): CaveSettings {
+  return {
+    enabled: false,
+    seed: 4321,
+    cheeseEnabled: true,
+    cheeseFrequency: 0.04,
+    cheeseThreshold: 0.55,
+    spaghettiEnabled: true,
+    spaghettiFrequency: 0.03,
+    spaghettiThickness: 0.12,
+    surfaceFade: 4,
+    floor: 1
+  }
+}
+
+function caveNoiseSettings(base: NoiseSettings | undefined, seed: number, frequency: number, octaves: number): NoiseSettings {
+  return {
+    ...(base ?? {} as NoiseSettings),
+    noiseType: 'OpenSimplex2',
+    rotationType3D: 'ImproveXZPlanes', // Less grid-aligned look in horizontal slices
+    seed,
+    frequency,
+    fractalType: octaves > 1 ? 'FBm' : 'None',
+    fractalOctaves: octaves,
+    fractalLacunarity: 2,
+    fractalGain: 0.5,
+    domainWarpAmp: 0,
+    domainWarpFractalType: 'None'
+  }
+}
+
+// Returns the carve amount at a voxel: > 0 means air. `depth` is blocks below the terrain surface.
+export type CaveCarver = (x: number, y: number, z: number, depth: number) => number
+
+export function createCaveCarver(settings: CaveSettings, noiseSettings?: NoiseSettings, offsetX = 0, offsetZ = 0): CaveCarver {
+  const options = { offsetX, offsetZ }
+  const cheese = createNoiseSampler(caveNoiseSettings(noiseSettings, settings.seed, settings.cheeseFrequency, 2), options)
+  const tunnelA = createNoiseSampler(caveNoiseSettings(noiseSettings, settings.seed + 1, settings.spaghettiFrequency, 1), options)
+  const tunnelB = createNoiseSampler(caveNoiseSettings(noiseSettings, settings.seed + 2, settings.spaghettiFrequency, 1), options)
+  const { cheeseEnabled, cheeseThreshold, spaghettiEnabled, spaghettiThickness, surfaceFade, floor } = settings
+
+  return (x, y, z, depth) => {
+    if (y < floor || depth < 0) return -1
+    let carve = -1
+    if (cheeseEnabled) {
+      carve = cheese.noise3D(x, y, z) - cheeseThreshold
+    }
+    if (spaghettiEnabled) {
+      const a = tunnelA.noise3D(x, y, z)
+      const b = tunnelB.noise3D(x, y, z)
+      carve = Math.max(carve, spaghettiThickness - Math.sqrt(a * a + b * b))
+    }
+    // Close caves off towards the surface
+    if (surfaceFade > 0 && depth < surfaceFade) {
+      carve -= 1 - depth / surfaceFade
+    }
+    return carve
+  }
+}
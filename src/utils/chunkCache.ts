@@ -0,0 +1,75 @@
+// Chunk Cache
+// Least-recently-used cache for generated chunk data in the streamed world view, keyed by a hash of
+// every generation setting plus the chunk coordinate, so panning back to a chunk doesn't regenerate it.
+
+export class LRUCache<V> {
+  capacity: number
+  private entries = new Map<string, V>() // Insertion order = least recently used first
+  private onEvict?: (value: V) => void
+
+  constructor(capacity: number, onEvict?: (value: V) => void) {
+    this.capacity = capacity
+    this.onEvict = onEvict
+  }
+
+  get size(): number {
+    return this.entries.size
+  }
+
+  has(key: string): boolean {
+    return this.entries.has(key)
+  }
+
+  // Returns the value and marks it as most recently used
+  get(key: string): V | undefined {
+    const value = this.entries.get(key)
+    if (value === undefined) return undefined
+    this.entries.delete(key)
+    this.entries.set(key, value)
+    return value
+  }
+
+  // Returns the value without touching the order (safe to call while rendering)
+  peek(key: string): V | undefined {
+    return this.entries.get(key)
+  }
+
+  set(key: string, value: V) {
+    this.entries.delete(key)
+    this.entries.set(key, value)
+    this.trim()
+  }
+
+  // Drops least recently used entries above the capacity
+  trim() {
+    while (this.entries.size > Math.max(0, this.capacity)) {
+      const [oldestKey, oldest] = this.entries.entries().next().value as [string, V]
+      this.entries.delete(oldestKey)
+      this.onEvict?.(oldest)
+    }
+  }
+
+  clear() {
+    if (this.onEvict) this.entries.forEach(value => this.onEvict!(value))
+    this.entries.clear()
+  }
+}
+
+// Stable hash of any JSON-like settings object (FNV-1a over the JSON, object keys sorted)
+export function hashSettings(value: unknown): string {
+  const json = JSON.stringify(value, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : v
+  )
+  let hash = 0x811c9dc5
+  for (let i = 0; i < (json?.length ?? 0); i++) {
+    hash ^= json.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(36)
+}
+
+export function chunkCacheKey(settingsHash: string, chunkX: number, chunkZ: number): string {
+  return `${settingsHash}:${chunkX},${chunkZ}`
+}
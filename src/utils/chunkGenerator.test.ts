@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { createChunkHeightFunction, createChunkSamplerOptions, createRawHeightFunction, getHeightmapProcessing } from './chunkGenerator'
+import { createDefaultErosionSettings, erodeHydraulicAsync, sampleHeightmap } from './erosion'
+import { applyHeightmapFilters, createHeightmapFilter } from './heightmapFilters'
+import { createNoiseSampler } from './noiseSampler'
+import type { ChunkGenerationSettings } from './chunkGenerator'
+import type { Heightmap } from './erosion'
+
+const SIZE = 32
+const erosion = { ...createDefaultErosionSettings(), enabled: true, iterations: 3000 }
+const filters = { enabled: true, filters: [createHeightmapFilter('thermal'), createHeightmapFilter('blur')] }
+
+function chunkSettings(offsetX: number, seamless: boolean): ChunkGenerationSettings {
+  return {
+    sizeX: SIZE, sizeY: SIZE, sizeZ: SIZE, amplitude: 16, verticalOffset: 16, mathExpression: 'N', offsetX, offsetZ: 0,
+    isolevel: 0, use3D: false, isSmooth: false, smoothMesher: 'marchingCubes', blocksEnabled: false, seaLevel: -1, beachWidth: 0,
+    seamless, heightmap: null
+  }
+}
+
+// Column heights of a chunk the way the Chunk component builds them: raw height, then erosion and filters if it runs them
+async function chunkHeights(offsetX: number, seamless: boolean): Promise<(x: number, z: number) => number> {
+  const settings = chunkSettings(offsetX, seamless)
+  const sampler = createNoiseSampler(settings.noiseSettings, createChunkSamplerOptions(settings))
+  const processing = getHeightmapProcessing(settings, erosion, filters)
+  let heightmap: Heightmap | null = null
+  if (processing.hydraulic || processing.filters) {
+    heightmap = sampleHeightmap(createRawHeightFunction(settings, sampler), SIZE, SIZE, 8)
+    if (processing.hydraulic) heightmap = await erodeHydraulicAsync(heightmap, erosion, SIZE, { cancelled: false })
+    if (processing.filters) heightmap = applyHeightmapFilters(heightmap!, filters, SIZE)
+  }
+  return createChunkHeightFunction({ ...settings, heightmap }, sampler)
+}
+
+// Largest height difference between chunk A and its +X neighbour B on the columns both of them read
+async function seamMismatch(seamless: boolean): Promise<number> {
+  const a = await chunkHeights(0, seamless)
+  const b = await chunkHeights(SIZE, seamless)
+  let mismatch = 0
+  for (let z = -1; z <= SIZE; z++) {
+    for (const x of [SIZE - 1, SIZE]) mismatch = Math.max(mismatch, Math.abs(a(x, z) - b(x - SIZE, z)))
+  }
+  return mismatch
+}
+
+describe('chunk heightmap processing', () => {
+  it('keeps adjacent world chunks in agreement on their shared columns', async () => {
+    expect(await seamMismatch(true)).toBeLessThan(1e-4)
+  })
+
+  it('erodes and filters a single chunk', async () => {
+    // Per-chunk erosion is what pulls neighbours apart, so it only runs outside the world view
+    expect(await seamMismatch(false)).toBeGreaterThan(0.1)
+  })
+})
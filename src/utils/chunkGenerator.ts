@@ -0,0 +1,303 @@
+// Chunk Generator
+// Everything a chunk computes from its settings without React or three.js: density sampling, voxelization
+// into typed arrays and the smooth mesh. Runs inside the chunk workers; the chunk also uses the height and
+// carver helpers on the main thread for erosion and features.
+
+import { getSmoothMeshFunction } from './smoothMeshers'
+import { generateLodMesh, isReducedLod } from './chunkLod'
+import { generateTransvoxelMesh } from './transvoxel'
+import { createNoiseEngines } from './noiseEngines'
+import { createNoiseSampler } from './noiseSampler'
+import { createTerrainHeightFunction } from './terrainHeight'
+import { createBiomeSampler } from './biomes'
+import { CAVE_DENSITY_SCALE, createCaveCarver } from './caves'
+import { isBeach } from './water'
+import { createHeightmapLookup } from './erosion'
+import type { MarchingCubesResult } from './marchingCubes'
+import type { SmoothMesher } from './smoothMeshers'
+import type { ChunkLod } from './chunkLod'
+import type { NoiseSettings } from './noiseEngines'
+import type { NoiseLayer } from './noiseLayers'
+import type { NoiseGraph } from './nodeGraph'
+import type { NoiseSampler, NoiseSamplerOptions } from './noiseSampler'
+import type { HeightCurve } from './heightCurve'
+import type { BiomeSettings } from './biomes'
+import type { CaveCarver, CaveSettings } from './caves'
+import type { Heightmap, HydraulicErosionSettings } from './erosion'
+import type { HeightmapFilterSettings } from './heightmapFilters'
+import type { TilingSettings } from './tiling'
+
+// Settings that shape the 2D terrain height (plain data, so they can be posted to a worker)
+export interface ChunkHeightSettings {
+  sizeX: number
+  sizeY: number
+  sizeZ: number
+  amplitude: number
+  verticalOffset: number
+  noiseSettings?: NoiseSettings
+  layers?: NoiseLayer[]
+  graph?: NoiseGraph
+  mathExpression: string
+  expressionInputs?: Record<string, NoiseSettings>
+  heightCurve?: HeightCurve
+  biomes?: BiomeSettings
+  tiling?: TilingSettings
+  offsetX: number
+  offsetZ: number
+  updateTrigger?: number // Bumped by the manual update button; only forces a new settings object
+}
+
+export interface ChunkTerrainSettings extends ChunkHeightSettings {
+  isolevel: number
+  use3D: boolean
+  isSmooth: boolean // Also build the smooth mesh
+  smoothMesher: SmoothMesher // Polygonizer for the smooth mesh
+  lod?: ChunkLod // Smooth mesh stride and neighbour levels in the world view; full resolution without
+  caves?: CaveSettings
+  blocksEnabled: boolean // Per-voxel biome lookups are only needed for block rules
+  seaLevel: number // Highest water-filled Y level, -1 without water
+  beachWidth: number
+  seamless: boolean // Part of a world grid: smooth meshes get one extra sample row in X/Z, and voxel culling looks into the neighbour chunks
+}
+
+export interface ChunkGenerationSettings extends ChunkTerrainSettings {
+  heightmap: Heightmap | null // Eroded/filtered heightmap replacing the raw terrain height where it covers
+}
+
+export interface CubeData {
+  count: number // Solid voxels
+  positions: Float32Array // Chunk-centered xyz per solid voxel
+  depths: Int16Array // Solid blocks above each voxel in its column
+  slopes: Float32Array // Largest height step to a neighbouring column (0 in 3D mode)
+  biomes: Int16Array // Dominant biome index per voxel, -1 without biomes or block types
+  beach: Uint8Array // 1 where the voxel turns into beach sand (only with water on)
+  waterPositions: Float32Array // Chunk-centered xyz per water voxel
+  tops: Int16Array // Highest solid Y per column (x * sizeZ + z), -1 when empty
+  buried: Uint8Array // 1 where all six neighbours are solid, so no face of the voxel can be seen
+}
+
+export interface ChunkData {
+  cubes: CubeData
+  smooth: MarchingCubesResult | null // Only in smooth mode
+}
+
+const BEACH_DEPTH = 2 // Beach columns turn this many blocks below the surface into sand too
+
+export function createChunkSamplerOptions(settings: ChunkHeightSettings): NoiseSamplerOptions {
+  const { offsetX, offsetZ, mathExpression, expressionInputs, layers, graph, sizeX, sizeY, sizeZ, tiling } = settings
+  return {
+    offsetX, offsetZ, mathExpression, expressionInputs, layers, graph,
+    chunkSize: { x: sizeX, y: sizeY, z: sizeZ },
+    tilePeriod: tiling?.enabled ? tiling.period : undefined
+  }
+}
+
+// Terrain height of a 2D column before erosion: blended biome height, height curve or linear amplitude/offset
+export function createRawHeightFunction(settings: ChunkHeightSettings, sampler: NoiseSampler): (x: number, z: number) => number {
+  const { amplitude, verticalOffset, sizeY, heightCurve, biomes, noiseSettings } = settings
+  return createTerrainHeightFunction(sampler, { amplitude, verticalOffset, sizeY, heightCurve, biomes }, noiseSettings, createChunkSamplerOptions(settings))
+}
+
+// Terrain height of a 2D column, from the processed heightmap when there is one
+export function createChunkHeightFunction(settings: ChunkGenerationSettings, sampler: NoiseSampler): (x: number, z: number) => number {
+  const heightAt = createRawHeightFunction(settings, sampler)
+  return settings.heightmap ? createHeightmapLookup(settings.heightmap, heightAt) : heightAt
+}
+
+// Heightmap post-processes a chunk runs (2D mode only). Erosion and the filters only see one chunk's padded
+// heightmap, so two world chunks would disagree on the columns they share: seamless chunks keep the raw height.
+export function getHeightmapProcessing(
+  settings: Pick<ChunkTerrainSettings, 'use3D' | 'seamless'>,
+  erosion?: HydraulicErosionSettings,
+  filters?: HeightmapFilterSettings
+): { hydraulic: boolean, filters: boolean } {
+  if (settings.use3D || settings.seamless) return { hydraulic: false, filters: false }
+  return {
+    hydraulic: !!erosion?.enabled,
+    filters: !!filters?.enabled && filters.filters.some(filter => filter.enabled)
+  }
+}
+
+// Cave carver for 2D mode (3D mode is already a free density field)
+export function createChunkCarver(settings: ChunkTerrainSettings): CaveCarver | undefined {
+  const { caves, use3D, noiseSettings, offsetX, offsetZ } = settings
+  return caves?.enabled && !use3D ? createCaveCarver(caves, noiseSettings, offsetX, offsetZ) : undefined
+}
+
+// Density function for marching cubes
+export function createChunkDensityFunction(settings: ChunkGenerationSettings): (x: number, y: number, z: number) => number {
+  const sampler = createNoiseSampler(settings.noiseSettings, createChunkSamplerOptions(settings))
+  const heightAt = createChunkHeightFunction(settings, sampler)
+  const carve = createChunkCarver(settings)
+  const { use3D, isolevel } = settings
+
+  return (x, y, z) => {
+    if (use3D) {
+      return sampler.transform3D(-sampler.noise3D(x, y, z), x, y, z)
+    }
+    const height = heightAt(x, z)
+    if (!carve) return y - height
+    // Caves push the density above the isolevel (air) wherever they carve
+    return Math.max(y - height, isolevel + carve(x, y, z, height - y) * CAVE_DENSITY_SCALE)
+  }
+}
+
+// Solid voxels from the noise and isolevel, plus what block rules need per voxel
+export function generateCubeData(settings: ChunkGenerationSettings): CubeData {
+  const { sizeX, sizeY, sizeZ, isolevel, use3D, noiseSettings, biomes, blocksEnabled, seaLevel, beachWidth, offsetX, offsetZ, seamless } = settings
+  const positions: number[] = []
+  const depths: number[] = []
+  const slopes: number[] = []
+  const biomeIds: number[] = []
+  const beach: number[] = []
+  const waterPositions: number[] = []
+  const tops = new Int16Array(sizeX * sizeZ).fill(-1)
+
+  const sampler = createNoiseSampler(noiseSettings, createChunkSamplerOptions(settings))
+  const biomeSampler = blocksEnabled && biomes?.enabled && biomes.biomes.length > 0
+    ? createBiomeSampler(biomes, noiseSettings, createChunkSamplerOptions(settings), sizeY)
+    : undefined
+  const biomeAt = (x: number, z: number) => biomeSampler ? biomeSampler.dominant(x, z) : -1
+
+  const addCube = (x: number, y: number, z: number, depth: number, slope: number, biome: number, isBeachBlock: boolean) => {
+    positions.push(x - sizeX / 2 + 0.5, y - sizeY / 2 + 0.5, z - sizeZ / 2 + 0.5)
+    depths.push(depth)
+    slopes.push(slope)
+    biomeIds.push(biome)
+    beach.push(isBeachBlock ? 1 : 0)
+  }
+  const addWater = (x: number, y: number, z: number) =>
+    waterPositions.push(x - sizeX / 2 + 0.5, y - sizeY / 2 + 0.5, z - sizeZ / 2 + 0.5)
+  // Solidity of the neighbour chunks' voxels next to this chunk; a lone chunk is surrounded by air
+  let solidOutside: (x: number, y: number, z: number) => boolean = () => false
+
+  if (use3D) {
+    const noiseGrid = sampler.fillGrid3D(sizeX, sizeY, sizeZ)
+    if (seamless) solidOutside = (x, y, z) => sampler.sample3D(x, y, z) > isolevel
+    for (let x = 0; x < sizeX; x++) {
+      for (let z = 0; z < sizeZ; z++) {
+        const biome = biomeAt(x, z)
+        let depth = 0
+        // Top-down so depth counts the solid run above each voxel
+        for (let y = sizeY - 1; y >= 0; y--) {
+          const noiseValue = noiseGrid[(x * sizeY + y) * sizeZ + z]
+          if (noiseValue > isolevel) {
+            if (tops[x * sizeZ + z] < 0) tops[x * sizeZ + z] = y
+            addCube(x, y, z, depth, 0, biome, seaLevel >= 0 && depth === 0 && isBeach(y, seaLevel, beachWidth))
+            depth++
+          } else {
+            depth = 0
+            if (y <= seaLevel) addWater(x, y, z)
+          }
+        }
+      }
+    }
+  } else {
+    const iso = createNoiseEngines(noiseSettings).base
+    iso.SetSeed((noiseSettings?.seed || 12345) + 1000)
+    const heightAt = createChunkHeightFunction(settings, sampler)
+    const carve = createChunkCarver(settings)
+    // Heights with a one-column border so slopes at the chunk edge see their neighbours
+    const stride = sizeZ + 2
+    const heights = new Float32Array((sizeX + 2) * stride)
+    for (let x = -1; x <= sizeX; x++) {
+      for (let z = -1; z <= sizeZ; z++) {
+        const isBorder = x < 0 || z < 0 || x === sizeX || z === sizeZ
+        heights[(x + 1) * stride + z + 1] = isBorder && !blocksEnabled && !seamless ? 0 : Math.floor(heightAt(x, z))
+      }
+    }
+    if (seamless) {
+      solidOutside = (x, y, z) => {
+        const height = heights[(x + 1) * stride + z + 1]
+        return iso.GetNoise(x + offsetX + 1000, z + offsetZ + 1000) > isolevel && y <= height && !(carve && carve(x, y, z, height - y) > 0)
+      }
+    }
+    for (let x = 0; x < sizeX; x++) {
+      for (let z = 0; z < sizeZ; z++) {
+        const index = (x + 1) * stride + z + 1
+        const height = heights[index]
+        const isoNoiseValue = iso.GetNoise(x + offsetX + 1000, z + offsetZ + 1000)
+        const visible = isoNoiseValue > isolevel
+        // Water fills the air between the surface and the sea level
+        for (let y = visible ? Math.max(0, height + 1) : 0; y <= seaLevel && y < sizeY; y++) {
+          addWater(x, y, z)
+        }
+        if (!visible) continue
+        const slope = Math.max(
+          Math.abs(height - heights[index - stride]), Math.abs(height - heights[index + stride]),
+          Math.abs(height - heights[index - 1]), Math.abs(height - heights[index + 1])
+        )
+        const biome = biomeAt(x, z)
+        const beachColumn = seaLevel >= 0 && isBeach(height, seaLevel, beachWidth)
+        for (let y = 0; y <= height && y < sizeY; y++) {
+          if (carve && carve(x, y, z, height - y) > 0) continue
+          tops[x * sizeZ + z] = y
+          addCube(x, y, z, height - y, slope, biome, beachColumn && height - y <= BEACH_DEPTH)
+        }
+      }
+    }
+  }
+
+  // Voxels enclosed on all six sides (the chunk's top and bottom count as open)
+  const count = depths.length
+  const occupancy = new Uint8Array(sizeX * sizeY * sizeZ)
+  const cells = new Int32Array(count * 3)
+  for (let i = 0; i < count; i++) {
+    const x = positions[i * 3] + sizeX / 2 - 0.5, y = positions[i * 3 + 1] + sizeY / 2 - 0.5, z = positions[i * 3 + 2] + sizeZ / 2 - 0.5
+    cells.set([x, y, z], i * 3)
+    occupancy[(x * sizeY + y) * sizeZ + z] = 1
+  }
+  const solidAt = (x: number, y: number, z: number) => {
+    if (y < 0 || y >= sizeY) return false
+    if (x < 0 || z < 0 || x >= sizeX || z >= sizeZ) return solidOutside(x, y, z)
+    return occupancy[(x * sizeY + y) * sizeZ + z] === 1
+  }
+  const buried = new Uint8Array(count)
+  for (let i = 0; i < count; i++) {
+    const x = cells[i * 3], y = cells[i * 3 + 1], z = cells[i * 3 + 2]
+    buried[i] = solidAt(x + 1, y, z) && solidAt(x - 1, y, z) && solidAt(x, y + 1, z) && solidAt(x, y - 1, z)
+      && solidAt(x, y, z + 1) && solidAt(x, y, z - 1) ? 1 : 0
+  }
+
+  return {
+    count,
+    positions: new Float32Array(positions),
+    depths: new Int16Array(depths),
+    slopes: new Float32Array(slopes),
+    biomes: new Int16Array(biomeIds),
+    beach: new Uint8Array(beach),
+    waterPositions: new Float32Array(waterPositions),
+    tops,
+    buried
+  }
+}
+
+// Smooth surface using the selected mesher
+export function generateSmoothMesh(settings: ChunkGenerationSettings): MarchingCubesResult {
+  const { sizeX, sizeY, sizeZ, isolevel, use3D, seamless, smoothMesher, lod } = settings
+  // Seamless chunks sample sizeX + 1 points so the last row lands on the neighbour's first one
+  const extra = seamless ? 1 : 0
+  const mesher = getSmoothMeshFunction(smoothMesher)
+  const density = createChunkDensityFunction(settings)
+  if (smoothMesher === 'marchingCubes') {
+    if (lod && lod.level > 0) return generateTransvoxelMesh(sizeX + extra, sizeY, sizeZ + extra, density, isolevel, use3D, lod)
+  } else if (isReducedLod(lod)) {
+    return generateLodMesh(mesher, sizeX + extra, sizeY, sizeZ + extra, density, isolevel, use3D, lod)
+  }
+  return mesher(sizeX + extra, sizeY, sizeZ + extra, density, isolevel, use3D)
+}
+
+export function generateChunk(settings: ChunkGenerationSettings): ChunkData {
+  return {
+    cubes: generateCubeData(settings),
+    smooth: settings.isSmooth ? generateSmoothMesh(settings) : null
+  }
+}
+
+// Buffers that can be moved (not copied) out of the worker
+export function getChunkTransferables(data: ChunkData): ArrayBuffer[] {
+  const { cubes, smooth } = data
+  const arrays: ArrayBufferView[] = [cubes.positions, cubes.depths, cubes.slopes, cubes.biomes, cubes.beach, cubes.waterPositions, cubes.tops, cubes.buried]
+  if (smooth) arrays.push(smooth.vertices, smooth.normals, smooth.indices)
+  return arrays.map(array => array.buffer as ArrayBuffer)
+}
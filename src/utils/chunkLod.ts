@@ -0,0 +1,128 @@
+// Chunk LOD
+// Lower-resolution smooth meshes for distant chunks in the world view. A chunk at level L samples the density
+// every 2^L voxels (the last sample row is always kept so chunk borders line up), meshes that coarse grid
+// and maps the vertices back to voxel units.
+//
+// Seams: marching cubes chunks get Transvoxel transition cells toward finer neighbours (see transvoxel).
+// The other meshers have no transition cells; there the finer chunk replaces the densities on a border
+// plane shared with a coarser neighbour by the bilinear interpolation of the coarser lattice, so both chunks
+// cross the isolevel at the same points along the coarse lattice edges. Inside a coarse border square their
+// contours can still differ slightly, and the chunk walls every smooth mesher emits close those slits.
+
+import type { MarchingCubesResult } from './marchingCubes'
+import type { SmoothMeshFunction } from './smoothMeshers'
+
+export const MAX_LOD_LEVEL = 2 // Stride 4
+
+// Debug tint per LOD level
+export const LOD_COLORS = ['#66bb6a', '#42a5f5', '#ffa726']
+
+export interface ChunkLod {
+  level: number // Sample stride 2^level
+  neighbours: [number, number, number, number] // Levels of the -X, +X, -Z and +Z neighbours
+}
+
+// Level for a chunk `distance` chunks (Chebyshev) from the center: each `ringWidth` rings drop one level
+export function getLodLevel(distance: number, ringWidth: number): number {
+  return Math.min(MAX_LOD_LEVEL, Math.floor(distance / Math.max(1, ringWidth)))
+}
+
+// Whether a chunk meshed without transition cells needs generateLodMesh: coarse itself, or resampling its
+// border toward a coarser neighbour
+export function isReducedLod(lod: ChunkLod | undefined): lod is ChunkLod {
+  return !!lod && (lod.level > 0 || lod.neighbours.some(level => level > lod.level))
+}
+
+// Sample positions along one axis: every `stride` voxels, plus the last sample
+export function latticePositions(samples: number, stride: number): number[] {
+  const positions: number[] = []
+  for (let i = 0; i < samples - 1; i += stride) positions.push(i)
+  positions.push(samples - 1)
+  return positions
+}
+
+// Lattice points bracketing `c` on the stride's lattice (equal when c is on it)
+function bracket(c: number, stride: number, last: number): [number, number] {
+  const low = Math.min(Math.floor(c / stride) * stride, last)
+  return [low, c === low ? low : Math.min(low + stride, last)]
+}
+
+// Piecewise linear map from lattice index space back to voxels; unit spacing outside the lattice keeps the
+// border walls where a full-resolution mesh puts them
+export function createLatticeMap(positions: number[]): (c: number) => number {
+  const last = positions.length - 1
+  return c => {
+    if (c <= 0) return positions[0] + c
+    if (c >= last) return positions[last] + (c - last)
+    const i = Math.floor(c)
+    return positions[i] + (c - i) * (positions[i + 1] - positions[i])
+  }
+}
+
+export function generateLodMesh(
+  mesher: SmoothMeshFunction,
+  sizeX: number,
+  sizeY: number,
+  sizeZ: number,
+  densityFunction: (x: number, y: number, z: number) => number,
+  isolevel: number,
+  use3D: boolean,
+  lod: ChunkLod
+): MarchingCubesResult {
+  const stride = 1 << lod.level
+  const lastX = sizeX - 1, lastY = sizeY - 1, lastZ = sizeZ - 1
+  const strides = lod.neighbours.map(level => 1 << level)
+
+  // Density with the border planes facing a coarser neighbour resampled on that neighbour's lattice
+  const seamDensity = (x: number, y: number, z: number): number => {
+    let seamStride = stride
+    if (x === 0) seamStride = Math.max(seamStride, strides[0])
+    if (x === lastX) seamStride = Math.max(seamStride, strides[1])
+    if (z === 0) seamStride = Math.max(seamStride, strides[2])
+    if (z === lastZ) seamStride = Math.max(seamStride, strides[3])
+    if (seamStride === stride) return densityFunction(x, y, z)
+
+    // Trilinear on the coarse lattice; the plane's own axis is on the lattice, so this is bilinear in the plane
+    const [x0, x1] = bracket(x, seamStride, lastX)
+    const [y0, y1] = bracket(y, seamStride, lastY)
+    const [z0, z1] = bracket(z, seamStride, lastZ)
+    const tx = x1 === x0 ? 0 : (x - x0) / (x1 - x0)
+    const ty = y1 === y0 ? 0 : (y - y0) / (y1 - y0)
+    const tz = z1 === z0 ? 0 : (z - z0) / (z1 - z0)
+    let value = 0
+    for (const [cx, wx] of [[x0, 1 - tx], [x1, tx]]) {
+      if (wx === 0) continue
+      for (const [cy, wy] of [[y0, 1 - ty], [y1, ty]]) {
+        if (wy === 0) continue
+        for (const [cz, wz] of [[z0, 1 - tz], [z1, tz]]) {
+          if (wz === 0) continue
+          value += wx * wy * wz * densityFunction(cx, cy, cz)
+        }
+      }
+    }
+    return value
+  }
+
+  const latticeX = latticePositions(sizeX, stride)
+  const latticeY = latticePositions(sizeY, stride)
+  const latticeZ = latticePositions(sizeZ, stride)
+  const result = mesher(
+    latticeX.length,
+    latticeY.length,
+    latticeZ.length,
+    (i, j, k) => seamDensity(latticeX[i], latticeY[j], latticeZ[k]),
+    isolevel,
+    use3D
+  )
+
+  // The mesher centered the coarse grid; re-center in voxel units
+  const maps = [createLatticeMap(latticeX), createLatticeMap(latticeY), createLatticeMap(latticeZ)]
+  const coarseCenters = [latticeX.length / 2 - 0.5, latticeY.length / 2 - 0.5, latticeZ.length / 2 - 0.5]
+  const centers = [sizeX / 2 - 0.5, sizeY / 2 - 0.5, sizeZ / 2 - 0.5]
+  const { vertices } = result
+  for (let i = 0; i < vertices.length; i++) {
+    const axis = i % 3
+    vertices[i] = maps[axis](vertices[i] + coarseCenters[axis]) - centers[axis]
+  }
+  return result
+}
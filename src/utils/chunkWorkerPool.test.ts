@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { ChunkWorkerPool } from './chunkWorkerPool'
+import type { ChunkData, ChunkGenerationSettings } from './chunkGenerator'
+import type { ChunkWorkerRequest } from './chunkWorkerPool'
+
+// Worker stand-in the test answers by hand
+class FakeWorker {
+  onmessage: ((event: MessageEvent) => void) | null = null
+  onerror: ((event: ErrorEvent) => void) | null = null
+  requests: ChunkWorkerRequest[] = []
+  terminated = false
+
+  postMessage(request: ChunkWorkerRequest) {
+    this.requests.push(request)
+  }
+
+  terminate() {
+    this.terminated = true
+  }
+
+  reply(data: ChunkData) {
+    const { id } = this.requests[this.requests.length - 1]
+    this.onmessage?.({ data: { id, data } } as MessageEvent)
+  }
+
+  crash(message: string) {
+    this.onerror?.({ message, preventDefault: () => {} } as ErrorEvent)
+  }
+}
+
+const settings = {} as ChunkGenerationSettings
+const data = {} as ChunkData
+
+describe('ChunkWorkerPool', () => {
+  it('replaces a crashed worker instead of reusing it', async () => {
+    const workers: FakeWorker[] = []
+    const pool = new ChunkWorkerPool(1, () => {
+      const worker = new FakeWorker()
+      workers.push(worker)
+      return worker as unknown as Worker
+    })
+
+    const first = pool.run(settings)
+    const second = pool.run(settings)
+    workers[0].crash('out of memory')
+    await expect(first.promise).rejects.toThrow('out of memory')
+    expect(workers[0].terminated).toBe(true)
+
+    // The queued job went to a fresh worker
+    expect(workers).toHaveLength(2)
+    expect(workers[1].requests).toHaveLength(1)
+    workers[1].reply(data)
+    await expect(second.promise).resolves.toBe(data)
+    expect(workers[0].requests).toHaveLength(1)
+    expect(pool.pending).toBe(0)
+  })
+})
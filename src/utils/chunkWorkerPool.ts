@@ -0,0 +1,139 @@
+// Chunk Worker Pool
+// Runs chunk generation in a small pool of Web Workers so slider drags don't block the page.
+// Results come back as transferred typed arrays. Cancelling a queued job drops it; cancelling a running
+// job terminates its worker (generation is one synchronous call that can't be interrupted) and starts a fresh one.
+
+import { generateChunk } from './chunkGenerator'
+import type { ChunkData, ChunkGenerationSettings } from './chunkGenerator'
+
+export interface ChunkWorkerRequest {
+  id: number
+  settings: ChunkGenerationSettings
+}
+
+export type ChunkWorkerResponse = { id: number, data: ChunkData } | { id: number, error: string }
+
+export interface ChunkJob {
+  promise: Promise<ChunkData | null> // null when cancelled
+  cancel: () => void
+}
+
+interface PendingJob {
+  id: number
+  settings: ChunkGenerationSettings
+  cancelled: boolean
+  resolve: (data: ChunkData | null) => void
+  reject: (error: Error) => void
+}
+
+export class ChunkWorkerPool {
+  private size: number
+  private createWorker: () => Worker
+  private idle: Worker[] = []
+  private running = new Map<Worker, PendingJob>()
+  private queue: PendingJob[] = [] // Oldest first
+  private nextJobId = 1
+
+  constructor(size: number, createWorker: () => Worker) {
+    this.size = Math.max(1, size)
+    this.createWorker = createWorker
+  }
+
+  get pending(): number {
+    return this.queue.length + this.running.size
+  }
+
+  run(settings: ChunkGenerationSettings): ChunkJob {
+    const job = { id: this.nextJobId++, settings, cancelled: false } as PendingJob
+    const promise = new Promise<ChunkData | null>((resolve, reject) => {
+      job.resolve = resolve
+      job.reject = reject
+    })
+    this.queue.push(job)
+    this.dispatch()
+    return { promise, cancel: () => this.cancel(job) }
+  }
+
+  private cancel(job: PendingJob) {
+    if (job.cancelled) return
+    job.cancelled = true
+    job.resolve(null)
+    const queued = this.queue.indexOf(job)
+    if (queued >= 0) {
+      this.queue.splice(queued, 1)
+      return
+    }
+    for (const [worker, running] of this.running) {
+      if (running !== job) continue
+      worker.terminate()
+      this.running.delete(worker)
+      this.dispatch()
+      return
+    }
+  }
+
+  private dispatch() {
+    while (this.queue.length > 0) {
+      const worker = this.idle.pop() ?? (this.running.size < this.size ? this.spawn() : undefined)
+      if (!worker) return
+      const job = this.queue.shift()!
+      this.running.set(worker, job)
+      const request: ChunkWorkerRequest = { id: job.id, settings: job.settings }
+      worker.postMessage(request)
+    }
+  }
+
+  private spawn(): Worker {
+    const worker = this.createWorker()
+    const finish = (job: PendingJob | undefined) => {
+      this.running.delete(worker)
+      this.idle.push(worker)
+      this.dispatch()
+      return job && !job.cancelled ? job : undefined
+    }
+    worker.onmessage = (event: MessageEvent<ChunkWorkerResponse>) => {
+      const job = finish(this.running.get(worker))
+      if (!job || job.id !== event.data.id) return
+      if ('error' in event.data) job.reject(new Error(event.data.error))
+      else job.resolve(event.data.data)
+    }
+    // A crashed worker isn't reused: it leaves the pool and dispatch spawns a fresh one for the next job
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault()
+      const job = this.running.get(worker)
+      worker.terminate()
+      this.running.delete(worker)
+      this.dispatch()
+      if (job && !job.cancelled) job.reject(new Error(event.message || 'Chunk worker crashed'))
+    }
+    return worker
+  }
+}
+
+// Same interface without workers (e.g. outside the browser): generates on the main thread after a tick
+function runInline(settings: ChunkGenerationSettings): ChunkJob {
+  let cancelled = false
+  const promise = new Promise<ChunkData | null>((resolve, reject) => {
+    setTimeout(() => {
+      if (cancelled) return resolve(null)
+      try {
+        resolve(generateChunk(settings))
+      } catch (error) {
+        reject(error as Error)
+      }
+    }, 0)
+  })
+  return { promise, cancel: () => { cancelled = true } }
+}
+
+let sharedPool: ChunkWorkerPool | undefined
+
+// Queues generation of one chunk on the shared pool (one worker per spare core, at most 4)
+export function runChunkJob(settings: ChunkGenerationSettings): ChunkJob {
+  if (typeof Worker === 'undefined') return runInline(settings)
+  sharedPool ??= new ChunkWorkerPool(
+    Math.min(4, (navigator.hardwareConcurrency || 2) - 1),
+    () => new Worker(new URL('../workers/chunkWorker.ts', import.meta.url), { type: 'module' })
+  )
+  return sharedPool.run(settings)
+}
@@ -0,0 +1,218 @@
+// Domain Warp
+// FastNoiseLite's DomainWarp for plain { x, y } / { x, y, z } objects. The npm build's DomainWrap only
+// accepts its own unexported Vector2/Vector3 classes and silently ignores anything else, so the single,
+// progressive and independent warp paths and the BasicGrid kernel are ported here. They read the warp
+// engine's configured state; the OpenSimplex2 gradient kernel is the library's own, the one warp method
+// that doesn't check the vector class.
+
+import FastNoiseLite from 'fastnoise-lite'
+
+export interface WarpCoord2D { x: number, y: number }
+export interface WarpCoord3D { x: number, y: number, z: number }
+
+export interface DomainWarp {
+  warp2D(coord: WarpCoord2D): void // Moves the coordinate in place, like DomainWarp
+  warp3D(coord: WarpCoord3D): void
+}
+
+// Private FastNoiseLite state the warp reads (set through the regular Set* calls)
+interface WarpEngineState {
+  _Seed: number
+  _Frequency: number
+  _DomainWarpAmp: number
+  _DomainWarpType: string
+  _WarpTransformType3D: string
+  _FractalType: string
+  _Octaves: number
+  _Lacunarity: number
+  _Gain: number
+  _FractalBounding: number
+  _RandVecs2D: number[]
+  _RandVecs3D: number[]
+  _SingleDomainWarpOpenSimplex2Gradient(seed: number, amp: number, freq: number, coord: WarpCoord2D, outGradOnly: boolean, x: number, y: number): void
+  _SingleDomainWarpOpenSimplex2Gradient(seed: number, amp: number, freq: number, coord: WarpCoord3D, outGradOnly: boolean, x: number, y: number, z: number): void
+}
+
+const PRIME_X = 501125321
+const PRIME_Y = 1136930381
+const PRIME_Z = 1720413743
+const F2 = 0.5 * (Math.sqrt(3) - 1)
+
+// Transform types come from the JS port's TransformType3D enum
+const TRANSFORM_XY = 'ImproveXYPlanes'
+const TRANSFORM_XZ = 'ImproveXZPlanes'
+const TRANSFORM_OPEN_SIMPLEX2 = 'DefaultOpenSimplex2'
+
+const lerp = (a: number, b: number, t: number) => a + t * (b - a)
+const interpHermite = (t: number) => t * t * (3 - 2 * t)
+const hash2 = (seed: number, x: number, y: number) => Math.imul(seed ^ x ^ y, 0x27d4eb2d)
+const hash3 = (seed: number, x: number, y: number, z: number) => Math.imul(seed ^ x ^ y ^ z, 0x27d4eb2d)
+
+export function createDomainWarp(engine: FastNoiseLite): DomainWarp {
+  const state = engine as unknown as WarpEngineState
+  const type = state._DomainWarpType
+  const isOpenSimplex2 = type === FastNoiseLite.DomainWarpType.OpenSimplex2 || type === FastNoiseLite.DomainWarpType.OpenSimplex2Reduced
+  const randVecs2D = state._RandVecs2D
+  const randVecs3D = state._RandVecs3D
+  // Holders for the skewed sample position, reused across calls
+  const s2 = { x: 0, y: 0 }
+  const s3 = { x: 0, y: 0, z: 0 }
+
+  const basicGrid2D = (seed: number, amp: number, freq: number, coord: WarpCoord2D, x: number, y: number) => {
+    const xf = x * freq, yf = y * freq
+    let x0 = Math.floor(xf), y0 = Math.floor(yf)
+    const xs = interpHermite(xf - x0), ys = interpHermite(yf - y0)
+    x0 = Math.imul(x0, PRIME_X)
+    y0 = Math.imul(y0, PRIME_Y)
+    const x1 = x0 + PRIME_X, y1 = y0 + PRIME_Y
+
+    let h0 = hash2(seed, x0, y0) & (255 << 1), h1 = hash2(seed, x1, y0) & (255 << 1)
+    const lx0x = lerp(randVecs2D[h0], randVecs2D[h1], xs)
+    const ly0x = lerp(randVecs2D[h0 | 1], randVecs2D[h1 | 1], xs)
+    h0 = hash2(seed, x0, y1) & (255 << 1)
+    h1 = hash2(seed, x1, y1) & (255 << 1)
+    const lx1x = lerp(randVecs2D[h0], randVecs2D[h1], xs)
+    const ly1x = lerp(randVecs2D[h0 | 1], randVecs2D[h1 | 1], xs)
+
+    coord.x += lerp(lx0x, lx1x, ys) * amp
+    coord.y += lerp(ly0x, ly1x, ys) * amp
+  }
+
+  const basicGrid3D = (seed: number, amp: number, freq: number, coord: WarpCoord3D, x: number, y: number, z: number) => {
+    const xf = x * freq, yf = y * freq, zf = z * freq
+    let x0 = Math.floor(xf), y0 = Math.floor(yf), z0 = Math.floor(zf)
+    const xs = interpHermite(xf - x0), ys = interpHermite(yf - y0), zs = interpHermite(zf - z0)
+    x0 = Math.imul(x0, PRIME_X)
+    y0 = Math.imul(y0, PRIME_Y)
+    z0 = Math.imul(z0, PRIME_Z)
+    const x1 = x0 + PRIME_X, y1 = y0 + PRIME_Y, z1 = z0 + PRIME_Z
+
+    // Interpolated random vector over one z face of the cell
+    const face = (zPrimed: number): [number, number, number] => {
+      let h0 = hash3(seed, x0, y0, zPrimed) & (255 << 2), h1 = hash3(seed, x1, y0, zPrimed) & (255 << 2)
+      const lx0x = lerp(randVecs3D[h0], randVecs3D[h1], xs)
+      const ly0x = lerp(randVecs3D[h0 | 1], randVecs3D[h1 | 1], xs)
+      const lz0x = lerp(randVecs3D[h0 | 2], randVecs3D[h1 | 2], xs)
+      h0 = hash3(seed, x0, y1, zPrimed) & (255 << 2)
+      h1 = hash3(seed, x1, y1, zPrimed) & (255 << 2)
+      const lx1x = lerp(randVecs3D[h0], randVecs3D[h1], xs)
+      const ly1x = lerp(randVecs3D[h0 | 1], randVecs3D[h1 | 1], xs)
+      const lz1x = lerp(randVecs3D[h0 | 2], randVecs3D[h1 | 2], xs)
+      return [lerp(lx0x, lx1x, ys), lerp(ly0x, ly1x, ys), lerp(lz0x, lz1x, ys)]
+    }
+    const [lx0, ly0, lz0] = face(z0)
+    const [lx1, ly1, lz1] = face(z1)
+
+    coord.x += lerp(lx0, lx1, zs) * amp
+    coord.y += lerp(ly0, ly1, zs) * amp
+    coord.z += lerp(lz0, lz1, zs) * amp
+  }
+
+  // _DoSingleDomainWarp: one octave at the (skewed) sample position
+  const single2D = (seed: number, amp: number, freq: number, coord: WarpCoord2D, x: number, y: number) => {
+    switch (type) {
+      case FastNoiseLite.DomainWarpType.OpenSimplex2:
+        state._SingleDomainWarpOpenSimplex2Gradient(seed, amp * 38.283687591552734375, freq, coord, false, x, y)
+        break
+      case FastNoiseLite.DomainWarpType.OpenSimplex2Reduced:
+        state._SingleDomainWarpOpenSimplex2Gradient(seed, amp * 16.0, freq, coord, true, x, y)
+        break
+      case FastNoiseLite.DomainWarpType.BasicGrid:
+        basicGrid2D(seed, amp, freq, coord, x, y)
+        break
+    }
+  }
+
+  const single3D = (seed: number, amp: number, freq: number, coord: WarpCoord3D, x: number, y: number, z: number) => {
+    switch (type) {
+      case FastNoiseLite.DomainWarpType.OpenSimplex2:
+        state._SingleDomainWarpOpenSimplex2Gradient(seed, amp * 32.69428253173828125, freq, coord, false, x, y, z)
+        break
+      case FastNoiseLite.DomainWarpType.OpenSimplex2Reduced:
+        state._SingleDomainWarpOpenSimplex2Gradient(seed, amp * 7.71604938271605, freq, coord, true, x, y, z)
+        break
+      case FastNoiseLite.DomainWarpType.BasicGrid:
+        basicGrid3D(seed, amp, freq, coord, x, y, z)
+        break
+    }
+  }
+
+  const skew2D = (coord: WarpCoord2D) => {
+    s2.x = coord.x
+    s2.y = coord.y
+    if (isOpenSimplex2) {
+      const t = (s2.x + s2.y) * F2
+      s2.x += t
+      s2.y += t
+    }
+  }
+
+  const transform3D = (coord: WarpCoord3D) => {
+    let xs = coord.x, ys = coord.y, zs = coord.z
+    switch (state._WarpTransformType3D) {
+      case TRANSFORM_XY: {
+        const xy = xs + ys
+        const s = xy * -0.211324865405187
+        zs *= 0.577350269189626
+        xs += s - zs
+        ys = ys + s - zs
+        zs += xy * 0.577350269189626
+        break
+      }
+      case TRANSFORM_XZ: {
+        const xz = xs + zs
+        const s = xz * -0.211324865405187
+        ys *= 0.577350269189626
+        xs += s - ys
+        zs += s - ys
+        ys += xz * 0.577350269189626
+        break
+      }
+      case TRANSFORM_OPEN_SIMPLEX2: {
+        const r = (xs + ys + zs) * (2 / 3) // Rotation, not skew
+        xs = r - xs
+        ys = r - ys
+        zs = r - zs
+        break
+      }
+    }
+    s3.x = xs
+    s3.y = ys
+    s3.z = zs
+  }
+
+  // Progressive re-skews the already warped point every octave; independent skews the input once
+  const warp2D = (coord: WarpCoord2D) => {
+    const fractal = state._FractalType
+    const octaves = fractal === FastNoiseLite.FractalType.DomainWarpProgressive || fractal === FastNoiseLite.FractalType.DomainWarpIndependent ? state._Octaves : 1
+    let seed = state._Seed
+    let amp = state._DomainWarpAmp * state._FractalBounding
+    let freq = state._Frequency
+    skew2D(coord)
+    for (let i = 0; i < octaves; i++) {
+      if (i > 0 && fractal === FastNoiseLite.FractalType.DomainWarpProgressive) skew2D(coord)
+      single2D(seed, amp, freq, coord, s2.x, s2.y)
+      seed++
+      amp *= state._Gain
+      freq *= state._Lacunarity
+    }
+  }
+
+  const warp3D = (coord: WarpCoord3D) => {
+    const fractal = state._FractalType
+    const octaves = fractal === FastNoiseLite.FractalType.DomainWarpProgressive || fractal === FastNoiseLite.FractalType.DomainWarpIndependent ? state._Octaves : 1
+    let seed = state._Seed
+    let amp = state._DomainWarpAmp * state._FractalBounding
+    let freq = state._Frequency
+    transform3D(coord)
+    for (let i = 0; i < octaves; i++) {
+      if (i > 0 && fractal === FastNoiseLite.FractalType.DomainWarpProgressive) transform3D(coord)
+      single3D(seed, amp, freq, coord, s3.x, s3.y, s3.z)
+      seed++
+      amp *= state._Gain
+      freq *= state._Lacunarity
+    }
+  }
+
+  return { warp2D, warp3D }
+}
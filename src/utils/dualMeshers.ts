@@ -0,0 +1,192 @@
+// Dual Meshers
+// Naive Surface Nets and Dual Contouring: one vertex per grid cell the surface passes through, joined into
+// a quad across every grid edge whose endpoints straddle the isolevel. Surface Nets puts the vertex at the
+// mean of the cell's edge crossings, which avoids the slivers of marching cubes; Dual Contouring solves a
+// QEF over the tangent planes at the crossings, so cliffs and terrace edges stay sharp.
+// Both return the same centered, indexed mesh as generateMarchingCubes.
+
+import { MeshBuilder, gradientAt, samplePaddedDensityGrid } from './marchingCubes'
+import type { MarchingCubesResult } from './marchingCubes'
+
+type VertexPlacement = 'mean' | 'qef'
+
+const QEF_BIAS = 0.05 // Pull toward the mass point; keeps flat and degenerate cells solvable
+
+// The 12 cell edges as corner pairs; corner bits are x | y << 1 | z << 2
+const CELL_EDGES: [number, number][] = []
+for (let axis = 0; axis < 3; axis++) {
+  for (let corner = 0; corner < 8; corner++) {
+    if (!(corner & (1 << axis))) CELL_EDGES.push([corner, corner | (1 << axis)])
+  }
+}
+
+export function generateSurfaceNets(
+  sizeX: number,
+  sizeY: number,
+  sizeZ: number,
+  densityFunction: (x: number, y: number, z: number) => number,
+  isolevel: number = 0.0
+): MarchingCubesResult {
+  return generateDualMesh(sizeX, sizeY, sizeZ, densityFunction, isolevel, 'mean')
+}
+
+export function generateDualContouring(
+  sizeX: number,
+  sizeY: number,
+  sizeZ: number,
+  densityFunction: (x: number, y: number, z: number) => number,
+  isolevel: number = 0.0
+): MarchingCubesResult {
+  return generateDualMesh(sizeX, sizeY, sizeZ, densityFunction, isolevel, 'qef')
+}
+
+function generateDualMesh(
+  sizeX: number,
+  sizeY: number,
+  sizeZ: number,
+  densityFunction: (x: number, y: number, z: number) => number,
+  isolevel: number,
+  placement: VertexPlacement
+): MarchingCubesResult {
+  // Air padding closes the surface over the chunk border, in 2D and 3D mode alike
+  const px = sizeX + 2, py = sizeY + 2, pz = sizeZ + 2
+  const field = samplePaddedDensityGrid(sizeX, sizeY, sizeZ, densityFunction)
+  const mesh = new MeshBuilder(sizeX, sizeY, sizeZ)
+
+  // Vertex index per cell (lower corner), -1 where the surface doesn't cross the cell
+  const cellsY = py - 1, cellsZ = pz - 1
+  const cellVertex = new Int32Array((px - 1) * cellsY * cellsZ).fill(-1)
+  const cornerOffsets = [0, 1, 2, 3, 4, 5, 6, 7].map(c => ((c & 1) * py + ((c >> 1) & 1)) * pz + ((c >> 2) & 1))
+  const values = new Float64Array(8)
+  const gradients = new Array<number>(6)
+  const points = new Float64Array(12 * 3) // Edge crossings of the current cell
+  const planeNormals = new Float64Array(12 * 3) // Unit density gradient at each crossing
+
+  for (let x = 0; x < px - 1; x++) {
+    for (let y = 0; y < py - 1; y++) {
+      for (let z = 0; z < pz - 1; z++) {
+        const point = (x * py + y) * pz + z
+        let solidCorners = 0
+        for (let c = 0; c < 8; c++) {
+          values[c] = field[point + cornerOffsets[c]]
+          if (values[c] < isolevel) solidCorners |= 1 << c
+        }
+        if (solidCorners === 0 || solidCorners === 255) continue
+
+        let count = 0
+        let massX = 0, massY = 0, massZ = 0, normalX = 0, normalY = 0, normalZ = 0
+        for (const [a, b] of CELL_EDGES) {
+          if (((solidCorners >> a) & 1) === ((solidCorners >> b) & 1)) continue
+          const t = (isolevel - values[a]) / (values[b] - values[a])
+          const ax = x + (a & 1), ay = y + ((a >> 1) & 1), az = z + ((a >> 2) & 1)
+          const bx = x + (b & 1), by = y + ((b >> 1) & 1), bz = z + ((b >> 2) & 1)
+          const i = count * 3
+          points[i] = ax + t * (bx - ax)
+          points[i + 1] = ay + t * (by - ay)
+          points[i + 2] = az + t * (bz - az)
+          massX += points[i]
+          massY += points[i + 1]
+          massZ += points[i + 2]
+
+          gradientAt(field, px, py, pz, ax, ay, az, gradients, 0)
+          gradientAt(field, px, py, pz, bx, by, bz, gradients, 3)
+          const nx = gradients[0] + t * (gradients[3] - gradients[0])
+          const ny = gradients[1] + t * (gradients[4] - gradients[1])
+          const nz = gradients[2] + t * (gradients[5] - gradients[2])
+          const length = Math.sqrt(nx * nx + ny * ny + nz * nz) || 1
+          planeNormals[i] = nx / length
+          planeNormals[i + 1] = ny / length
+          planeNormals[i + 2] = nz / length
+          normalX += planeNormals[i]
+          normalY += planeNormals[i + 1]
+          normalZ += planeNormals[i + 2]
+          count++
+        }
+        massX /= count
+        massY /= count
+        massZ /= count
+
+        let vx = massX, vy = massY, vz = massZ
+        if (placement === 'qef') {
+          const [dx, dy, dz] = solveQef(points, planeNormals, count, massX, massY, massZ)
+          // Keep the vertex inside its cell; a solution outside means the planes are nearly parallel
+          vx = clamp(massX + dx, x, x + 1)
+          vy = clamp(massY + dy, y, y + 1)
+          vz = clamp(massZ + dz, z, z + 1)
+        }
+
+        const length = Math.sqrt(normalX * normalX + normalY * normalY + normalZ * normalZ) || 1
+        cellVertex[(x * cellsY + y) * cellsZ + z] = mesh.addVertex(vx - 1, vy - 1, vz - 1, normalX / length, normalY / length, normalZ / length)
+      }
+    }
+  }
+
+  // A quad around every sign-changing edge, joining the four cells that share it. Edges lying in the padded
+  // border planes are air at both ends, so the loops stop short of the last plane and skip the first one
+  // across the edge; whenever an edge changes sign, the four cells exist.
+  const strides = [py * pz, pz, 1]
+  const cellStrides = [cellsY * cellsZ, cellsZ, 1]
+  const position = [0, 0, 0]
+  for (position[0] = 0; position[0] < px - 1; position[0]++) {
+    for (position[1] = 0; position[1] < py - 1; position[1]++) {
+      for (position[2] = 0; position[2] < pz - 1; position[2]++) {
+        const point = (position[0] * py + position[1]) * pz + position[2]
+        const solid = field[point] < isolevel
+        const cell = (position[0] * cellsY + position[1]) * cellsZ + position[2]
+        for (let d = 0; d < 3; d++) {
+          const u = (d + 1) % 3, v = (d + 2) % 3
+          if (position[u] === 0 || position[v] === 0) continue
+          if ((field[point + strides[d]] < isolevel) === solid) continue
+          // Cells around the edge, counter-clockwise seen from +d (e_u × e_v = e_d)
+          const c00 = cellVertex[cell - cellStrides[u] - cellStrides[v]]
+          const c10 = cellVertex[cell - cellStrides[v]]
+          const c11 = cellVertex[cell]
+          const c01 = cellVertex[cell - cellStrides[u]]
+          // The surface faces the air end of the edge
+          if (solid) {
+            mesh.addTriangle(c00, c10, c11)
+            mesh.addTriangle(c00, c11, c01)
+          } else {
+            mesh.addTriangle(c00, c11, c10)
+            mesh.addTriangle(c00, c01, c11)
+          }
+        }
+      }
+    }
+  }
+
+  return mesh.result()
+}
+
+// Offset from the mass point minimizing Σ (n·(x - p))² + QEF_BIAS·|x - m|² over the crossings' planes
+function solveQef(points: Float64Array, normals: Float64Array, count: number, massX: number, massY: number, massZ: number): [number, number, number] {
+  let a00 = QEF_BIAS, a01 = 0, a02 = 0, a11 = QEF_BIAS, a12 = 0, a22 = QEF_BIAS
+  let b0 = 0, b1 = 0, b2 = 0
+  for (let i = 0; i < count * 3; i += 3) {
+    const nx = normals[i], ny = normals[i + 1], nz = normals[i + 2]
+    const distance = nx * (points[i] - massX) + ny * (points[i + 1] - massY) + nz * (points[i + 2] - massZ)
+    a00 += nx * nx
+    a01 += nx * ny
+    a02 += nx * nz
+    a11 += ny * ny
+    a12 += ny * nz
+    a22 += nz * nz
+    b0 += nx * distance
+    b1 += ny * distance
+    b2 += nz * distance
+  }
+  // Symmetric 3×3 solve by Cramer's rule (the bias keeps the determinant positive)
+  const c00 = a11 * a22 - a12 * a12, c01 = a02 * a12 - a01 * a22, c02 = a01 * a12 - a02 * a11
+  const determinant = a00 * c00 + a01 * c01 + a02 * c02
+  if (Math.abs(determinant) < 1e-12) return [0, 0, 0]
+  const c11 = a00 * a22 - a02 * a02, c12 = a01 * a02 - a00 * a12, c22 = a00 * a11 - a01 * a01
+  return [
+    (c00 * b0 + c01 * b1 + c02 * b2) / determinant,
+    (c01 * b0 + c11 * b1 + c12 * b2) / determinant,
+    (c02 * b0 + c12 * b1 + c22 * b2) / determinant
+  ]
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
@@ -0,0 +1,213 @@
+// Erosion
+// Droplet-based hydraulic erosion on the 2D heightmap. Each droplet rolls downhill from a random start,
+// picks up sediment while it speeds up and drops it when it slows down or evaporates.
+// The async runner works through droplets in small time slices so large maps don't block the UI.
+
+export interface HydraulicErosionSettings {
+  enabled: boolean
+  seed: number
+  iterations: number // Droplets to simulate
+  erosionRate: number // Fraction of free capacity taken from the ground per step
+  depositionRate: number // Fraction of excess sediment dropped per step
+  inertia: number // 0 = always follows the slope, 1 = never turns
+  evaporation: number // Water lost per step (0..1)
+  capacity: number // Sediment a droplet can carry per unit of speed, water and slope
+  radius: number // Erosion brush radius in cells
+}
+
+export interface Heightmap {
+  width: number // Cells along X
+  depth: number // Cells along Z
+  originX: number // Chunk-local coordinate of cell (0, 0)
+  originZ: number
+  heights: Float32Array // Row-major by X: index = x * depth + z
+}
+
+// Chunk heightmap before and (once finished) after erosion and the heightmap filters, shown by the preview's before/after toggle
+export interface ErosionPreview {
+  before: Heightmap
+  after: Heightmap | null // null while the erosion is running
+  progress: number // 0..1
+  sizeX: number // Chunk size the maps were sampled for
+  sizeY: number
+  sizeZ: number
+}
+
+export interface ErosionJob {
+  cancelled: boolean
+}
+
+const MAX_LIFETIME = 40 // Steps before a droplet dies
+const MIN_SLOPE = 0.01 // Keeps some capacity on flat ground
+const GRAVITY = 4
+const TIME_SLICE_MS = 12 // Work per slice before yielding back to the browser
+const DROPLET_BATCH = 32 // Droplets between clock checks
+
+export function createDefaultErosionSettings(): HydraulicErosionSettings {
+  return {
+    enabled: false,
+    seed: 1,
+    iterations: 4000,
+    erosionRate: 0.3,
+    depositionRate: 0.3,
+    inertia: 0.05,
+    evaporation: 0.02,
+    capacity: 4,
+    radius: 2
+  }
+}
+
+// Samples `heightAt` on a grid around the chunk; `padding` cells on each side keep droplets from piling up at the edges
+export function sampleHeightmap(heightAt: (x: number, z: number) => number, sizeX: number, sizeZ: number, padding: number): Heightmap {
+  const width = sizeX + padding * 2 + 1
+  const depth = sizeZ + padding * 2 + 1
+  const heights = new Float32Array(width * depth)
+  for (let x = 0; x < width; x++) {
+    for (let z = 0; z < depth; z++) {
+      heights[x * depth + z] = heightAt(x - padding, z - padding)
+    }
+  }
+  return { width, depth, originX: -padding, originZ: -padding, heights }
+}
+
+// Height function reading the map (bilinear between cells), `fallback` outside it
+export function createHeightmapLookup(map: Heightmap, fallback: (x: number, z: number) => number): (x: number, z: number) => number {
+  const { width, depth, originX, originZ, heights } = map
+  return (x, z) => {
+    const gx = x - originX, gz = z - originZ
+    if (gx < 0 || gz < 0 || gx > width - 1 || gz > depth - 1) return fallback(x, z)
+    const x0 = Math.min(Math.floor(gx), width - 2), z0 = Math.min(Math.floor(gz), depth - 2)
+    const u = gx - x0, v = gz - z0
+    const i = x0 * depth + z0
+    return (heights[i] * (1 - u) + heights[i + depth] * u) * (1 - v) + (heights[i + 1] * (1 - u) + heights[i + depth + 1] * u) * v
+  }
+}
+
+// Deterministic [0, 1) random numbers (mulberry32)
+function createRandom(seed: number): () => number {
+  let state = seed | 0
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Cell offsets and weights of a circular brush, weights summing to 1
+function createBrush(radius: number): { offsets: [number, number][], weights: number[] } {
+  const offsets: [number, number][] = []
+  const weights: number[] = []
+  const r = Math.max(1, Math.round(radius))
+  let total = 0
+  for (let dx = -r; dx <= r; dx++) {
+    for (let dz = -r; dz <= r; dz++) {
+      const distance = Math.sqrt(dx * dx + dz * dz)
+      if (distance > r) continue
+      const weight = 1 - distance / (r + 1)
+      offsets.push([dx, dz])
+      weights.push(weight)
+      total += weight
+    }
+  }
+  return { offsets, weights: weights.map(weight => weight / total) }
+}
+
+// Height and gradient at a fractional position (bilinear)
+function heightAndGradient(map: Heightmap, x: number, z: number): [number, number, number] {
+  const { depth, heights } = map
+  const cx = Math.floor(x), cz = Math.floor(z)
+  const u = x - cx, v = z - cz
+  const i = cx * depth + cz
+  const h00 = heights[i], h10 = heights[i + depth], h01 = heights[i + 1], h11 = heights[i + depth + 1]
+  const gradientX = (h10 - h00) * (1 - v) + (h11 - h01) * v
+  const gradientZ = (h01 - h00) * (1 - u) + (h11 - h10) * u
+  return [h00 * (1 - u) * (1 - v) + h10 * u * (1 - v) + h01 * (1 - u) * v + h11 * u * v, gradientX, gradientZ]
+}
+
+// Simulates droplets [start, end) in place
+function simulateDroplets(map: Heightmap, settings: HydraulicErosionSettings, brush: ReturnType<typeof createBrush>, random: () => number, start: number, end: number) {
+  const { width, depth, heights } = map
+  const { erosionRate, depositionRate, inertia, evaporation, capacity } = settings
+
+  for (let droplet = start; droplet < end; droplet++) {
+    let x = random() * (width - 1), z = random() * (depth - 1)
+    let dirX = 0, dirZ = 0
+    let speed = 1, water = 1, sediment = 0
+
+    for (let step = 0; step < MAX_LIFETIME; step++) {
+      const cellX = Math.floor(x), cellZ = Math.floor(z)
+      const u = x - cellX, v = z - cellZ
+      const [height, gradientX, gradientZ] = heightAndGradient(map, x, z)
+
+      // Blend the previous direction with the downhill direction
+      dirX = dirX * inertia - gradientX * (1 - inertia)
+      dirZ = dirZ * inertia - gradientZ * (1 - inertia)
+      const length = Math.sqrt(dirX * dirX + dirZ * dirZ)
+      if (length === 0) break // Flat ground, nowhere to go
+      dirX /= length
+      dirZ /= length
+      x += dirX
+      z += dirZ
+      if (x < 0 || z < 0 || x >= width - 1 || z >= depth - 1) break // Left the map
+
+      const heightDelta = heightAndGradient(map, x, z)[0] - height
+      const sedimentCapacity = Math.max(-heightDelta * speed * water * capacity, MIN_SLOPE)
+      const index = cellX * depth + cellZ
+
+      if (sediment > sedimentCapacity || heightDelta > 0) {
+        // Uphill: fill the pit behind the droplet; otherwise drop part of the excess
+        const amount = heightDelta > 0 ? Math.min(heightDelta, sediment) : (sediment - sedimentCapacity) * depositionRate
+        sediment -= amount
+        heights[index] += amount * (1 - u) * (1 - v)
+        heights[index + depth] += amount * u * (1 - v)
+        heights[index + 1] += amount * (1 - u) * v
+        heights[index + depth + 1] += amount * u * v
+      } else {
+        // Erode with the brush, never digging deeper than the drop in height
+        const amount = Math.min((sedimentCapacity - sediment) * erosionRate, -heightDelta)
+        for (let b = 0; b < brush.offsets.length; b++) {
+          const bx = cellX + brush.offsets[b][0], bz = cellZ + brush.offsets[b][1]
+          if (bx < 0 || bz < 0 || bx >= width || bz >= depth) continue
+          heights[bx * depth + bz] -= amount * brush.weights[b]
+          sediment += amount * brush.weights[b]
+        }
+      }
+
+      speed = Math.sqrt(Math.max(0, speed * speed - heightDelta * GRAVITY))
+      water *= 1 - evaporation
+    }
+  }
+}
+
+// Copy of `map` with every height multiplied by `factor`
+function scaleHeightmap(map: Heightmap, factor: number): Heightmap {
+  return { ...map, heights: map.heights.map(height => height * factor) }
+}
+
+// Erodes a copy of `map` in time slices; resolves to null when the job is cancelled. Heights are divided by
+// `heightScale` (the chunk height) while simulating, so the rates behave the same for any chunk height.
+export async function erodeHydraulicAsync(
+  map: Heightmap,
+  settings: HydraulicErosionSettings,
+  heightScale: number,
+  job: ErosionJob,
+  onProgress?: (fraction: number) => void
+): Promise<Heightmap | null> {
+  const result = scaleHeightmap(map, 1 / heightScale)
+  const brush = createBrush(settings.radius)
+  const random = createRandom(settings.seed)
+  let done = 0
+  while (done < settings.iterations) {
+    const start = performance.now()
+    while (done < settings.iterations && performance.now() - start < TIME_SLICE_MS) {
+      const end = Math.min(settings.iterations, done + DROPLET_BATCH)
+      simulateDroplets(result, settings, brush, random, done, end)
+      done = end
+    }
+    onProgress?.(done / settings.iterations)
+    await new Promise(resolve => setTimeout(resolve, 0))
+    if (job.cancelled) return null
+  }
+  return scaleHeightmap(result, heightScale)
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { FEATURE_MARGIN, createDefaultFeatureSettings, createFeatureRule, placeFeatures } from './features'
+import { createChunkHeightFunction, createChunkSamplerOptions, getHeightmapProcessing } from './chunkGenerator'
+import { createDefaultErosionSettings } from './erosion'
+import { createHeightmapFilter } from './heightmapFilters'
+import { createNoiseSampler } from './noiseSampler'
+import type { ChunkGenerationSettings } from './chunkGenerator'
+import type { FeatureSurface } from './features'
+
+const SIZE = 32
+const features = {
+  ...createDefaultFeatureSettings(),
+  enabled: true,
+  features: [createFeatureRule({ minDistance: 3, coverage: 1, densityThreshold: -1, maxSlope: 3 })]
+}
+
+// A world chunk with erosion and filters switched on in the panels
+function worldChunk(offsetX: number): ChunkGenerationSettings {
+  const settings: ChunkGenerationSettings = {
+    sizeX: SIZE, sizeY: SIZE, sizeZ: SIZE, amplitude: 16, verticalOffset: 16, mathExpression: 'N', offsetX, offsetZ: 0,
+    isolevel: 0, use3D: false, isSmooth: false, smoothMesher: 'marchingCubes', blocksEnabled: false, seaLevel: -1, beachWidth: 0,
+    seamless: true, heightmap: null
+  }
+  const erosion = { ...createDefaultErosionSettings(), enabled: true }
+  const filters = { enabled: true, filters: [createHeightmapFilter('thermal')] }
+  expect(getHeightmapProcessing(settings, erosion, filters)).toEqual({ hydraulic: false, filters: false })
+  return settings
+}
+
+// Surface the way the chunk builds it for 2D terrain
+function chunkSurface(settings: ChunkGenerationSettings): FeatureSurface {
+  const heightAt = createChunkHeightFunction(settings, createNoiseSampler(settings.noiseSettings, createChunkSamplerOptions(settings)))
+  const height = (x: number, z: number) => Math.floor(heightAt(x, z))
+  return {
+    height,
+    slope: (x, z) => Math.max(...[[1, 0], [-1, 0], [0, 1], [0, -1]].map(([dx, dz]) => Math.abs(height(x, z) - height(x + dx, z + dz)))),
+    biome: () => undefined
+  }
+}
+
+// Features rooted in world X range [fromX, toX), as "x,y,z" in world coordinates
+function placedBetween(offsetX: number, fromX: number, toX: number): string[] {
+  const settings = worldChunk(offsetX)
+  return placeFeatures(features, chunkSurface(settings), SIZE, SIZE, SIZE, offsetX, 0)
+    .map(feature => ({ ...feature, x: feature.x + offsetX }))
+    .filter(feature => feature.x >= fromX && feature.x < toX)
+    .map(feature => `${feature.x},${feature.y},${feature.z}`)
+    .sort()
+}
+
+describe('placeFeatures', () => {
+  it('places the same features along a seam in both world chunks', () => {
+    // Both chunks place features rooted within the margin around their shared border
+    const fromX = SIZE - FEATURE_MARGIN, toX = SIZE + FEATURE_MARGIN
+    const left = placedBetween(0, fromX, toX)
+    const right = placedBetween(SIZE, fromX, toX)
+    expect(left.length).toBeGreaterThan(0)
+    expect(right).toEqual(left)
+  })
+})
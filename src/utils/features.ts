@@ -0,0 +1,249 @@
+// Features
+// Decoration placement (trees, rocks): Poisson-disc style scattering modulated by a density noise,
+// filtered by slope/height/biome rules and snapped to the terrain surface.
+//
+// Points come from a world-space grid with one hashed candidate per cell (cell size = min distance).
+// A candidate survives when no live neighbour within the min distance has a higher hashed rank, so
+// the result only depends on the seed and world position: chunks with different offsets agree.
+
+import { createNoiseSampler } from './noiseSampler'
+import type { NoiseSettings } from './noiseEngines'
+import type { BlockType } from './blockTypes'
+
+export type FeatureTemplate = 'tree' | 'pine' | 'rock'
+
+export const FEATURE_TEMPLATES: FeatureTemplate[] = ['tree', 'pine', 'rock']
+
+export interface FeatureRule {
+  id: string
+  name: string
+  enabled: boolean
+  template: FeatureTemplate
+  minDistance: number // Blocks between features of this rule
+  coverage: number // 0..1 chance a candidate spawns where the density noise is high
+  densityFrequency: number
+  densityThreshold: number // Density noise (-1..1) around which spawning fades in
+  minHeight?: number // % of the chunk height
+  maxHeight?: number
+  maxSlope?: number // Largest height step to a neighbouring column, in blocks
+  biome?: string // Biome id; any biome when unset
+}
+
+export interface FeatureSettings {
+  enabled: boolean
+  seed: number
+  features: FeatureRule[]
+}
+
+// One voxel of a template relative to the feature origin (the block above the surface)
+export interface TemplateVoxel {
+  dx: number
+  dy: number
+  dz: number
+  block: BlockType
+}
+
+export interface PlacedFeature {
+  ruleId: string
+  template: FeatureTemplate
+  x: number // Chunk-local block coordinates of the origin
+  y: number
+  z: number
+  variant: number // 0..1 hash for size variation
+}
+
+// Where features can be snapped; returns null where there is no surface
+export interface FeatureSurface {
+  height(x: number, z: number): number | null // Y of the top solid block (chunk-local x/z)
+  slope(x: number, z: number): number
+  biome(x: number, z: number): string | undefined
+}
+
+let nextFeatureId = 1
+
+export function createFeatureRule(overrides: Partial<FeatureRule> = {}): FeatureRule {
+  const id = nextFeatureId++
+  return {
+    id: `feature-${id}-${Date.now().toString(36)}`,
+    name: `Feature ${id}`,
+    enabled: true,
+    template: 'tree',
+    minDistance: 6,
+    coverage: 0.8,
+    densityFrequency: 0.03,
+    densityThreshold: 0,
+    ...overrides
+  }
+}
+
+export function createDefaultFeatureSettings(): FeatureSettings {
+  return {
+    enabled: false,
+    seed: 2024,
+    features: [
+      createFeatureRule({ name: 'Oak', template: 'tree', minDistance: 6, coverage: 0.7, densityThreshold: 0, maxSlope: 2, maxHeight: 65 }),
+      createFeatureRule({ name: 'Pine', template: 'pine', minDistance: 5, coverage: 0.8, densityThreshold: 0.2, maxSlope: 2, minHeight: 45 }),
+      createFeatureRule({ name: 'Rock', template: 'rock', minDistance: 9, coverage: 0.5, densityFrequency: 0.05, densityThreshold: -0.3 })
+    ]
+  }
+}
+
+// Integer hash of (seed, x, z, salt) to [0, 1)
+function hash(seed: number, x: number, z: number, salt: number): number {
+  let h = seed ^ Math.imul(x, 0x27d4eb2d) ^ Math.imul(z, 0x165667b1) ^ Math.imul(salt, 0x9e3779b9)
+  h = Math.imul(h ^ (h >>> 15), 0x85ebca6b)
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35)
+  h ^= h >>> 16
+  return (h >>> 0) / 4294967296
+}
+
+const smoothstep = (e0: number, e1: number, x: number) => {
+  const t = Math.min(1, Math.max(0, (x - e0) / (e1 - e0)))
+  return t * t * (3 - 2 * t)
+}
+
+function densitySettings(base: NoiseSettings | undefined, seed: number, frequency: number): NoiseSettings {
+  return {
+    ...(base ?? {} as NoiseSettings),
+    noiseType: 'OpenSimplex2',
+    seed,
+    frequency,
+    fractalType: 'None',
+    domainWarpAmp: 0,
+    domainWarpFractalType: 'None'
+  }
+}
+
+// Biggest horizontal reach of any template, so features rooted just outside a chunk still show inside it
+export const FEATURE_MARGIN = 3
+
+export function placeFeatures(
+  settings: FeatureSettings,
+  surface: FeatureSurface,
+  sizeX: number,
+  sizeY: number,
+  sizeZ: number,
+  offsetX = 0,
+  offsetZ = 0,
+  noiseSettings?: NoiseSettings
+): PlacedFeature[] {
+  const placed: PlacedFeature[] = []
+
+  settings.features.forEach((rule, ruleIndex) => {
+    if (!rule.enabled) return
+    const seed = (settings.seed * 31 + ruleIndex * 7919) | 0
+    const density = createNoiseSampler(densitySettings(noiseSettings, seed, rule.densityFrequency), { offsetX, offsetZ })
+    const cell = Math.max(1, rule.minDistance)
+
+    // Candidate of a world cell, or null if its spawn roll or the rule filters reject it
+    const cache = new Map<string, { x: number, z: number, rank: number } | null>()
+    const candidate = (cx: number, cz: number) => {
+      const key = `${cx},${cz}`
+      if (cache.has(key)) return cache.get(key)!
+      const worldX = Math.floor((cx + hash(seed, cx, cz, 1)) * cell)
+      const worldZ = Math.floor((cz + hash(seed, cx, cz, 2)) * cell)
+      const x = Math.floor(worldX - offsetX), z = Math.floor(worldZ - offsetZ) // Chunk-local (offsets may be fractional)
+      let result: { x: number, z: number, rank: number } | null = null
+      const chance = rule.coverage * smoothstep(rule.densityThreshold - 0.25, rule.densityThreshold + 0.25, density.noise2D(x, z))
+      if (hash(seed, cx, cz, 3) < chance) {
+        const height = surface.height(x, z)
+        const heightPercent = height === null ? 0 : (height / sizeY) * 100
+        const ok = height !== null
+          && (rule.minHeight === undefined || heightPercent >= rule.minHeight)
+          && (rule.maxHeight === undefined || heightPercent <= rule.maxHeight)
+          && (rule.maxSlope === undefined || surface.slope(x, z) <= rule.maxSlope)
+          && (!rule.biome || surface.biome(x, z) === rule.biome)
+        if (ok) result = { x, z, rank: hash(seed, cx, cz, 4) }
+      }
+      cache.set(key, result)
+      return result
+    }
+
+    const minCellX = Math.floor((offsetX - FEATURE_MARGIN) / cell)
+    const maxCellX = Math.floor((offsetX + sizeX + FEATURE_MARGIN) / cell)
+    const minCellZ = Math.floor((offsetZ - FEATURE_MARGIN) / cell)
+    const maxCellZ = Math.floor((offsetZ + sizeZ + FEATURE_MARGIN) / cell)
+    const minDistanceSq = rule.minDistance * rule.minDistance
+
+    for (let cx = minCellX; cx <= maxCellX; cx++) {
+      for (let cz = minCellZ; cz <= maxCellZ; cz++) {
+        const point = candidate(cx, cz)
+        if (!point) continue
+        if (point.x < -FEATURE_MARGIN || point.x >= sizeX + FEATURE_MARGIN || point.z < -FEATURE_MARGIN || point.z >= sizeZ + FEATURE_MARGIN) continue
+        // Cell size equals the min distance, so conflicts can only come from the 8 neighbours
+        let blocked = false
+        for (let nx = cx - 1; nx <= cx + 1 && !blocked; nx++) {
+          for (let nz = cz - 1; nz <= cz + 1 && !blocked; nz++) {
+            if (nx === cx && nz === cz) continue
+            const other = candidate(nx, nz)
+            if (!other || other.rank <= point.rank) continue
+            const dx = other.x - point.x, dz = other.z - point.z
+            if (dx * dx + dz * dz < minDistanceSq) blocked = true
+          }
+        }
+        if (blocked) continue
+        placed.push({
+          ruleId: rule.id,
+          template: rule.template,
+          x: point.x,
+          y: surface.height(point.x, point.z)! + 1,
+          z: point.z,
+          variant: hash(seed, cx, cz, 5)
+        })
+      }
+    }
+  })
+
+  return placed
+}
+
+// Voxels of a template; `variant` picks the size
+export function buildTemplate(template: FeatureTemplate, variant: number): TemplateVoxel[] {
+  const voxels: TemplateVoxel[] = []
+  switch (template) {
+    case 'tree': {
+      const trunk = 3 + Math.floor(variant * 3)
+      for (let dy = 0; dy < trunk; dy++) voxels.push({ dx: 0, dy, dz: 0, block: 'wood' })
+      const radius = 2
+      for (let dx = -radius; dx <= radius; dx++) {
+        for (let dy = -1; dy <= radius; dy++) {
+          for (let dz = -radius; dz <= radius; dz++) {
+            if (dx * dx + dy * dy + dz * dz > radius * radius + 1) continue
+            if (dx === 0 && dz === 0 && dy < 0) continue
+            voxels.push({ dx, dy: trunk + dy, dz, block: 'leaves' })
+          }
+        }
+      }
+      break
+    }
+    case 'pine': {
+      const trunk = 5 + Math.floor(variant * 3)
+      for (let dy = 0; dy < trunk; dy++) voxels.push({ dx: 0, dy, dz: 0, block: 'wood' })
+      // Cone of leaves narrowing towards the top
+      for (let dy = 2; dy <= trunk; dy++) {
+        const radius = Math.max(0, Math.round((trunk - dy) / 2.5))
+        for (let dx = -radius; dx <= radius; dx++) {
+          for (let dz = -radius; dz <= radius; dz++) {
+            if (Math.abs(dx) + Math.abs(dz) > radius) continue
+            if (dx === 0 && dz === 0 && dy < trunk) continue
+            voxels.push({ dx, dy, dz, block: 'leaves' })
+          }
+        }
+      }
+      break
+    }
+    case 'rock': {
+      const radius = variant < 0.5 ? 1 : 1.5
+      for (let dx = -2; dx <= 2; dx++) {
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dz = -2; dz <= 2; dz++) {
+            if (dx * dx + dy * dy * 2 + dz * dz > radius * radius + 0.5) continue
+            voxels.push({ dx, dy, dz, block: (dx + dz + dy) % 3 === 0 ? 'gravel' : 'stone' })
+          }
+        }
+      }
+      break
+    }
+  }
+  return voxels
+}
@@ -0,0 +1,127 @@
+// Greedy Mesher
+// Builds one mesh for a voxel chunk by merging coplanar visible faces of the same color into rectangles
+// (Lysenko's greedy meshing). Faces between two solid voxels are never emitted; faces on the chunk
+// border are, so a single chunk looks the same as with one instanced box per voxel.
+
+export type BlockyMesher = 'instanced' | 'greedy'
+
+export const BLOCKY_MESHERS: BlockyMesher[] = ['instanced', 'greedy']
+
+// Blocky mesh size reported for the current chunk
+export interface MeshStats {
+  mesher: BlockyMesher
+  voxels: number // Voxels drawn: instances left after culling buried ones, or every solid voxel for the greedy mesh
+  totalVoxels: number // Solid voxels in the chunk
+  faces: number // Quads sent to the GPU: 6 per instance, or the merged greedy quads
+}
+
+export interface GreedyMeshResult {
+  vertices: Float32Array
+  normals: Float32Array
+  colors: Float32Array // Linear RGB per vertex
+  indices: Uint32Array
+  quadCount: number // Merged quads
+  exposedFaceCount: number // Visible voxel faces before merging
+}
+
+// `voxels` holds a color id + 1 per cell (0 = empty), indexed (x * sizeY + y) * sizeZ + z like the chunk's grids.
+// `palette` holds linear RGB triples per color id. The mesh is centered like the chunk's cubes.
+export function greedyMeshVoxels(voxels: Uint16Array, sizeX: number, sizeY: number, sizeZ: number, palette: ArrayLike<number>): GreedyMeshResult {
+  const dims = [sizeX, sizeY, sizeZ]
+  const vertices: number[] = []
+  const normals: number[] = []
+  const colors: number[] = []
+  const indices: number[] = []
+  let exposedFaceCount = 0
+
+  const at = (x: number, y: number, z: number) =>
+    x < 0 || y < 0 || z < 0 || x >= sizeX || y >= sizeY || z >= sizeZ ? 0 : voxels[(x * sizeY + y) * sizeZ + z]
+
+  for (let d = 0; d < 3; d++) {
+    const u = (d + 1) % 3, v = (d + 2) % 3
+    const position = [0, 0, 0]
+    const step = [0, 0, 0]
+    step[d] = 1
+    // Signed color per cell of the slice: +id faces +d, -id faces -d, 0 = no face
+    const mask = new Int32Array(dims[u] * dims[v])
+
+    for (position[d] = -1; position[d] < dims[d];) {
+      // Faces on the plane between slice position[d] and position[d] + 1
+      let n = 0
+      for (position[v] = 0; position[v] < dims[v]; position[v]++) {
+        for (position[u] = 0; position[u] < dims[u]; position[u]++) {
+          const a = at(position[0], position[1], position[2])
+          const b = at(position[0] + step[0], position[1] + step[1], position[2] + step[2])
+          mask[n++] = a && !b ? a : b && !a ? -b : 0
+          if ((a === 0) !== (b === 0)) exposedFaceCount++
+        }
+      }
+      position[d]++
+
+      // Grow rectangles of equal mask values: first along u, then along v while the whole row matches
+      n = 0
+      for (let j = 0; j < dims[v]; j++) {
+        for (let i = 0; i < dims[u];) {
+          const value = mask[n]
+          if (value === 0) {
+            i++
+            n++
+            continue
+          }
+          let width = 1
+          while (i + width < dims[u] && mask[n + width] === value) width++
+          let height = 1
+          grow: for (; j + height < dims[v]; height++) {
+            for (let k = 0; k < width; k++) {
+              if (mask[n + k + height * dims[u]] !== value) break grow
+            }
+          }
+
+          const origin = [0, 0, 0]
+          origin[d] = position[d]
+          origin[u] = i
+          origin[v] = j
+          const du = [0, 0, 0], dv = [0, 0, 0]
+          du[u] = width
+          dv[v] = height
+          addQuad(origin, du, dv, d, value > 0)
+
+          const colorId = Math.abs(value) - 1
+          for (let corner = 0; corner < 4; corner++) {
+            colors.push(palette[colorId * 3], palette[colorId * 3 + 1], palette[colorId * 3 + 2])
+          }
+          for (let l = 0; l < height; l++) {
+            for (let k = 0; k < width; k++) mask[n + k + l * dims[u]] = 0
+          }
+          i += width
+          n += width
+        }
+      }
+    }
+  }
+
+  // Corners counter-clockwise seen from the face's side (e_u × e_v = e_d, so reversed for -d faces)
+  function addQuad(origin: number[], du: number[], dv: number[], d: number, positive: boolean) {
+    const base = vertices.length / 3
+    const corners = [origin, add(origin, du), add(add(origin, du), dv), add(origin, dv)]
+    corners.forEach(corner => vertices.push(corner[0] - sizeX / 2, corner[1] - sizeY / 2, corner[2] - sizeZ / 2))
+    const normal = [0, 0, 0]
+    normal[d] = positive ? 1 : -1
+    for (let corner = 0; corner < 4; corner++) normals.push(normal[0], normal[1], normal[2])
+    if (positive) indices.push(base, base + 1, base + 2, base, base + 2, base + 3)
+    else indices.push(base, base + 2, base + 1, base, base + 3, base + 2)
+  }
+
+  return {
+    vertices: new Float32Array(vertices),
+    normals: new Float32Array(normals),
+    colors: new Float32Array(colors),
+    indices: new Uint32Array(indices),
+    quadCount: indices.length / 6,
+    exposedFaceCount
+  }
+}
+
+function add(a: number[], b: number[]): number[] {
+  return [a[0] + b[0], a[1] + b[1], a[2] + b[2]]
+}
@@ -0,0 +1,80 @@
+// Height Curve
+// Piecewise spline mapping a noise value (-1..1) to terrain height (0..1 of the chunk height),
+// like Minecraft's continentalness/erosion splines. Replaces the linear amplitude/offset remap.
+
+import { evaluateCurve } from './nodeGraph'
+
+export type CurveInterpolation = 'linear' | 'cubic'
+
+export const CURVE_INTERPOLATIONS: CurveInterpolation[] = ['linear', 'cubic']
+
+export interface HeightCurve {
+  enabled: boolean
+  interpolation: CurveInterpolation
+  points: number[][] // [noise, height] pairs sorted by noise; height is a fraction of sizeY
+}
+
+export function createDefaultHeightCurve(): HeightCurve {
+  return {
+    enabled: false,
+    interpolation: 'cubic',
+    points: [[-1, 0.1], [-0.3, 0.22], [0.1, 0.3], [0.5, 0.55], [1, 0.8]]
+  }
+}
+
+export function sortCurvePoints(points: number[][]): number[][] {
+  return [...points].sort((a, b) => a[0] - b[0])
+}
+
+// Monotone cubic Hermite (Fritsch-Carlson): smooth, but never overshoots between points,
+// so flat plateaus stay flat
+function evaluateMonotoneCubic(points: number[][], value: number): number {
+  const n = points.length
+  if (value <= points[0][0]) return points[0][1]
+  if (value >= points[n - 1][0]) return points[n - 1][1]
+
+  let i = 1
+  while (i < n - 1 && value > points[i][0]) i++
+  const [x0, y0] = points[i - 1]
+  const [x1, y1] = points[i]
+  const h = x1 - x0
+  if (h <= 0) return y1
+
+  const slope = (a: number) => {
+    const dx = points[a + 1][0] - points[a][0]
+    return dx > 0 ? (points[a + 1][1] - points[a][1]) / dx : 0
+  }
+  const tangent = (k: number) => {
+    if (k === 0) return slope(0)
+    if (k === n - 1) return slope(n - 2)
+    const s0 = slope(k - 1), s1 = slope(k)
+    if (s0 * s1 <= 0) return 0 // Local extremum: keep it flat
+    return 3 * (s0 + s1) / ((2 * s1 + s0) / s0 + (s1 + 2 * s0) / s1) // Weighted harmonic mean
+  }
+
+  const t = (value - x0) / h
+  const t2 = t * t, t3 = t2 * t
+  return (2 * t3 - 3 * t2 + 1) * y0 + (t3 - 2 * t2 + t) * h * tangent(i - 1)
+    + (-2 * t3 + 3 * t2) * y1 + (t3 - t2) * h * tangent(i)
+}
+
+// Height fraction for a noise value; flat outside the first and last point
+export function evaluateHeightCurve(curve: HeightCurve, value: number): number {
+  const { points } = curve
+  if (points.length === 0) return 0
+  if (curve.interpolation === 'cubic' && points.length > 2) return evaluateMonotoneCubic(points, value)
+  return evaluateCurve(points, value)
+}
+
+// Counts of values per bin over [min, max]; out-of-range values land in the edge bins
+export function buildHistogram(values: ArrayLike<number>, bins: number, min = -1, max = 1): number[] {
+  const counts = new Array<number>(bins).fill(0)
+  const scale = bins / (max - min)
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i]
+    if (!isFinite(v)) continue
+    const bin = Math.min(bins - 1, Math.max(0, Math.floor((v - min) * scale)))
+    counts[bin]++
+  }
+  return counts
+}
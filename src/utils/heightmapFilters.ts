@@ -0,0 +1,194 @@
+// Heightmap Filters
+// Ordered post-process list for the 2D heightmap (after hydraulic erosion, before voxelization/meshing):
+// thermal erosion, blur, terrace and clamp. Each filter returns a new map.
+
+import type { Heightmap } from './erosion'
+
+export type HeightmapFilterType = 'thermal' | 'blur' | 'terrace' | 'clamp'
+
+export interface HeightmapFilter {
+  id: string
+  type: HeightmapFilterType
+  enabled: boolean
+  params: Record<string, number>
+}
+
+export interface HeightmapFilterSettings {
+  enabled: boolean
+  filters: HeightmapFilter[] // Applied top to bottom
+}
+
+export interface FilterParamDefinition {
+  key: string
+  label: string
+  step: number
+  min?: number
+  max?: number
+}
+
+export interface HeightmapFilterDefinition {
+  label: string
+  params: FilterParamDefinition[]
+  defaultParams: () => Record<string, number>
+}
+
+export const HEIGHTMAP_FILTER_TYPES: HeightmapFilterType[] = ['thermal', 'blur', 'terrace', 'clamp']
+
+export const FILTER_DEFINITIONS: Record<HeightmapFilterType, HeightmapFilterDefinition> = {
+  thermal: {
+    label: 'Thermal erosion',
+    params: [
+      { key: 'talusAngle', label: 'talus °', step: 1, min: 0, max: 89 },
+      { key: 'iterations', label: 'iter', step: 1, min: 0, max: 500 },
+      { key: 'rate', label: 'rate', step: 0.05, min: 0, max: 1 }
+    ],
+    defaultParams: () => ({ talusAngle: 40, iterations: 30, rate: 0.5 })
+  },
+  blur: {
+    label: 'Blur',
+    params: [
+      { key: 'radius', label: 'radius', step: 1, min: 1, max: 8 },
+      { key: 'strength', label: 'mix', step: 0.05, min: 0, max: 1 }
+    ],
+    defaultParams: () => ({ radius: 1, strength: 1 })
+  },
+  terrace: {
+    label: 'Terrace',
+    params: [
+      { key: 'step', label: 'step', step: 1, min: 1 }, // Blocks between terraces
+      { key: 'sharpness', label: 'sharp', step: 0.05, min: 0, max: 0.95 } // Share of each step that is flat
+    ],
+    defaultParams: () => ({ step: 4, sharpness: 0.6 })
+  },
+  clamp: {
+    label: 'Clamp',
+    params: [
+      { key: 'min', label: 'min %', step: 1, min: 0, max: 100 }, // % of the chunk height
+      { key: 'max', label: 'max %', step: 1, min: 0, max: 100 }
+    ],
+    defaultParams: () => ({ min: 10, max: 80 })
+  }
+}
+
+let nextFilterId = 1
+
+export function createHeightmapFilter(type: HeightmapFilterType, params?: Record<string, number>): HeightmapFilter {
+  return {
+    id: `${type}-${nextFilterId++}-${Date.now().toString(36)}`,
+    type,
+    enabled: true,
+    params: { ...FILTER_DEFINITIONS[type].defaultParams(), ...params }
+  }
+}
+
+export function createDefaultHeightmapFilterSettings(): HeightmapFilterSettings {
+  return {
+    enabled: false,
+    filters: [createHeightmapFilter('thermal')]
+  }
+}
+
+// Moves material from each cell to lower neighbours wherever the drop is steeper than the talus angle
+function thermalErosion(map: Heightmap, talusAngle: number, iterations: number, rate: number): Float32Array {
+  const { width, depth } = map
+  const heights = new Float32Array(map.heights)
+  const next = new Float32Array(heights.length)
+  const talus = Math.tan((Math.min(89, Math.max(0, talusAngle)) * Math.PI) / 180)
+  const neighbours = [[1, 0], [-1, 0], [0, 1], [0, -1], [1, 1], [1, -1], [-1, 1], [-1, -1]]
+  const drops = new Float32Array(neighbours.length)
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    next.set(heights)
+    for (let x = 0; x < width; x++) {
+      for (let z = 0; z < depth; z++) {
+        const index = x * depth + z
+        const height = heights[index]
+        let total = 0, steepest = 0
+        for (let n = 0; n < neighbours.length; n++) {
+          const nx = x + neighbours[n][0], nz = z + neighbours[n][1]
+          drops[n] = 0
+          if (nx < 0 || nz < 0 || nx >= width || nz >= depth) continue
+          const distance = n < 4 ? 1 : Math.SQRT2
+          const drop = height - heights[nx * depth + nz]
+          if (drop <= talus * distance) continue
+          drops[n] = drop
+          total += drop
+          steepest = Math.max(steepest, drop - talus * distance)
+        }
+        if (total === 0) continue
+        // Half the excess keeps the cell from ending up below its neighbours
+        const moved = rate * steepest / 2
+        next[index] -= moved
+        for (let n = 0; n < neighbours.length; n++) {
+          if (drops[n] === 0) continue
+          next[(x + neighbours[n][0]) * depth + z + neighbours[n][1]] += moved * drops[n] / total
+        }
+      }
+    }
+    heights.set(next)
+  }
+  return heights
+}
+
+// Separable box blur mixed with the input by `strength`
+function blur(map: Heightmap, radius: number, strength: number): Float32Array {
+  const { width, depth, heights } = map
+  const r = Math.max(1, Math.round(radius))
+  const pass = (source: Float32Array, alongX: boolean) => {
+    const out = new Float32Array(source.length)
+    for (let x = 0; x < width; x++) {
+      for (let z = 0; z < depth; z++) {
+        let sum = 0, count = 0
+        for (let k = -r; k <= r; k++) {
+          const sx = alongX ? x + k : x, sz = alongX ? z : z + k
+          if (sx < 0 || sz < 0 || sx >= width || sz >= depth) continue
+          sum += source[sx * depth + sz]
+          count++
+        }
+        out[x * depth + z] = sum / count
+      }
+    }
+    return out
+  }
+  const blurred = pass(pass(heights, true), false)
+  return blurred.map((value, i) => heights[i] + (value - heights[i]) * strength)
+}
+
+// Flat shelves every `step` blocks joined by ramps; sharpness 0 leaves the map unchanged
+function terrace(map: Heightmap, step: number, sharpness: number): Float32Array {
+  const size = Math.max(1, step)
+  const flat = Math.min(0.95, Math.max(0, sharpness))
+  return map.heights.map(height => {
+    const level = Math.floor(height / size)
+    const t = height / size - level
+    const ramp = Math.min(1, Math.max(0, (t - flat / 2) / (1 - flat)))
+    return (level + ramp) * size
+  })
+}
+
+export function applyHeightmapFilter(map: Heightmap, filter: HeightmapFilter, sizeY: number): Heightmap {
+  const p = { ...FILTER_DEFINITIONS[filter.type].defaultParams(), ...filter.params }
+  let heights: Float32Array
+  switch (filter.type) {
+    case 'thermal':
+      heights = thermalErosion(map, p.talusAngle, Math.round(p.iterations), p.rate)
+      break
+    case 'blur':
+      heights = blur(map, p.radius, p.strength)
+      break
+    case 'terrace':
+      heights = terrace(map, p.step, p.sharpness)
+      break
+    case 'clamp': {
+      const min = (p.min / 100) * sizeY, max = (p.max / 100) * sizeY
+      heights = map.heights.map(height => Math.min(max, Math.max(min, height)))
+      break
+    }
+  }
+  return { ...map, heights }
+}
+
+// Runs the enabled filters in order
+export function applyHeightmapFilters(map: Heightmap, settings: HeightmapFilterSettings, sizeY: number): Heightmap {
+  return settings.filters.reduce((current, filter) => filter.enabled ? applyHeightmapFilter(current, filter, sizeY) : current, map)
+}
@@ -310,83 +310,140 @@ export interface MarchingCubesResult {
   indices: Uint32Array
 }
 
-// Linear interpolation between two points
-function lerp(a: Vec3, b: Vec3, t: number): Vec3 {
-  return {
-    x: a.x + t * (b.x - a.x),
-    y: a.y + t * (b.y - a.y),
-    z: a.z + t * (b.z - a.z)
+// Corners of a cell relative to its lowest corner, in the order the tables use
+export const CORNER_OFFSETS = [
+  [0, 0, 0], [1, 0, 0], [1, 0, 1], [0, 0, 1], // Bottom
+  [0, 1, 0], [1, 1, 0], [1, 1, 1], [0, 1, 1]  // Top
+]
+
+// Edge endpoints (lower corner first) and the axis each edge runs along (0 = x, 1 = y, 2 = z)
+export const EDGE_CORNERS = [
+  [0, 1], [1, 2], [3, 2], [0, 3], // Bottom face
+  [4, 5], [5, 6], [7, 6], [4, 7], // Top face
+  [0, 4], [1, 5], [2, 6], [3, 7]  // Vertical edges
+]
+export const EDGE_AXES = [0, 2, 0, 2, 0, 2, 0, 2, 1, 1, 1, 1]
+
+// Growable typed output; vertices are centered around the origin as they are added
+export class MeshBuilder {
+  vertices = new Float32Array(3 * 4096)
+  normals = new Float32Array(3 * 4096)
+  indices = new Uint32Array(3 * 8192)
+  vertexCount = 0
+  indexCount = 0
+  private center: [number, number, number]
+
+  constructor(sizeX: number, sizeY: number, sizeZ: number) {
+    this.center = [sizeX / 2 - 0.5, sizeY / 2 - 0.5, sizeZ / 2 - 0.5]
+  }
+
+  addVertex(x: number, y: number, z: number, nx: number, ny: number, nz: number): number {
+    if ((this.vertexCount + 1) * 3 > this.vertices.length) {
+      this.vertices = grow(this.vertices)
+      this.normals = grow(this.normals)
+    }
+    const i = this.vertexCount * 3
+    this.vertices[i] = x - this.center[0]
+    this.vertices[i + 1] = y - this.center[1]
+    this.vertices[i + 2] = z - this.center[2]
+    this.normals[i] = nx
+    this.normals[i + 1] = ny
+    this.normals[i + 2] = nz
+    return this.vertexCount++
+  }
+
+  addTriangle(a: number, b: number, c: number) {
+    if (this.indexCount + 3 > this.indices.length) this.indices = grow(this.indices)
+    this.indices[this.indexCount++] = a
+    this.indices[this.indexCount++] = b
+    this.indices[this.indexCount++] = c
   }
-}
 
-// Get vertex on edge by interpolation
-function getVertexOnEdge(edge: number, cubePos: Vec3, values: number[], isolevel: number): Vec3 {
-  // Edge to vertex mapping
-  const edgeVertices = [
-    [0, 1], [1, 2], [2, 3], [3, 0], // Bottom face
-    [4, 5], [5, 6], [6, 7], [7, 4], // Top face
-    [0, 4], [1, 5], [2, 6], [3, 7]  // Vertical edges
-  ]
-  
-  // Cube vertex positions (relative to cube corner)
-  const cubeVertices = [
-    { x: 0, y: 0, z: 0 }, { x: 1, y: 0, z: 0 }, { x: 1, y: 0, z: 1 }, { x: 0, y: 0, z: 1 }, // Bottom
-    { x: 0, y: 1, z: 0 }, { x: 1, y: 1, z: 0 }, { x: 1, y: 1, z: 1 }, { x: 0, y: 1, z: 1 }  // Top
-  ]
-  
-  const [v1, v2] = edgeVertices[edge]
-  const val1 = values[v1]
-  const val2 = values[v2]
-  
-  // Linear interpolation factor
-  const t = (isolevel - val1) / (val2 - val1)
-  
-  const pos1 = {
-    x: cubePos.x + cubeVertices[v1].x,
-    y: cubePos.y + cubeVertices[v1].y,
-    z: cubePos.z + cubeVertices[v1].z
+  // Unshared triangle with one flat normal
+  addFlatTriangle(v1: Vec3, v2: Vec3, v3: Vec3, normal: Vec3) {
+    const a = this.addVertex(v1.x, v1.y, v1.z, normal.x, normal.y, normal.z)
+    const b = this.addVertex(v2.x, v2.y, v2.z, normal.x, normal.y, normal.z)
+    const c = this.addVertex(v3.x, v3.y, v3.z, normal.x, normal.y, normal.z)
+    this.addTriangle(a, b, c)
   }
-  
-  const pos2 = {
-    x: cubePos.x + cubeVertices[v2].x,
-    y: cubePos.y + cubeVertices[v2].y,
-    z: cubePos.z + cubeVertices[v2].z
+
+  result(): MarchingCubesResult {
+    return {
+      vertices: this.vertices.slice(0, this.vertexCount * 3),
+      normals: this.normals.slice(0, this.vertexCount * 3),
+      indices: this.indices.slice(0, this.indexCount)
+    }
   }
-  
-  return lerp(pos1, pos2, t)
 }
 
-// Calculate normal using finite differences
-function calculateNormal(x: number, y: number, z: number, densityFunction: (x: number, y: number, z: number) => number): Vec3 {
-  const epsilon = 0.01
-  
-  const nx = densityFunction(x + epsilon, y, z) - densityFunction(x - epsilon, y, z)
-  const ny = densityFunction(x, y + epsilon, z) - densityFunction(x, y - epsilon, z)
-  const nz = densityFunction(x, y, z + epsilon) - densityFunction(x, y, z - epsilon)
-  
-  // Normalize
-  const length = Math.sqrt(nx * nx + ny * ny + nz * nz)
-  if (length > 0) {
-    return { x: nx / length, y: ny / length, z: nz / length }
+function grow<T extends Float32Array | Uint32Array>(array: T): T {
+  const next = new (array.constructor as new (length: number) => T)(array.length * 2)
+  next.set(array)
+  return next
+}
+
+// Density sampled once per grid point; index = (x * sizeY + y) * sizeZ + z like the chunk grids
+export function sampleDensityGrid(
+  sizeX: number,
+  sizeY: number,
+  sizeZ: number,
+  densityFunction: (x: number, y: number, z: number) => number
+): Float32Array {
+  const field = new Float32Array(sizeX * sizeY * sizeZ)
+  let i = 0
+  for (let x = 0; x < sizeX; x++) {
+    for (let y = 0; y < sizeY; y++) {
+      for (let z = 0; z < sizeZ; z++) {
+        field[i++] = densityFunction(x, y, z)
+      }
+    }
   }
-  return { x: 0, y: 1, z: 0 }
+  return field
 }
 
-// Simple boundary extension approach - extend the marching cubes grid
+// Density of the air assumed around a chunk's grid
+export const OUTSIDE_DENSITY = 10
+
+// Density grid with one layer of air on every side, (sizeX + 2) × (sizeY + 2) × (sizeZ + 2) points; padded
+// point (x, y, z) is grid point (x - 1, y - 1, z - 1). Meshing it closes the surface over the chunk border.
+export function samplePaddedDensityGrid(
+  sizeX: number,
+  sizeY: number,
+  sizeZ: number,
+  densityFunction: (x: number, y: number, z: number) => number
+): Float32Array {
+  return sampleDensityGrid(sizeX + 2, sizeY + 2, sizeZ + 2, (x, y, z) =>
+    x > 0 && y > 0 && z > 0 && x <= sizeX && y <= sizeY && z <= sizeZ ? densityFunction(x - 1, y - 1, z - 1) : OUTSIDE_DENSITY
+  )
+}
+
+// Density gradient at a grid point: central differences inside, one-sided on the grid border
+export function gradientAt(field: Float32Array, sizeX: number, sizeY: number, sizeZ: number, x: number, y: number, z: number, out: number[], offset: number) {
+  const strideX = sizeY * sizeZ, strideY = sizeZ
+  const i = (x * sizeY + y) * sizeZ + z
+  const difference = (coordinate: number, size: number, stride: number) => {
+    const low = coordinate > 0 ? i - stride : i
+    const high = coordinate < size - 1 ? i + stride : i
+    return high === low ? 0 : (field[high] - field[low]) / ((high - low) / stride)
+  }
+  out[offset] = difference(x, sizeX, strideX)
+  out[offset + 1] = difference(y, sizeY, strideY)
+  out[offset + 2] = difference(z, sizeZ, 1)
+}
+
+// Solid boundary cells around a 3D chunk: the grid is treated as surrounded by air, so the cells
+// just outside it close the surface. These faces get flat normals, unlike the shared smooth vertices.
 function addSimpleBoundaryFaces(
-  vertices: Vec3[],
-  normals: Vec3[],
-  indices: number[],
+  mesh: MeshBuilder,
   sizeX: number,
   sizeY: number,
   sizeZ: number,
-  densityFunction: (x: number, y: number, z: number) => number,
+  sample: (x: number, y: number, z: number) => number,
   isolevel: number
 ): void {
-  // Process boundary cubes that extend slightly outside the main grid
-  // This ensures boundary faces are generated by the regular marching cubes algorithm
-  
   const processExtraCubes = (startX: number, endX: number, startY: number, endY: number, startZ: number, endZ: number) => {
+    const values = new Array<number>(8)
+    const edgeVertices: Vec3[] = new Array(12)
     for (let x = startX; x < endX; x++) {
       for (let y = startY; y < endY; y++) {
         for (let z = startZ; z < endZ; z++) {
@@ -394,327 +451,234 @@ function addSimpleBoundaryFaces(
           if (x >= 0 && x < sizeX - 1 && y >= 0 && y < sizeY - 1 && z >= 0 && z < sizeZ - 1) {
             continue
           }
-          
-          // Sample density at 8 cube corners - extend density function beyond grid
-          const cubeValues = [
-            x >= 0 && y >= 0 && z >= 0 ? densityFunction(x, y, z) : 10,
-            x + 1 < sizeX && y >= 0 && z >= 0 ? densityFunction(x + 1, y, z) : 10,
-            x + 1 < sizeX && y >= 0 && z + 1 < sizeZ ? densityFunction(x + 1, y, z + 1) : 10,
-            x >= 0 && y >= 0 && z + 1 < sizeZ ? densityFunction(x, y, z + 1) : 10,
-            x >= 0 && y + 1 < sizeY && z >= 0 ? densityFunction(x, y + 1, z) : 10,
-            x + 1 < sizeX && y + 1 < sizeY && z >= 0 ? densityFunction(x + 1, y + 1, z) : 10,
-            x + 1 < sizeX && y + 1 < sizeY && z + 1 < sizeZ ? densityFunction(x + 1, y + 1, z + 1) : 10,
-            x >= 0 && y + 1 < sizeY && z + 1 < sizeZ ? densityFunction(x, y + 1, z + 1) : 10
-          ]
-          
-          // Determine cube configuration
+
           let cubeIndex = 0
           for (let i = 0; i < 8; i++) {
-            if (cubeValues[i] < isolevel) {
-              cubeIndex |= (1 << i)
-            }
+            const cx = x + CORNER_OFFSETS[i][0], cy = y + CORNER_OFFSETS[i][1], cz = z + CORNER_OFFSETS[i][2]
+            const inside = cx >= 0 && cy >= 0 && cz >= 0 && cx < sizeX && cy < sizeY && cz < sizeZ
+            values[i] = inside ? sample(cx, cy, cz) : OUTSIDE_DENSITY
+            if (values[i] < isolevel) cubeIndex |= (1 << i)
           }
-          
-          // Skip if cube is entirely inside or outside
           if (cubeIndex === 0 || cubeIndex === 255) continue
-          
-          // Get edges that intersect the surface
           const edgeFlags = EDGE_TABLE[cubeIndex]
           if (edgeFlags === 0) continue
-          
-          // Calculate vertices on intersecting edges
-          const edgeVertices: Vec3[] = new Array(12)
-          for (let i = 0; i < 12; i++) {
-            if (edgeFlags & (1 << i)) {
-              edgeVertices[i] = getVertexOnEdge(i, { x, y, z }, cubeValues, isolevel)
+
+          for (let e = 0; e < 12; e++) {
+            if (!(edgeFlags & (1 << e))) continue
+            const [a, b] = EDGE_CORNERS[e]
+            const t = (isolevel - values[a]) / (values[b] - values[a])
+            edgeVertices[e] = {
+              x: x + CORNER_OFFSETS[a][0] + t * (CORNER_OFFSETS[b][0] - CORNER_OFFSETS[a][0]),
+              y: y + CORNER_OFFSETS[a][1] + t * (CORNER_OFFSETS[b][1] - CORNER_OFFSETS[a][1]),
+              z: z + CORNER_OFFSETS[a][2] + t * (CORNER_OFFSETS[b][2] - CORNER_OFFSETS[a][2])
             }
           }
-          
-          // Generate triangles
+
           const triangles = TRIANGLE_TABLE[cubeIndex]
           for (let i = 0; i < triangles.length; i += 3) {
-            const v1 = edgeVertices[triangles[i]]
-            const v2 = edgeVertices[triangles[i + 1]]
-            const v3 = edgeVertices[triangles[i + 2]]
-            
-            if (v1 && v2 && v3) {
-              // Add vertices
-              const baseIndex = vertices.length
-              vertices.push(v1, v2, v3)
-              
-              // Calculate face normal from triangle geometry instead of density function
-              const edge1 = { x: v2.x - v1.x, y: v2.y - v1.y, z: v2.z - v1.z }
-              const edge2 = { x: v3.x - v1.x, y: v3.y - v1.y, z: v3.z - v1.z }
-              
-              // Cross product to get face normal
-              const faceNormal = {
-                x: edge1.y * edge2.z - edge1.z * edge2.y,
-                y: edge1.z * edge2.x - edge1.x * edge2.z,
-                z: edge1.x * edge2.y - edge1.y * edge2.x
-              }
-              
-              // Normalize
-              const length = Math.sqrt(faceNormal.x * faceNormal.x + faceNormal.y * faceNormal.y + faceNormal.z * faceNormal.z)
-              if (length > 0) {
-                faceNormal.x /= length
-                faceNormal.y /= length
-                faceNormal.z /= length
-              }
-              
-              // Use the face normal for all vertices of this triangle
-              normals.push(faceNormal, faceNormal, faceNormal)
-              
-              // Add indices
-              indices.push(baseIndex, baseIndex + 1, baseIndex + 2)
-            }
+            const v1 = edgeVertices[triangles[i]], v2 = edgeVertices[triangles[i + 1]], v3 = edgeVertices[triangles[i + 2]]
+            // Face normal from the triangle geometry
+            const e1x = v2.x - v1.x, e1y = v2.y - v1.y, e1z = v2.z - v1.z
+            const e2x = v3.x - v1.x, e2y = v3.y - v1.y, e2z = v3.z - v1.z
+            const nx = e1y * e2z - e1z * e2y, ny = e1z * e2x - e1x * e2z, nz = e1x * e2y - e1y * e2x
+            const length = Math.sqrt(nx * nx + ny * ny + nz * nz) || 1
+            mesh.addFlatTriangle(v1, v2, v3, { x: nx / length, y: ny / length, z: nz / length })
           }
         }
       }
     }
   }
-  
-  // Process extended boundary regions
+
   // Front and back faces
-  processExtraCubes(-1, sizeX, 0, sizeY - 1, -1, 0)  // Front extension
-  processExtraCubes(-1, sizeX, 0, sizeY - 1, sizeZ - 1, sizeZ)  // Back extension
-  
-  // Left and right faces  
-  processExtraCubes(-1, 0, 0, sizeY - 1, 0, sizeZ - 1)  // Left extension
-  processExtraCubes(sizeX - 1, sizeX, 0, sizeY - 1, 0, sizeZ - 1)  // Right extension
-  
+  processExtraCubes(-1, sizeX, 0, sizeY - 1, -1, 0)
+  processExtraCubes(-1, sizeX, 0, sizeY - 1, sizeZ - 1, sizeZ)
+
+  // Left and right faces
+  processExtraCubes(-1, 0, 0, sizeY - 1, 0, sizeZ - 1)
+  processExtraCubes(sizeX - 1, sizeX, 0, sizeY - 1, 0, sizeZ - 1)
+
   // Top and bottom faces
-  processExtraCubes(0, sizeX - 1, -1, 0, 0, sizeZ - 1)  // Bottom extension
-  processExtraCubes(0, sizeX - 1, sizeY - 1, sizeY, 0, sizeZ - 1)  // Top extension
+  processExtraCubes(0, sizeX - 1, -1, 0, 0, sizeZ - 1)
+  processExtraCubes(0, sizeX - 1, sizeY - 1, sizeY, 0, sizeZ - 1)
 }
 
 // Add solid boundary faces that follow the terrain contours (2D version)
 function addBoundaryFaces(
-  vertices: Vec3[],
-  normals: Vec3[],
-  indices: number[],
+  mesh: MeshBuilder,
   sizeX: number,
   sizeY: number,
   sizeZ: number,
-  densityFunction: (x: number, y: number, z: number) => number,
+  sample: (x: number, y: number, z: number) => number,
   isolevel: number
 ): void {
-  const addTriangle = (v1: Vec3, v2: Vec3, v3: Vec3, normal: Vec3) => {
-    const baseIndex = vertices.length
-    vertices.push(v1, v2, v3)
-    normals.push(normal, normal, normal)
-    indices.push(baseIndex, baseIndex + 1, baseIndex + 2)
-  }
-
-  // Helper to find terrain surface height at a given x,z coordinate
+  // Terrain surface height in a grid column: the topmost solid point plus the interpolated step to the air above
   const findTerrainHeight = (x: number, z: number): number => {
-    // Search from top to bottom to find where terrain transitions from outside to inside
     for (let y = sizeY - 1; y >= 0; y--) {
-      if (densityFunction(x, y, z) < isolevel) {
-        // Found the surface - interpolate for more precision
-        if (y < sizeY - 1) {
-          const val1 = densityFunction(x, y, z)
-          const val2 = densityFunction(x, y + 1, z)
-          const t = (isolevel - val1) / (val2 - val1)
-          return y + t
-        }
-        return y
+      const value = sample(x, y, z)
+      if (value < isolevel) {
+        if (y === sizeY - 1) return y
+        return y + (isolevel - value) / (sample(x, y + 1, z) - value)
       }
     }
     return 0 // If no surface found, return bottom
   }
 
-  const step = 1 // Resolution for boundary faces
-  
-  // Bottom face - only add where terrain is solid
-  for (let x = 0; x < sizeX - step; x += step) {
-    for (let z = 0; z < sizeZ - step; z += step) {
-      if (densityFunction(x + step/2, 0, z + step/2) < isolevel) {
-        const v1 = { x: x, y: 0, z: z }
-        const v2 = { x: x + step, y: 0, z: z }
-        const v3 = { x: x + step, y: 0, z: z + step }
-        const v4 = { x: x, y: 0, z: z + step }
-        const normal = { x: 0, y: -1, z: 0 }
-        
-        addTriangle(v1, v2, v3, normal)
-        addTriangle(v1, v3, v4, normal)
-      }
-    }
-  }
-
-  // Front face (z = 0) - follow terrain contour
-  for (let x = 0; x < sizeX - step; x += step) {
-    const height1 = findTerrainHeight(x, 0)
-    const height2 = findTerrainHeight(x + step, 0)
-    
-    if (height1 > 0 || height2 > 0) {
-      const v1 = { x: x, y: 0, z: 0 }
-      const v2 = { x: x + step, y: 0, z: 0 }
-      const v3 = { x: x + step, y: height2, z: 0 }
-      const v4 = { x: x, y: height1, z: 0 }
-      const normal = { x: 0, y: 0, z: -1 }
-      
-      // Flip winding order for outward-facing triangles
-      addTriangle(v1, v4, v3, normal)
-      addTriangle(v1, v3, v2, normal)
-    }
-  }
-
-  // Back face (z = sizeZ - 1) - follow terrain contour, moved closer to terrain
-  for (let x = 0; x < sizeX - step; x += step) {
-    const height1 = findTerrainHeight(x, sizeZ - 1)
-    const height2 = findTerrainHeight(x + step, sizeZ - 1)
-    
-    if (height1 > 0 || height2 > 0) {
-      const v1 = { x: x, y: 0, z: sizeZ - 1 }
-      const v2 = { x: x, y: height1, z: sizeZ - 1 }
-      const v3 = { x: x + step, y: height2, z: sizeZ - 1 }
-      const v4 = { x: x + step, y: 0, z: sizeZ - 1 }
-      const normal = { x: 0, y: 0, z: 1 }
-      
-      // Flip winding order for outward-facing triangles
-      addTriangle(v1, v4, v3, normal)
-      addTriangle(v1, v3, v2, normal)
+  // Bottom face - only add where terrain is solid (the four corners average below the isolevel)
+  for (let x = 0; x < sizeX - 1; x++) {
+    for (let z = 0; z < sizeZ - 1; z++) {
+      const center = (sample(x, 0, z) + sample(x + 1, 0, z) + sample(x, 0, z + 1) + sample(x + 1, 0, z + 1)) / 4
+      if (center >= isolevel) continue
+      const normal = { x: 0, y: -1, z: 0 }
+      const v1 = { x, y: 0, z }, v2 = { x: x + 1, y: 0, z }, v3 = { x: x + 1, y: 0, z: z + 1 }, v4 = { x, y: 0, z: z + 1 }
+      mesh.addFlatTriangle(v1, v2, v3, normal)
+      mesh.addFlatTriangle(v1, v3, v4, normal)
     }
   }
 
-  // Left face (x = 0) - follow terrain contour
-  for (let z = 0; z < sizeZ - step; z += step) {
-    const height1 = findTerrainHeight(0, z)
-    const height2 = findTerrainHeight(0, z + step)
-    
-    if (height1 > 0 || height2 > 0) {
-      const v1 = { x: 0, y: 0, z: z }
-      const v2 = { x: 0, y: height1, z: z }
-      const v3 = { x: 0, y: height2, z: z + step }
-      const v4 = { x: 0, y: 0, z: z + step }
-      const normal = { x: -1, y: 0, z: 0 }
-      
-      // Flip winding order for outward-facing triangles
-      addTriangle(v1, v4, v3, normal)
-      addTriangle(v1, v3, v2, normal)
+  // Side walls from y = 0 up to the terrain contour; `corner` maps a position along the side and a height to a point
+  const addWall = (length: number, heightAt: (i: number) => number, corner: (i: number, y: number) => Vec3, normal: Vec3, flip: boolean) => {
+    for (let i = 0; i < length - 1; i++) {
+      const height1 = heightAt(i), height2 = heightAt(i + 1)
+      if (height1 <= 0 && height2 <= 0) continue
+      const v1 = corner(i, 0), v2 = corner(i + 1, 0), v3 = corner(i + 1, height2), v4 = corner(i, height1)
+      if (flip) {
+        mesh.addFlatTriangle(v1, v3, v4, normal)
+        mesh.addFlatTriangle(v1, v2, v3, normal)
+      } else {
+        mesh.addFlatTriangle(v1, v4, v3, normal)
+        mesh.addFlatTriangle(v1, v3, v2, normal)
+      }
     }
   }
+  addWall(sizeX, i => findTerrainHeight(i, 0), (i, y) => ({ x: i, y, z: 0 }), { x: 0, y: 0, z: -1 }, false) // Front
+  addWall(sizeX, i => findTerrainHeight(i, sizeZ - 1), (i, y) => ({ x: i, y, z: sizeZ - 1 }), { x: 0, y: 0, z: 1 }, true) // Back
+  addWall(sizeZ, i => findTerrainHeight(0, i), (i, y) => ({ x: 0, y, z: i }), { x: -1, y: 0, z: 0 }, true) // Left
+  addWall(sizeZ, i => findTerrainHeight(sizeX - 1, i), (i, y) => ({ x: sizeX - 1, y, z: i }), { x: 1, y: 0, z: 0 }, false) // Right
+}
 
-  // Right face (x = sizeX - 1) - follow terrain contour, moved closer to terrain
-  for (let z = 0; z < sizeZ - step; z += step) {
-    const height1 = findTerrainHeight(sizeX - 1, z)
-    const height2 = findTerrainHeight(sizeX - 1, z + step)
-    
-    if (height1 > 0 || height2 > 0) {
-      const v1 = { x: sizeX - 1, y: 0, z: z }
-      const v2 = { x: sizeX - 1, y: 0, z: z + step }
-      const v3 = { x: sizeX - 1, y: height2, z: z + step }
-      const v4 = { x: sizeX - 1, y: height1, z: z }
-      const normal = { x: 1, y: 0, z: 0 }
-      
-      // Flip winding order for outward-facing triangles
-      addTriangle(v1, v4, v3, normal)
-      addTriangle(v1, v3, v2, normal)
+// Where a cell's surface meets one of its faces (the corners at `side` 0 or 1 along `axis`): pairs of
+// edge ids, each a contour segment across the face, in the direction the cell's triangle runs it. A
+// neighbouring cell that shares the face meshes the same segments the other way round when its corners
+// agree, so this is what has to line up across a seam.
+export function cellFaceContour(cubeIndex: number, axis: number, side: number): number[] {
+  const onFace = (edge: number) => EDGE_CORNERS[edge].every(corner => CORNER_OFFSETS[corner][axis] === side)
+  const segments: number[] = []
+  const triangles = TRIANGLE_TABLE[cubeIndex]
+  for (let i = 0; i < triangles.length; i += 3) {
+    for (let j = 0; j < 3; j++) {
+      const a = triangles[i + j], b = triangles[i + (j + 1) % 3]
+      if (onFace(a) && onFace(b)) segments.push(a, b)
     }
   }
+  return segments
 }
 
-export function generateMarchingCubes(
+// Polygonizes every cell of a sampled grid into `mesh`. Vertices on a grid edge are shared by all cells
+// touching it (indexed mesh), and normals come from the grid's density gradient. Returns the vertex index
+// per grid edge, keyed by the edge's lower grid point * 3 + axis (-1 where the surface doesn't cross it).
+export function marchGrid(
+  field: Float32Array,
   sizeX: number,
   sizeY: number,
   sizeZ: number,
-  densityFunction: (x: number, y: number, z: number) => number,
-  isolevel: number = 0.0,
-  use3D: boolean = false
-): MarchingCubesResult {
-  const vertices: Vec3[] = []
-  const normals: Vec3[] = []
-  const indices: number[] = []
-  
-  // Process each cube in the grid
+  isolevel: number,
+  mesh: MeshBuilder
+): Int32Array {
+  const edgeVertex = new Int32Array(sizeX * sizeY * sizeZ * 3).fill(-1)
+  const cornerOffsets = CORNER_OFFSETS.map(([dx, dy, dz]) => (dx * sizeY + dy) * sizeZ + dz)
+  const values = new Float64Array(8)
+  const gradients = new Array<number>(6)
+  const cellVertices = new Int32Array(12)
+
+  const vertexOnEdge = (x: number, y: number, z: number, cell: number, edge: number): number => {
+    const [a, b] = EDGE_CORNERS[edge]
+    const pointA = cell + cornerOffsets[a]
+    const key = pointA * 3 + EDGE_AXES[edge]
+    if (edgeVertex[key] >= 0) return edgeVertex[key]
+
+    const t = values[a] === values[b] ? 0.5 : (isolevel - values[a]) / (values[b] - values[a])
+    const ax = x + CORNER_OFFSETS[a][0], ay = y + CORNER_OFFSETS[a][1], az = z + CORNER_OFFSETS[a][2]
+    const bx = x + CORNER_OFFSETS[b][0], by = y + CORNER_OFFSETS[b][1], bz = z + CORNER_OFFSETS[b][2]
+    gradientAt(field, sizeX, sizeY, sizeZ, ax, ay, az, gradients, 0)
+    gradientAt(field, sizeX, sizeY, sizeZ, bx, by, bz, gradients, 3)
+    let nx = gradients[0] + t * (gradients[3] - gradients[0])
+    let ny = gradients[1] + t * (gradients[4] - gradients[1])
+    let nz = gradients[2] + t * (gradients[5] - gradients[2])
+    const length = Math.sqrt(nx * nx + ny * ny + nz * nz)
+    if (length > 0) {
+      nx /= length
+      ny /= length
+      nz /= length
+    } else {
+      nx = 0
+      ny = 1
+      nz = 0
+    }
+    const index = mesh.addVertex(ax + t * (bx - ax), ay + t * (by - ay), az + t * (bz - az), nx, ny, nz)
+    edgeVertex[key] = index
+    return index
+  }
+
   for (let x = 0; x < sizeX - 1; x++) {
     for (let y = 0; y < sizeY - 1; y++) {
       for (let z = 0; z < sizeZ - 1; z++) {
-        // Sample density at 8 cube corners
-        const cubeValues = [
-          densityFunction(x, y, z),         // 0: bottom-front-left
-          densityFunction(x + 1, y, z),     // 1: bottom-front-right
-          densityFunction(x + 1, y, z + 1), // 2: bottom-back-right
-          densityFunction(x, y, z + 1),     // 3: bottom-back-left
-          densityFunction(x, y + 1, z),     // 4: top-front-left
-          densityFunction(x + 1, y + 1, z), // 5: top-front-right
-          densityFunction(x + 1, y + 1, z + 1), // 6: top-back-right
-          densityFunction(x, y + 1, z + 1)  // 7: top-back-left
-        ]
-        
-        // Determine cube configuration
+        const cell = (x * sizeY + y) * sizeZ + z
         let cubeIndex = 0
         for (let i = 0; i < 8; i++) {
-          if (cubeValues[i] < isolevel) {
-            cubeIndex |= (1 << i)
-          }
+          values[i] = field[cell + cornerOffsets[i]]
+          if (values[i] < isolevel) cubeIndex |= (1 << i)
         }
-        
+
         // Skip if cube is entirely inside or outside
         if (cubeIndex === 0 || cubeIndex === 255) continue
-        
-        // Get edges that intersect the surface
         const edgeFlags = EDGE_TABLE[cubeIndex]
         if (edgeFlags === 0) continue
-        
-        // Calculate vertices on intersecting edges
-        const edgeVertices: Vec3[] = new Array(12)
-        for (let i = 0; i < 12; i++) {
-          if (edgeFlags & (1 << i)) {
-            edgeVertices[i] = getVertexOnEdge(i, { x, y, z }, cubeValues, isolevel)
-          }
+
+        for (let e = 0; e < 12; e++) {
+          if (edgeFlags & (1 << e)) cellVertices[e] = vertexOnEdge(x, y, z, cell, e)
         }
-        
-        // Generate triangles
         const triangles = TRIANGLE_TABLE[cubeIndex]
         for (let i = 0; i < triangles.length; i += 3) {
-          const v1 = edgeVertices[triangles[i]]
-          const v2 = edgeVertices[triangles[i + 1]]
-          const v3 = edgeVertices[triangles[i + 2]]
-          
-          if (v1 && v2 && v3) {
-            // Add vertices
-            const baseIndex = vertices.length
-            vertices.push(v1, v2, v3)
-            
-            // Calculate normals
-            const n1 = calculateNormal(v1.x, v1.y, v1.z, densityFunction)
-            const n2 = calculateNormal(v2.x, v2.y, v2.z, densityFunction)
-            const n3 = calculateNormal(v3.x, v3.y, v3.z, densityFunction)
-            normals.push(n1, n2, n3)
-            
-            // Add indices
-            indices.push(baseIndex, baseIndex + 1, baseIndex + 2)
-          }
+          mesh.addTriangle(cellVertices[triangles[i]], cellVertices[triangles[i + 1]], cellVertices[triangles[i + 2]])
         }
       }
     }
   }
-  
-  // Add solid boundary faces to match the blocky version
+
+  return edgeVertex
+}
+
+// Solid boundary faces to match the blocky version: marching cubes over the air around the grid in 3D,
+// walls up to the terrain contour in 2D
+export function addChunkWalls(
+  mesh: MeshBuilder,
+  sizeX: number,
+  sizeY: number,
+  sizeZ: number,
+  sample: (x: number, y: number, z: number) => number,
+  isolevel: number,
+  use3D: boolean
+): void {
   if (use3D) {
-    addSimpleBoundaryFaces(vertices, normals, indices, sizeX, sizeY, sizeZ, densityFunction, isolevel)
+    addSimpleBoundaryFaces(mesh, sizeX, sizeY, sizeZ, sample, isolevel)
   } else {
-    addBoundaryFaces(vertices, normals, indices, sizeX, sizeY, sizeZ, densityFunction, isolevel)
-  }
-  
-  // Convert to typed arrays
-  const vertexArray = new Float32Array(vertices.length * 3)
-  const normalArray = new Float32Array(normals.length * 3)
-  
-  for (let i = 0; i < vertices.length; i++) {
-    vertexArray[i * 3] = vertices[i].x - sizeX / 2 + 0.5 // Center around origin
-    vertexArray[i * 3 + 1] = vertices[i].y - sizeY / 2 + 0.5
-    vertexArray[i * 3 + 2] = vertices[i].z - sizeZ / 2 + 0.5
-    
-    normalArray[i * 3] = normals[i].x
-    normalArray[i * 3 + 1] = normals[i].y
-    normalArray[i * 3 + 2] = normals[i].z
-  }
-  
-  return {
-    vertices: vertexArray,
-    normals: normalArray,
-    indices: new Uint32Array(indices)
+    addBoundaryFaces(mesh, sizeX, sizeY, sizeZ, sample, isolevel)
   }
 }
+
+// Samples the density once per grid point, then polygonizes every cell and closes the chunk border
+export function generateMarchingCubes(
+  sizeX: number,
+  sizeY: number,
+  sizeZ: number,
+  densityFunction: (x: number, y: number, z: number) => number,
+  isolevel: number = 0.0,
+  use3D: boolean = false
+): MarchingCubesResult {
+  const field = sampleDensityGrid(sizeX, sizeY, sizeZ, densityFunction)
+  const sample = (x: number, y: number, z: number) => field[(x * sizeY + y) * sizeZ + z]
+  const mesh = new MeshBuilder(sizeX, sizeY, sizeZ)
+  marchGrid(field, sizeX, sizeY, sizeZ, isolevel, mesh)
+  addChunkWalls(mesh, sizeX, sizeY, sizeZ, sample, isolevel, use3D)
+  return mesh.result()
+}
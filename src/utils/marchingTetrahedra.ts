@@ -0,0 +1,121 @@
+// Marching Tetrahedra
+// Splits every grid cell into six tetrahedra around its main diagonal (the Kuhn split, identical in every
+// cell so neighbouring faces are cut the same way) and polygonizes each one. A tetrahedron has no ambiguous
+// sign configuration, so unlike the marching cubes tables the surface never opens up between cells.
+// Returns the same centered, indexed mesh as generateMarchingCubes.
+
+import { MeshBuilder, gradientAt, samplePaddedDensityGrid } from './marchingCubes'
+import type { MarchingCubesResult } from './marchingCubes'
+
+// Grid steps a tetrahedron edge can take from its lower end, as x | y << 1 | z << 2 bits; every edge of the
+// Kuhn split goes from a corner to one with a superset of its bits, so it is keyed by (lower point, step)
+const STEP_COUNT = 8
+
+// The six tetrahedra as corner bit masks: a monotone path 0 → one axis → two axes → all three
+const TETRAHEDRA: number[][] = []
+for (const [a, b] of [[0, 1], [0, 2], [1, 0], [1, 2], [2, 0], [2, 1]]) {
+  TETRAHEDRA.push([0, 1 << a, (1 << a) | (1 << b), 7])
+}
+
+export function generateMarchingTetrahedra(
+  sizeX: number,
+  sizeY: number,
+  sizeZ: number,
+  densityFunction: (x: number, y: number, z: number) => number,
+  isolevel: number = 0.0
+): MarchingCubesResult {
+  // Air padding closes the surface over the chunk border, in 2D and 3D mode alike
+  const px = sizeX + 2, py = sizeY + 2, pz = sizeZ + 2
+  const field = samplePaddedDensityGrid(sizeX, sizeY, sizeZ, densityFunction)
+  const mesh = new MeshBuilder(sizeX, sizeY, sizeZ)
+
+  // Vertex index per (lower grid point, step), -1 = not created yet
+  const edgeVertex = new Int32Array(px * py * pz * STEP_COUNT).fill(-1)
+  const cornerOffsets = [0, 1, 2, 3, 4, 5, 6, 7].map(c => ((c & 1) * py + ((c >> 1) & 1)) * pz + ((c >> 2) & 1))
+  const gradients = new Array<number>(6)
+  const values = new Float64Array(8)
+  const crossing = new Int32Array(4) // Vertices of the current tetrahedron's polygon
+  const solidCorners: number[] = []
+  const airCorners: number[] = []
+
+  let x = 0, y = 0, z = 0, point = 0
+  const vertexOnEdge = (a: number, b: number): number => {
+    const key = (point + cornerOffsets[a]) * STEP_COUNT + (a ^ b)
+    if (edgeVertex[key] >= 0) return edgeVertex[key]
+
+    const t = values[a] === values[b] ? 0.5 : (isolevel - values[a]) / (values[b] - values[a])
+    const ax = x + (a & 1), ay = y + ((a >> 1) & 1), az = z + ((a >> 2) & 1)
+    const bx = x + (b & 1), by = y + ((b >> 1) & 1), bz = z + ((b >> 2) & 1)
+    gradientAt(field, px, py, pz, ax, ay, az, gradients, 0)
+    gradientAt(field, px, py, pz, bx, by, bz, gradients, 3)
+    const nx = gradients[0] + t * (gradients[3] - gradients[0])
+    const ny = gradients[1] + t * (gradients[4] - gradients[1])
+    const nz = gradients[2] + t * (gradients[5] - gradients[2])
+    const length = Math.sqrt(nx * nx + ny * ny + nz * nz) || 1
+    const index = mesh.addVertex(ax + t * (bx - ax) - 1, ay + t * (by - ay) - 1, az + t * (bz - az) - 1, nx / length, ny / length, nz / length)
+    edgeVertex[key] = index
+    return index
+  }
+
+  // Triangle wound to face from the solid corners toward the air ones
+  const addOrientedTriangle = (i: number, j: number, k: number) => {
+    const v = mesh.vertices
+    const ax = v[i * 3], ay = v[i * 3 + 1], az = v[i * 3 + 2]
+    const e1x = v[j * 3] - ax, e1y = v[j * 3 + 1] - ay, e1z = v[j * 3 + 2] - az
+    const e2x = v[k * 3] - ax, e2y = v[k * 3 + 1] - ay, e2z = v[k * 3 + 2] - az
+    let ox = 0, oy = 0, oz = 0
+    for (const c of airCorners) {
+      ox += c & 1
+      oy += (c >> 1) & 1
+      oz += (c >> 2) & 1
+    }
+    for (const c of solidCorners) {
+      ox -= ((c & 1) * airCorners.length) / solidCorners.length
+      oy -= (((c >> 1) & 1) * airCorners.length) / solidCorners.length
+      oz -= (((c >> 2) & 1) * airCorners.length) / solidCorners.length
+    }
+    const facing = (e1y * e2z - e1z * e2y) * ox + (e1z * e2x - e1x * e2z) * oy + (e1x * e2y - e1y * e2x) * oz
+    if (facing >= 0) mesh.addTriangle(i, j, k)
+    else mesh.addTriangle(i, k, j)
+  }
+
+  for (x = 0; x < px - 1; x++) {
+    for (y = 0; y < py - 1; y++) {
+      for (z = 0; z < pz - 1; z++) {
+        point = (x * py + y) * pz + z
+        let solidMask = 0
+        for (let c = 0; c < 8; c++) {
+          values[c] = field[point + cornerOffsets[c]]
+          if (values[c] < isolevel) solidMask |= 1 << c
+        }
+        if (solidMask === 0 || solidMask === 255) continue
+
+        for (const tetrahedron of TETRAHEDRA) {
+          solidCorners.length = 0
+          airCorners.length = 0
+          for (const c of tetrahedron) (solidMask & (1 << c) ? solidCorners : airCorners).push(c)
+          if (solidCorners.length === 0 || airCorners.length === 0) continue
+
+          // Corners are listed in increasing bit order, so the lower end of each edge comes first
+          const edge = (a: number, b: number) => (a < b ? vertexOnEdge(a, b) : vertexOnEdge(b, a))
+          if (solidCorners.length === 2) {
+            // Quad through the four crossing edges, as a cycle: s0-a0, s0-a1, s1-a1, s1-a0
+            const [s0, s1] = solidCorners, [a0, a1] = airCorners
+            crossing[0] = edge(s0, a0)
+            crossing[1] = edge(s0, a1)
+            crossing[2] = edge(s1, a1)
+            crossing[3] = edge(s1, a0)
+            addOrientedTriangle(crossing[0], crossing[1], crossing[2])
+            addOrientedTriangle(crossing[0], crossing[2], crossing[3])
+          } else {
+            // One corner on its own: a triangle across its three edges
+            const [single, others] = solidCorners.length === 1 ? [solidCorners[0], airCorners] : [airCorners[0], solidCorners]
+            addOrientedTriangle(edge(single, others[0]), edge(single, others[1]), edge(single, others[2]))
+          }
+        }
+      }
+    }
+  }
+
+  return mesh.result()
+}
@@ -0,0 +1,308 @@
+// Math Expression
+// Tokenizer + precedence-climbing parser for the "Math Expression" field.
+// Expressions are parsed once and compiled into closures, so sampling a voxel is just a call.
+//
+// Grammar (lowest to highest precedence):
+//   expr    := term (('+' | '-') term)*
+//   term    := unary (('*' | '/' | '%') unary)*
+//   unary   := ('-' | '+') unary | power
+//   power   := primary ('^' unary)?          (right associative, -N^2 = -(N^2))
+//   primary := number | name | name '(' args ')' | '(' expr ')' | '|' expr '|'
+
+export class ExpressionError extends Error {
+  position: number // Character index in the source where the problem starts
+
+  constructor(message: string, position: number) {
+    super(message)
+    this.name = 'ExpressionError'
+    this.position = position
+  }
+}
+
+type TokenType = 'number' | 'name' | 'op' | 'lparen' | 'rparen' | 'comma' | 'pipe' | 'end'
+
+interface Token {
+  type: TokenType
+  value: string
+  position: number
+}
+
+export type ExpressionNode =
+  | { kind: 'number', value: number }
+  | { kind: 'variable', name: string, position: number }
+  | { kind: 'unary', op: '-', operand: ExpressionNode }
+  | { kind: 'binary', op: string, left: ExpressionNode, right: ExpressionNode }
+  | { kind: 'call', name: string, args: ExpressionNode[], position: number }
+
+const clamp = (x: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, x))
+
+// Built-in functions with their argument counts
+const FUNCTIONS: Record<string, { arity: number, fn: (...args: number[]) => number }> = {
+  abs: { arity: 1, fn: Math.abs },
+  floor: { arity: 1, fn: Math.floor },
+  ceil: { arity: 1, fn: Math.ceil },
+  round: { arity: 1, fn: Math.round },
+  fract: { arity: 1, fn: (x) => x - Math.floor(x) },
+  sign: { arity: 1, fn: Math.sign },
+  sqrt: { arity: 1, fn: Math.sqrt },
+  exp: { arity: 1, fn: Math.exp },
+  log: { arity: 1, fn: Math.log },
+  sin: { arity: 1, fn: Math.sin },
+  cos: { arity: 1, fn: Math.cos },
+  tan: { arity: 1, fn: Math.tan },
+  min: { arity: 2, fn: Math.min },
+  max: { arity: 2, fn: Math.max },
+  pow: { arity: 2, fn: Math.pow },
+  mod: { arity: 2, fn: (a, b) => a - b * Math.floor(a / b) },
+  clamp: { arity: 3, fn: clamp },
+  lerp: { arity: 3, fn: (a, b, t) => a + (b - a) * t },
+  smoothstep: {
+    arity: 3,
+    fn: (e0, e1, x) => {
+      const t = clamp((x - e0) / (e1 - e0), 0, 1)
+      return t * t * (3 - 2 * t)
+    }
+  }
+}
+
+const CONSTANTS: Record<string, number> = {
+  PI: Math.PI,
+  E: Math.E
+}
+
+export const EXPRESSION_FUNCTIONS = Object.keys(FUNCTIONS)
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+  while (i < source.length) {
+    const ch = source[i]
+    if (/\s/.test(ch)) {
+      i++
+      continue
+    }
+    const start = i
+    if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i))
+      if (!match) throw new ExpressionError(`Invalid number`, start)
+      tokens.push({ type: 'number', value: match[0], position: start })
+      i += match[0].length
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?/.exec(source.slice(i))!
+      // Accept legacy "Math.abs(...)" style by dropping the namespace
+      const name = match[0].startsWith('Math.') ? match[0].slice(5) : match[0]
+      tokens.push({ type: 'name', value: name, position: start })
+      i += match[0].length
+    } else if ('+-*/%^'.includes(ch)) {
+      tokens.push({ type: 'op', value: ch, position: start })
+      i++
+    } else if (ch === '(' || ch === ')' || ch === ',' || ch === '|') {
+      tokens.push({ type: ch === '(' ? 'lparen' : ch === ')' ? 'rparen' : ch === ',' ? 'comma' : 'pipe', value: ch, position: start })
+      i++
+    } else {
+      throw new ExpressionError(`Unexpected character '${ch}'`, start)
+    }
+  }
+  tokens.push({ type: 'end', value: '', position: source.length })
+  return tokens
+}
+
+// Parse source into an AST; variables must be listed in allowedVariables
+export function parseExpression(source: string, allowedVariables: readonly string[] = ['N']): ExpressionNode {
+  const tokens = tokenize(source)
+  let index = 0
+  const peek = () => tokens[index]
+  const next = () => tokens[index++]
+
+  const expect = (type: TokenType, what: string) => {
+    const token = peek()
+    if (token.type !== type) {
+      throw new ExpressionError(token.type === 'end' ? `Expected ${what} at end of expression` : `Expected ${what} but found '${token.value}'`, token.position)
+    }
+    return next()
+  }
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = next()
+    switch (token.type) {
+      case 'number':
+        return { kind: 'number', value: parseFloat(token.value) }
+      case 'lparen': {
+        const inner = parseExpr()
+        expect('rparen', "')'")
+        return inner
+      }
+      case 'pipe': {
+        const inner = parseExpr()
+        expect('pipe', "closing '|'")
+        return { kind: 'call', name: 'abs', args: [inner], position: token.position }
+      }
+      case 'name': {
+        if (peek().type === 'lparen') {
+          const definition = FUNCTIONS[token.value]
+          if (!definition) throw new ExpressionError(`Unknown function '${token.value}'`, token.position)
+          next()
+          const args: ExpressionNode[] = []
+          if (peek().type !== 'rparen') {
+            args.push(parseExpr())
+            while (peek().type === 'comma') {
+              next()
+              args.push(parseExpr())
+            }
+          }
+          expect('rparen', "')'")
+          if (args.length !== definition.arity) {
+            throw new ExpressionError(`${token.value}() takes ${definition.arity} argument${definition.arity === 1 ? '' : 's'}, got ${args.length}`, token.position)
+          }
+          return { kind: 'call', name: token.value, args, position: token.position }
+        }
+        if (allowedVariables.includes(token.value)) return { kind: 'variable', name: token.value, position: token.position }
+        if (token.value in CONSTANTS) return { kind: 'number', value: CONSTANTS[token.value] }
+        if (token.value in FUNCTIONS) throw new ExpressionError(`${token.value} needs arguments, e.g. ${token.value}(N)`, token.position)
+        throw new ExpressionError(`Unknown variable '${token.value}'`, token.position)
+      }
+      case 'end':
+        throw new ExpressionError('Unexpected end of expression', token.position)
+      default:
+        throw new ExpressionError(`Unexpected '${token.value}'`, token.position)
+    }
+  }
+
+  const parsePower = (): ExpressionNode => {
+    const base = parsePrimary()
+    if (peek().type === 'op' && peek().value === '^') {
+      next()
+      // Right associative, and the exponent may carry its own sign: 2^-N
+      return { kind: 'binary', op: '^', left: base, right: parseUnary() }
+    }
+    return base
+  }
+
+  const parseUnary = (): ExpressionNode => {
+    const token = peek()
+    if (token.type === 'op' && (token.value === '-' || token.value === '+')) {
+      next()
+      const operand = parseUnary()
+      return token.value === '-' ? { kind: 'unary', op: '-', operand } : operand
+    }
+    return parsePower()
+  }
+
+  const parseTerm = (): ExpressionNode => {
+    let left = parseUnary()
+    while (peek().type === 'op' && '*/%'.includes(peek().value)) {
+      const op = next().value
+      left = { kind: 'binary', op, left, right: parseUnary() }
+    }
+    return left
+  }
+
+  function parseExpr(): ExpressionNode {
+    let left = parseTerm()
+    while (peek().type === 'op' && (peek().value === '+' || peek().value === '-')) {
+      const op = next().value
+      left = { kind: 'binary', op, left, right: parseTerm() }
+    }
+    return left
+  }
+
+  if (peek().type === 'end') throw new ExpressionError('Expression is empty', 0)
+  const ast = parseExpr()
+  const trailing = peek()
+  if (trailing.type !== 'end') throw new ExpressionError(`Unexpected '${trailing.value}'`, trailing.position)
+  return ast
+}
+
+export type ExpressionScope = Record<string, number>
+export type ExpressionEvaluator = (scope: ExpressionScope) => number
+
+// Turn the AST into nested closures (constant sub-trees are folded)
+function compileNode(node: ExpressionNode): ExpressionEvaluator {
+  switch (node.kind) {
+    case 'number': {
+      const value = node.value
+      return () => value
+    }
+    case 'variable': {
+      const name = node.name
+      return (scope) => scope[name]
+    }
+    case 'unary': {
+      const operand = compileNode(node.operand)
+      return (scope) => -operand(scope)
+    }
+    case 'binary': {
+      const left = compileNode(node.left)
+      const right = compileNode(node.right)
+      switch (node.op) {
+        case '+': return (scope) => left(scope) + right(scope)
+        case '-': return (scope) => left(scope) - right(scope)
+        case '*': return (scope) => left(scope) * right(scope)
+        case '/': return (scope) => left(scope) / right(scope)
+        case '%': return (scope) => left(scope) % right(scope)
+        default: return (scope) => Math.pow(left(scope), right(scope))
+      }
+    }
+    case 'call': {
+      const fn = FUNCTIONS[node.name].fn
+      const args = node.args.map(compileNode)
+      if (args.length === 1) {
+        const [a] = args
+        return (scope) => fn(a(scope))
+      }
+      if (args.length === 2) {
+        const [a, b] = args
+        return (scope) => fn(a(scope), b(scope))
+      }
+      const [a, b, c] = args
+      return (scope) => fn(a(scope), b(scope), c(scope))
+    }
+  }
+}
+
+function isConstant(node: ExpressionNode): boolean {
+  switch (node.kind) {
+    case 'number': return true
+    case 'variable': return false
+    case 'unary': return isConstant(node.operand)
+    case 'binary': return isConstant(node.left) && isConstant(node.right)
+    case 'call': return node.args.every(isConstant)
+  }
+}
+
+function fold(node: ExpressionNode): ExpressionNode {
+  if (node.kind !== 'number' && isConstant(node)) return { kind: 'number', value: compileNode(node)({}) }
+  switch (node.kind) {
+    case 'unary': return { ...node, operand: fold(node.operand) }
+    case 'binary': return { ...node, left: fold(node.left), right: fold(node.right) }
+    case 'call': return { ...node, args: node.args.map(fold) }
+    default: return node
+  }
+}
+
+// Names of all variables the expression reads
+export function collectVariables(node: ExpressionNode, out = new Set<string>()): Set<string> {
+  switch (node.kind) {
+    case 'variable': out.add(node.name); break
+    case 'unary': collectVariables(node.operand, out); break
+    case 'binary': collectVariables(node.left, out); collectVariables(node.right, out); break
+    case 'call': node.args.forEach(arg => collectVariables(arg, out)); break
+  }
+  return out
+}
+
+// Parse and compile in one go; throws ExpressionError on invalid input
+export function compileExpression(source: string, allowedVariables: readonly string[] = ['N']): ExpressionEvaluator {
+  return compileNode(fold(parseExpression(source, allowedVariables)))
+}
+
+// Validate without compiling; returns the first error or null
+export function validateExpression(source: string, allowedVariables: readonly string[] = ['N']): ExpressionError | null {
+  try {
+    parseExpression(source, allowedVariables)
+    return null
+  } catch (error) {
+    if (error instanceof ExpressionError) return error
+    throw error
+  }
+}
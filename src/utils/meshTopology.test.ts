@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { OUTSIDE_DENSITY } from './marchingCubes'
+import { checkMeshTopology, isWatertight } from './meshTopology'
+import { createNoiseSampler } from './noiseSampler'
+import { SMOOTH_MESHERS, getSmoothMeshFunction } from './smoothMeshers'
+
+const SIZE = 32
+const sampler = createNoiseSampler() // Default OpenSimplex2, frequency 0.01
+// Frequencies raised well above the app defaults to pack in many small, ambiguity-prone features
+const densities = {
+  '3D': (x: number, y: number, z: number) => -sampler.sample3D(x * 3, y * 3, z * 3),
+  '2D': (x: number, y: number, z: number) => y - (SIZE / 4 + (SIZE / 4) * sampler.sample2D(x * 2, z * 2))
+}
+const ISOLEVELS = [-0.3, 0, 0.3]
+
+describe('smooth mesher topology', () => {
+  for (const [mode, density] of Object.entries(densities)) {
+    for (const isolevel of ISOLEVELS) {
+      describe(`${mode} noise at isolevel ${isolevel}`, () => {
+        for (const mesher of SMOOTH_MESHERS.filter(mesher => mesher !== 'marchingCubes')) {
+          it(`${mesher} is watertight`, () => {
+            const report = checkMeshTopology(getSmoothMeshFunction(mesher)(SIZE, SIZE, SIZE, density, isolevel, mode === '3D'))
+            expect(report.triangles).toBeGreaterThan(0)
+            expect(report).toMatchObject({ boundaryEdges: 0, nonManifoldEdges: 0, flippedEdges: 0 })
+            expect(isWatertight(report)).toBe(true)
+          })
+        }
+
+        // The boundary faces skip the cells along the chunk's box edges (3D) or follow their own contour
+        // (2D walls), so the surface opens where they meet it; everywhere else it is a consistently wound manifold
+        it('marchingCubes is open only along the chunk border', () => {
+          const report = checkMeshTopology(getSmoothMeshFunction('marchingCubes')(SIZE, SIZE, SIZE, density, isolevel, mode === '3D'))
+          expect(report.boundaryEdges).toBeGreaterThan(0)
+          expect(report).toMatchObject({ nonManifoldEdges: 0, flippedEdges: 0 })
+        })
+
+        it('marchingCubes is watertight away from the chunk border', () => {
+          const border = (value: number) => value === 0 || value === SIZE - 1
+          const airBorder = (x: number, y: number, z: number) =>
+            border(x) || border(y) || border(z) ? OUTSIDE_DENSITY : density(x, y, z)
+          const report = checkMeshTopology(getSmoothMeshFunction('marchingCubes')(SIZE, SIZE, SIZE, airBorder, isolevel, true))
+          expect(report.triangles).toBeGreaterThan(0)
+          expect(isWatertight(report)).toBe(true)
+        })
+      })
+    }
+  }
+})
@@ -0,0 +1,73 @@
+// Mesh Topology
+// Edge-based checks for the smooth meshers' output. Vertices are welded by position first, so meshes that
+// duplicate vertices (like the flat-shaded boundary faces of marching cubes) are judged by their shape.
+// A closed, hole-free surface has every edge shared by exactly two triangles running it in opposite directions.
+
+import type { MarchingCubesResult } from './marchingCubes'
+
+export interface MeshTopologyReport {
+  vertices: number // Distinct positions after welding
+  triangles: number
+  edges: number
+  boundaryEdges: number // Used by a single triangle: a hole or an open border
+  nonManifoldEdges: number // Used by more than two triangles
+  flippedEdges: number // Shared by two triangles running it the same way (inconsistent winding)
+  degenerateTriangles: number // Two corners weld to the same position; left out of the edge counts
+}
+
+export function checkMeshTopology(mesh: MarchingCubesResult, weldTolerance: number = 1e-4): MeshTopologyReport {
+  const { vertices, indices } = mesh
+
+  // Welded id per vertex, keyed by the position rounded to the tolerance
+  const welded = new Int32Array(vertices.length / 3)
+  const ids = new Map<string, number>()
+  for (let i = 0; i < welded.length; i++) {
+    const key = `${Math.round(vertices[i * 3] / weldTolerance)},${Math.round(vertices[i * 3 + 1] / weldTolerance)},${Math.round(vertices[i * 3 + 2] / weldTolerance)}`
+    let id = ids.get(key)
+    if (id === undefined) {
+      id = ids.size
+      ids.set(key, id)
+    }
+    welded[i] = id
+  }
+
+  // Per undirected edge: how many triangles use it, and the sum of their directions (+1 low → high, -1 back)
+  const vertexCount = ids.size
+  const uses = new Map<number, number>()
+  const directions = new Map<number, number>()
+  let degenerateTriangles = 0
+  for (let i = 0; i < indices.length; i += 3) {
+    const a = welded[indices[i]], b = welded[indices[i + 1]], c = welded[indices[i + 2]]
+    if (a === b || b === c || a === c) {
+      degenerateTriangles++
+      continue
+    }
+    for (const [from, to] of [[a, b], [b, c], [c, a]]) {
+      const key = Math.min(from, to) * vertexCount + Math.max(from, to)
+      uses.set(key, (uses.get(key) ?? 0) + 1)
+      directions.set(key, (directions.get(key) ?? 0) + (from < to ? 1 : -1))
+    }
+  }
+
+  let boundaryEdges = 0, nonManifoldEdges = 0, flippedEdges = 0
+  for (const [key, count] of uses) {
+    if (count === 1) boundaryEdges++
+    else if (count > 2) nonManifoldEdges++
+    else if (directions.get(key) !== 0) flippedEdges++
+  }
+
+  return {
+    vertices: vertexCount,
+    triangles: indices.length / 3,
+    edges: uses.size,
+    boundaryEdges,
+    nonManifoldEdges,
+    flippedEdges,
+    degenerateTriangles
+  }
+}
+
+// Closed and consistently wound: no holes, no fins, no flipped neighbours
+export function isWatertight(report: MeshTopologyReport): boolean {
+  return report.boundaryEdges === 0 && report.nonManifoldEdges === 0 && report.flippedEdges === 0
+}
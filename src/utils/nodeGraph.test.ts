@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { GraphError, compileNoiseGraph, createGraphNode, dependsOn } from './nodeGraph'
+import type { NoiseGraph } from './nodeGraph'
+
+// output <- math(a: warp, b: noise); the warp reads `warpSource`
+function createWarpGraph(warpSource: 'noise' | 'math'): NoiseGraph {
+  const noise = createGraphNode('noise', 0, 0)
+  const warp = createGraphNode('warp', 0, 0)
+  const math = createGraphNode('math', 0, 0)
+  const output = createGraphNode('output', 0, 0)
+  output.inputs.value = math.id
+  math.inputs.a = warp.id
+  math.inputs.b = noise.id
+  warp.inputs.source = warpSource === 'noise' ? noise.id : math.id
+  return { version: 1, nodes: [noise, warp, math, output] }
+}
+
+describe('node graph cycles', () => {
+  it('reports a cycle through a warp node instead of overflowing the stack', () => {
+    const graph = createWarpGraph('math')
+    for (const dimension of [2, 3] as const) {
+      expect(() => compileNoiseGraph(graph, dimension)).toThrow(GraphError)
+      expect(() => compileNoiseGraph(graph, dimension)).toThrow('Graph contains a cycle')
+    }
+  })
+
+  it('compiles the same graph without the back edge', () => {
+    const evaluate = compileNoiseGraph(createWarpGraph('noise'), 3)
+    expect(Number.isFinite(evaluate(1, 2, 3))).toBe(true)
+  })
+
+  it('finds the edges that would close a cycle', () => {
+    const graph = createWarpGraph('noise')
+    const [noise, warp, math] = graph.nodes
+    expect(dependsOn(graph, math.id, warp.id)).toBe(true) // math -> warp.source
+    expect(dependsOn(graph, math.id, math.id)).toBe(true) // self loop
+    expect(dependsOn(graph, noise.id, math.id)).toBe(false) // noise -> math.b already exists
+  })
+})
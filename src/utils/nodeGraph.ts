@@ -0,0 +1,350 @@
+// Noise Node Graph
+// Serializable density graphs (noise sources, math, remap/clamp/curve, domain warp, coordinates)
+// compiled once into straight-line JavaScript so per-sample cost is just arithmetic + noise calls.
+
+import FastNoiseLite from 'fastnoise-lite'
+import { createNoiseEngines } from './noiseEngines'
+import type { NoiseSettings } from './noiseEngines'
+
+export type GraphNodeType = 'output' | 'noise' | 'coord' | 'constant' | 'math' | 'unary' | 'remap' | 'clamp' | 'curve' | 'warp'
+
+export type GraphParamValue = number | string | number[][] | NoiseSettings
+
+export interface GraphNode {
+  id: string
+  type: GraphNodeType
+  x: number // Editor position
+  y: number
+  params: Record<string, GraphParamValue>
+  inputs: Record<string, string | null> // Input port -> source node id
+}
+
+export interface NoiseGraph {
+  version: number
+  nodes: GraphNode[]
+}
+
+export interface GraphNodeDefinition {
+  label: string
+  inputs: string[]
+  defaultParams: () => Record<string, GraphParamValue>
+}
+
+export const MATH_OPS = ['add', 'sub', 'mul', 'div', 'min', 'max', 'pow'] as const
+export const UNARY_OPS = ['abs', 'neg', 'oneMinus', 'sqrt', 'sin', 'cos', 'floor', 'sign'] as const
+
+export const NODE_DEFINITIONS: Record<GraphNodeType, GraphNodeDefinition> = {
+  output: { label: 'Output', inputs: ['value'], defaultParams: () => ({}) },
+  noise: { label: 'Noise', inputs: [], defaultParams: () => ({ noiseType: 'OpenSimplex2', seed: 1337, frequency: 0.01, fractalType: 'None', octaves: 3 }) },
+  coord: { label: 'Coordinate', inputs: [], defaultParams: () => ({ axis: 'y', scale: 1 }) },
+  constant: { label: 'Constant', inputs: [], defaultParams: () => ({ value: 0 }) },
+  math: { label: 'Math', inputs: ['a', 'b'], defaultParams: () => ({ op: 'add' }) },
+  unary: { label: 'Function', inputs: ['a'], defaultParams: () => ({ op: 'abs' }) },
+  remap: { label: 'Remap', inputs: ['value'], defaultParams: () => ({ inMin: -1, inMax: 1, outMin: 0, outMax: 1 }) },
+  clamp: { label: 'Clamp', inputs: ['value'], defaultParams: () => ({ min: -1, max: 1 }) },
+  curve: { label: 'Curve', inputs: ['value'], defaultParams: () => ({ points: [[-1, -1], [0, 0], [1, 1]] }) },
+  warp: { label: 'Domain Warp', inputs: ['source'], defaultParams: () => ({ amplitude: 20, frequency: 0.01, seed: 4242 }) }
+}
+
+export const GRAPH_VERSION = 1
+
+// Raised for cycles, unknown node types and malformed JSON
+export class GraphError extends Error {
+  nodeId?: string
+
+  constructor(message: string, nodeId?: string) {
+    super(message)
+    this.name = 'GraphError'
+    this.nodeId = nodeId
+  }
+}
+
+let nextNodeId = 1
+
+export function createGraphNode(type: GraphNodeType, x: number, y: number, params?: Record<string, GraphParamValue>): GraphNode {
+  const definition = NODE_DEFINITIONS[type]
+  return {
+    id: `${type}-${nextNodeId++}-${Date.now().toString(36)}`,
+    type,
+    x,
+    y,
+    params: { ...definition.defaultParams(), ...params },
+    inputs: Object.fromEntries(definition.inputs.map(input => [input, null]))
+  }
+}
+
+// Starter graph: a single noise source feeding the output
+export function createDefaultGraph(settings?: NoiseSettings): NoiseGraph {
+  const noise = createGraphNode('noise', 20, 40, settings ? {
+    noiseType: settings.noiseType,
+    seed: settings.seed,
+    frequency: settings.frequency,
+    fractalType: settings.fractalType,
+    octaves: settings.fractalOctaves
+  } : undefined)
+  const output = createGraphNode('output', 300, 60)
+  output.inputs.value = noise.id
+  return { version: GRAPH_VERSION, nodes: [noise, output] }
+}
+
+export function serializeGraph(graph: NoiseGraph): string {
+  return JSON.stringify(graph, null, 2)
+}
+
+export function parseGraph(json: string): NoiseGraph {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch (error) {
+    throw new GraphError(`Invalid JSON: ${(error as Error).message}`)
+  }
+  const graph = data as Partial<NoiseGraph>
+  if (!graph || !Array.isArray(graph.nodes)) throw new GraphError('Graph JSON must contain a "nodes" array')
+  const nodes = graph.nodes.map((node, index) => {
+    if (!node || typeof node.id !== 'string') throw new GraphError(`Node ${index} has no id`)
+    if (!(node.type in NODE_DEFINITIONS)) throw new GraphError(`Unknown node type "${node.type}"`, node.id)
+    const definition = NODE_DEFINITIONS[node.type]
+    return {
+      id: node.id,
+      type: node.type,
+      x: Number(node.x) || 0,
+      y: Number(node.y) || 0,
+      params: { ...definition.defaultParams(), ...node.params },
+      inputs: Object.fromEntries(definition.inputs.map(input => [input, node.inputs?.[input] ?? null]))
+    }
+  })
+  return { version: graph.version ?? GRAPH_VERSION, nodes }
+}
+
+// Piecewise-linear curve through sorted [x, y] points, flat outside the ends
+export function evaluateCurve(points: number[][], value: number): number {
+  if (points.length === 0) return value
+  if (value <= points[0][0]) return points[0][1]
+  for (let i = 1; i < points.length; i++) {
+    const [x1, y1] = points[i]
+    if (value <= x1) {
+      const [x0, y0] = points[i - 1]
+      const t = x1 === x0 ? 0 : (value - x0) / (x1 - x0)
+      return y0 + (y1 - y0) * t
+    }
+  }
+  return points[points.length - 1][1]
+}
+
+export type GraphEvaluator = (x: number, y: number, z: number) => number
+
+// Numbers are the only params spliced into generated code, so force them to finite literals
+function num(value: GraphParamValue | undefined, fallback = 0): string {
+  const n = Number(value)
+  return String(Number.isFinite(n) ? n : fallback)
+}
+
+function buildNoiseSettings(params: Record<string, GraphParamValue>): NoiseSettings {
+  if (params.settings && typeof params.settings === 'object' && !Array.isArray(params.settings)) {
+    return { ...(params.settings as NoiseSettings), domainWarpAmp: 0, domainWarpFractalType: 'None' }
+  }
+  return {
+    noiseType: String(params.noiseType ?? 'OpenSimplex2'),
+    rotationType3D: 'None',
+    seed: Number(params.seed) || 0,
+    frequency: Number(params.frequency) || 0.01,
+    fractalType: String(params.fractalType ?? 'None'),
+    fractalOctaves: Math.max(1, Math.round(Number(params.octaves) || 1)),
+    fractalLacunarity: 2.0,
+    fractalGain: 0.5,
+    fractalWeightedStrength: 0,
+    fractalPingPongStrength: 2.0,
+    cellularDistanceFunction: 'EuclideanSq',
+    cellularReturnType: 'Distance',
+    cellularJitter: 1.0,
+    domainWarpType: 'OpenSimplex2',
+    domainWarpAmp: 0,
+    domainWarpFractalType: 'None',
+    domainWarpFractalOctaves: 3,
+    domainWarpFractalLacunarity: 2.0,
+    domainWarpFractalGain: 0.5
+  }
+}
+
+// True when `nodeId` reads `targetId` through its inputs (or is it), so wiring nodeId into targetId would close a cycle
+export function dependsOn(graph: NoiseGraph, nodeId: string, targetId: string): boolean {
+  const byId = new Map(graph.nodes.map(node => [node.id, node]))
+  const seen = new Set<string>()
+  const stack = [nodeId]
+  while (stack.length > 0) {
+    const id = stack.pop()!
+    if (id === targetId) return true
+    if (seen.has(id)) continue
+    seen.add(id)
+    for (const source of Object.values(byId.get(id)?.inputs ?? {})) {
+      if (source) stack.push(source)
+    }
+  }
+  return false
+}
+
+// First node found on a cycle upstream of `startId`, by node id alone (warp frames don't matter)
+function findCycle(byId: Map<string, GraphNode>, startId: string): string | undefined {
+  const done = new Set<string>()
+  const visiting = new Set<string>()
+  const visit = (id: string): string | undefined => {
+    if (done.has(id) || !byId.has(id)) return undefined
+    if (visiting.has(id)) return id
+    visiting.add(id)
+    for (const source of Object.values(byId.get(id)!.inputs)) {
+      const cycle = source ? visit(source) : undefined
+      if (cycle) return cycle
+    }
+    visiting.delete(id)
+    done.add(id)
+    return undefined
+  }
+  return visit(startId)
+}
+
+// Compile the graph for 2D (heightmap: noise sampled at x/z) or 3D (density) evaluation.
+// Shared sub-graphs are emitted once per coordinate frame; warp nodes open a new frame.
+export function compileNoiseGraph(graph: NoiseGraph, dimension: 2 | 3): GraphEvaluator {
+  const byId = new Map(graph.nodes.map(node => [node.id, node]))
+  const output = graph.nodes.find(node => node.type === 'output')
+  if (!output) throw new GraphError('Graph has no output node')
+  // Checked up front: each warp node re-emits its sources in a new frame, so a cycle through one never repeats a key
+  const cycleNode = findCycle(byId, output.id)
+  if (cycleNode) throw new GraphError('Graph contains a cycle', cycleNode)
+
+  const lines: string[] = []
+  const engines: FastNoiseLite[] = []
+  const curves: number[][][] = []
+  const emitted = new Map<string, string>()
+  let counter = 0
+
+  const newVar = (expression: string) => {
+    const name = `v${counter++}`
+    lines.push(`const ${name} = ${expression}`)
+    return name
+  }
+
+  const input = (node: GraphNode, port: string, frame: string[]): string => {
+    const sourceId = node.inputs[port]
+    if (!sourceId) return '0'
+    if (!byId.has(sourceId)) throw new GraphError(`Input "${port}" points to a missing node`, node.id)
+    return emit(sourceId, frame)
+  }
+
+  const emit = (id: string, frame: string[]): string => {
+    const key = `${id}@${frame.join(',')}`
+    const cached = emitted.get(key)
+    if (cached) return cached
+
+    const node = byId.get(id)!
+    const p = node.params
+    const [x, y, z] = frame
+    let result: string
+
+    switch (node.type) {
+      case 'output':
+        result = input(node, 'value', frame)
+        break
+      case 'constant':
+        result = num(p.value)
+        break
+      case 'coord': {
+        const axis = p.axis === 'x' ? x : p.axis === 'z' ? z : y
+        result = newVar(`${axis} * ${num(p.scale, 1)}`)
+        break
+      }
+      case 'noise': {
+        const index = engines.push(createNoiseEngines(buildNoiseSettings(p)).base) - 1
+        result = newVar(dimension === 2 ? `e[${index}].GetNoise(${x}, ${z})` : `e[${index}].GetNoise(${x}, ${y}, ${z})`)
+        break
+      }
+      case 'math': {
+        const a = input(node, 'a', frame)
+        const b = input(node, 'b', frame)
+        switch (p.op) {
+          case 'sub': result = newVar(`${a} - ${b}`); break
+          case 'mul': result = newVar(`${a} * ${b}`); break
+          case 'div': result = newVar(`${b} !== 0 ? ${a} / ${b} : 0`); break
+          case 'min': result = newVar(`Math.min(${a}, ${b})`); break
+          case 'max': result = newVar(`Math.max(${a}, ${b})`); break
+          case 'pow': result = newVar(`Math.pow(${a}, ${b})`); break
+          case 'add': result = newVar(`${a} + ${b}`); break
+          default: throw new GraphError(`Unknown math op "${p.op}"`, node.id)
+        }
+        break
+      }
+      case 'unary': {
+        const a = input(node, 'a', frame)
+        switch (p.op) {
+          case 'abs': result = newVar(`Math.abs(${a})`); break
+          case 'neg': result = newVar(`-(${a})`); break
+          case 'oneMinus': result = newVar(`1 - ${a}`); break
+          case 'sqrt': result = newVar(`Math.sqrt(Math.max(0, ${a}))`); break
+          case 'sin': result = newVar(`Math.sin(${a})`); break
+          case 'cos': result = newVar(`Math.cos(${a})`); break
+          case 'floor': result = newVar(`Math.floor(${a})`); break
+          case 'sign': result = newVar(`Math.sign(${a})`); break
+          default: throw new GraphError(`Unknown function "${p.op}"`, node.id)
+        }
+        break
+      }
+      case 'remap': {
+        const value = input(node, 'value', frame)
+        const inMin = Number(num(p.inMin)), inMax = Number(num(p.inMax, 1))
+        const outMin = Number(num(p.outMin)), outMax = Number(num(p.outMax, 1))
+        const scale = inMax === inMin ? 0 : (outMax - outMin) / (inMax - inMin)
+        result = newVar(`${outMin} + (${value} - ${inMin}) * ${scale}`)
+        break
+      }
+      case 'clamp': {
+        const value = input(node, 'value', frame)
+        result = newVar(`Math.min(${num(p.max, 1)}, Math.max(${num(p.min, -1)}, ${value}))`)
+        break
+      }
+      case 'curve': {
+        const value = input(node, 'value', frame)
+        const points = (Array.isArray(p.points) ? p.points : [])
+          .map(point => [Number(point[0]) || 0, Number(point[1]) || 0])
+          .sort((a, b) => a[0] - b[0])
+        const index = curves.push(points) - 1
+        result = newVar(`curve(k[${index}], ${value})`)
+        break
+      }
+      case 'warp': {
+        // One offset noise per axis, seeded apart so the axes are independent
+        const axisEngine = (seedOffset: number) => {
+          const engine = new FastNoiseLite()
+          engine.SetSeed((Number(p.seed) || 0) + seedOffset)
+          engine.SetFrequency(Number(p.frequency) || 0.01)
+          return engines.push(engine) - 1
+        }
+        const amp = num(p.amplitude)
+        const ex = axisEngine(0), ez = axisEngine(2)
+        let warped: string[]
+        if (dimension === 2) {
+          const wx = newVar(`${x} + e[${ex}].GetNoise(${x}, ${z}) * ${amp}`)
+          const wz = newVar(`${z} + e[${ez}].GetNoise(${x}, ${z}) * ${amp}`)
+          warped = [wx, y, wz]
+        } else {
+          const ey = axisEngine(1)
+          const wx = newVar(`${x} + e[${ex}].GetNoise(${x}, ${y}, ${z}) * ${amp}`)
+          const wy = newVar(`${y} + e[${ey}].GetNoise(${x}, ${y}, ${z}) * ${amp}`)
+          const wz = newVar(`${z} + e[${ez}].GetNoise(${x}, ${y}, ${z}) * ${amp}`)
+          warped = [wx, wy, wz]
+        }
+        result = input(node, 'source', warped)
+        break
+      }
+      default:
+        throw new GraphError(`Unknown node type "${(node as GraphNode).type}"`, node.id)
+    }
+
+    emitted.set(key, result)
+    return result
+  }
+
+  const out = emit(output.id, ['x', 'y', 'z'])
+  const body = `${lines.join('\n')}\nreturn ${out}`
+  const factory = new Function('e', 'k', 'curve', `return function graph(x, y, z) {\n${body}\n}`)
+  return factory(engines, curves, evaluateCurve) as GraphEvaluator
+}
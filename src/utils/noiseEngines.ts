@@ -0,0 +1,163 @@
+// Noise Engines
+// Maps UI noise settings onto configured FastNoiseLite instances
+
+import FastNoiseLite from 'fastnoise-lite'
+
+export interface NoiseSettings {
+  // General
+  noiseType: string
+  rotationType3D: string
+  seed: number
+  frequency: number
+  // Fractal
+  fractalType: string
+  fractalOctaves: number
+  fractalLacunarity: number
+  fractalGain: number
+  fractalWeightedStrength: number
+  fractalPingPongStrength: number
+  // Cellular
+  cellularDistanceFunction: string
+  cellularReturnType: string
+  cellularJitter: number
+  // Domain Warp
+  domainWarpType: string
+  domainWarpAmp: number
+  domainWarpSeed?: number
+  domainWarpFrequency?: number
+  domainWarpMode?: string // 'Manual' (fbm offsets) or 'Native' (FastNoiseLite DomainWarp)
+  // Domain Warp Fractal
+  domainWarpFractalType: string
+  domainWarpFractalOctaves: number
+  domainWarpFractalLacunarity: number
+  domainWarpFractalGain: number
+}
+
+export interface NoiseEngines {
+  base: FastNoiseLite
+  warp?: FastNoiseLite
+  warpY?: FastNoiseLite // second axis for manual warp
+}
+
+// Configure FastNoiseLite engines (base + optional warp) from UI settings
+export function createNoiseEngines(settings?: NoiseSettings): NoiseEngines {
+  const seed = settings?.seed ?? 12345
+  const frequency = settings?.frequency ?? 0.01
+
+  // Base noise used for sampling
+  const base = new FastNoiseLite()
+  base.SetSeed(seed)
+  base.SetFrequency(frequency)
+  // Map noise type from UI (capitalized values)
+  switch (settings?.noiseType) {
+    case 'Perlin': base.SetNoiseType(FastNoiseLite.NoiseType.Perlin); break
+    case 'OpenSimplex2': base.SetNoiseType(FastNoiseLite.NoiseType.OpenSimplex2); break
+    case 'OpenSimplex2S': base.SetNoiseType(FastNoiseLite.NoiseType.OpenSimplex2S); break
+    case 'Cellular': base.SetNoiseType(FastNoiseLite.NoiseType.Cellular); break
+    case 'ValueCubic': base.SetNoiseType(FastNoiseLite.NoiseType.ValueCubic); break
+    case 'Value': base.SetNoiseType(FastNoiseLite.NoiseType.Value); break
+    default: base.SetNoiseType(FastNoiseLite.NoiseType.OpenSimplex2)
+  }
+  switch (settings?.rotationType3D) {
+    case 'ImproveXYPlanes': base.SetRotationType3D(FastNoiseLite.RotationType3D.ImproveXYPlanes); break
+    case 'ImproveXZPlanes': base.SetRotationType3D(FastNoiseLite.RotationType3D.ImproveXZPlanes); break
+    default: base.SetRotationType3D(FastNoiseLite.RotationType3D.None)
+  }
+
+  // Cellular options (only used by FastNoiseLite when the noise type is Cellular)
+  switch (settings?.cellularDistanceFunction) {
+    case 'Euclidean': base.SetCellularDistanceFunction(FastNoiseLite.CellularDistanceFunction.Euclidean); break
+    case 'Manhattan': base.SetCellularDistanceFunction(FastNoiseLite.CellularDistanceFunction.Manhattan); break
+    case 'Hybrid': base.SetCellularDistanceFunction(FastNoiseLite.CellularDistanceFunction.Hybrid); break
+    default: base.SetCellularDistanceFunction(FastNoiseLite.CellularDistanceFunction.EuclideanSq)
+  }
+  switch (settings?.cellularReturnType) {
+    case 'CellValue': base.SetCellularReturnType(FastNoiseLite.CellularReturnType.CellValue); break
+    case 'Distance2': base.SetCellularReturnType(FastNoiseLite.CellularReturnType.Distance2); break
+    case 'Distance2Add': base.SetCellularReturnType(FastNoiseLite.CellularReturnType.Distance2Add); break
+    case 'Distance2Sub': base.SetCellularReturnType(FastNoiseLite.CellularReturnType.Distance2Sub); break
+    case 'Distance2Mul': base.SetCellularReturnType(FastNoiseLite.CellularReturnType.Distance2Mul); break
+    case 'Distance2Div': base.SetCellularReturnType(FastNoiseLite.CellularReturnType.Distance2Div); break
+    default: base.SetCellularReturnType(FastNoiseLite.CellularReturnType.Distance)
+  }
+  base.SetCellularJitter(settings?.cellularJitter ?? 1.0)
+
+  // Regular fractal for base sampling only (ignore DomainWarp* here)
+  if (settings && settings.fractalType && settings.fractalType !== 'None') {
+    switch (settings.fractalType) {
+      case 'FBm': base.SetFractalType(FastNoiseLite.FractalType.FBm); break
+      case 'Ridged': base.SetFractalType(FastNoiseLite.FractalType.Ridged); break
+      case 'PingPong': base.SetFractalType(FastNoiseLite.FractalType.PingPong); break
+      // If UI has DomainWarp* selected in the Fractal panel, don't apply to base
+      default: base.SetFractalType(FastNoiseLite.FractalType.None); break
+    }
+    if (settings.fractalType === 'FBm' || settings.fractalType === 'Ridged' || settings.fractalType === 'PingPong') {
+      base.SetFractalOctaves(settings.fractalOctaves)
+      base.SetFractalLacunarity(settings.fractalLacunarity)
+      base.SetFractalGain(settings.fractalGain)
+      if (settings.fractalWeightedStrength !== undefined) base.SetFractalWeightedStrength(settings.fractalWeightedStrength)
+      if (settings.fractalPingPongStrength !== undefined) base.SetFractalPingPongStrength(settings.fractalPingPongStrength)
+    }
+  }
+
+  // Optional warp engine; use separate instance so settings don't conflict
+  let warp: FastNoiseLite | undefined
+  let warpY: FastNoiseLite | undefined
+  const warpAmp = settings?.domainWarpAmp ?? 0
+  const warpFractalType = settings?.domainWarpFractalType ?? 'None'
+
+  if (settings && (warpAmp !== 0 || warpFractalType !== 'None')) {
+    const wSeed = settings.domainWarpSeed ?? seed + 9999
+    const wFreq = settings.domainWarpFrequency ?? frequency
+
+    warp = new FastNoiseLite()
+    warp.SetSeed(wSeed)
+    warp.SetFrequency(wFreq)
+    switch (settings.domainWarpType) {
+      case 'OpenSimplex2Reduced': warp.SetDomainWarpType(FastNoiseLite.DomainWarpType.OpenSimplex2Reduced); break
+      case 'BasicGrid': warp.SetDomainWarpType(FastNoiseLite.DomainWarpType.BasicGrid); break
+      default: warp.SetDomainWarpType(FastNoiseLite.DomainWarpType.OpenSimplex2); break
+    }
+    warp.SetDomainWarpAmp(warpAmp)
+    // 3D warp uses the same plane rotation as the base noise, like the C#/C++ ports
+    switch (settings.rotationType3D) {
+      case 'ImproveXYPlanes': warp.SetRotationType3D(FastNoiseLite.RotationType3D.ImproveXYPlanes); break
+      case 'ImproveXZPlanes': warp.SetRotationType3D(FastNoiseLite.RotationType3D.ImproveXZPlanes); break
+      default: warp.SetRotationType3D(FastNoiseLite.RotationType3D.None)
+    }
+    // Dedicated domain warp frequency if API exists
+    if (typeof warp.SetDomainWarpFrequency === 'function' && settings.domainWarpFrequency != null) {
+      warp.SetDomainWarpFrequency(settings.domainWarpFrequency)
+    }
+    // Domain warp fractal controls live in the same FractalType enum in the JS port
+    switch (warpFractalType) {
+      case 'Progressive':
+        if (typeof warp.SetDomainWarpFractalType === 'function') warp.SetDomainWarpFractalType(FastNoiseLite.DomainWarpFractalType.Progressive)
+        else warp.SetFractalType(FastNoiseLite.FractalType.DomainWarpProgressive)
+        break
+      case 'Independent':
+        if (typeof warp.SetDomainWarpFractalType === 'function') warp.SetDomainWarpFractalType(FastNoiseLite.DomainWarpFractalType.Independent)
+        else warp.SetFractalType(FastNoiseLite.FractalType.DomainWarpIndependent)
+        break
+      default:
+        if (typeof warp.SetDomainWarpFractalType === 'function') warp.SetDomainWarpFractalType(FastNoiseLite.DomainWarpFractalType.None)
+        else warp.SetFractalType(FastNoiseLite.FractalType.None)
+        break
+    }
+    if (warpFractalType !== 'None') {
+      if (typeof warp.SetDomainWarpFractalOctaves === 'function') warp.SetDomainWarpFractalOctaves(settings.domainWarpFractalOctaves)
+      else warp.SetFractalOctaves(settings.domainWarpFractalOctaves)
+      if (typeof warp.SetDomainWarpFractalLacunarity === 'function') warp.SetDomainWarpFractalLacunarity(settings.domainWarpFractalLacunarity)
+      else warp.SetFractalLacunarity(settings.domainWarpFractalLacunarity)
+      if (typeof warp.SetDomainWarpFractalGain === 'function') warp.SetDomainWarpFractalGain(settings.domainWarpFractalGain)
+      else warp.SetFractalGain(settings.domainWarpFractalGain)
+    }
+
+    // Prepare second axis for manual warp
+    warpY = new FastNoiseLite()
+    warpY.SetSeed(wSeed + 1337)
+    warpY.SetFrequency(wFreq)
+  }
+
+  return { base, warp, warpY }
+}
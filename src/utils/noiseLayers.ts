@@ -0,0 +1,50 @@
+// Noise Layers
+// Ordered stack of noise layers (continents + hills + detail, ...) blended into one value
+
+import type { NoiseSettings } from './noiseEngines'
+
+export type BlendMode = 'add' | 'multiply' | 'min' | 'max' | 'lerp'
+
+export const BLEND_MODES: BlendMode[] = ['add', 'multiply', 'min', 'max', 'lerp']
+
+export interface NoiseLayer {
+  id: string
+  name: string
+  enabled: boolean
+  settings: NoiseSettings // Full FastNoiseLite settings for this layer
+  weight: number // Layer value is scaled by this before blending ('lerp': scales the mask)
+  blendMode: BlendMode // How the layer combines with the layers above it
+  mask?: NoiseSettings // Mask noise for 'lerp' (-1..1 mapped to 0..1); without one the lerp factor is just weight
+}
+
+let nextLayerId = 1
+
+export function createNoiseLayer(settings: NoiseSettings, overrides: Partial<NoiseLayer> = {}): NoiseLayer {
+  const id = nextLayerId++
+  return {
+    id: `layer-${id}-${Date.now().toString(36)}`,
+    name: `Layer ${id}`,
+    enabled: true,
+    settings: { ...settings },
+    weight: 1,
+    blendMode: 'add',
+    ...overrides
+  }
+}
+
+// Combine the accumulated value with the next layer's weighted value.
+// maskValue is only used by 'lerp' and is expected in 0..1.
+export function blendLayerValue(acc: number, value: number, layer: NoiseLayer, maskValue = 1): number {
+  const v = value * layer.weight
+  switch (layer.blendMode) {
+    case 'multiply': return acc * v
+    case 'min': return Math.min(acc, v)
+    case 'max': return Math.max(acc, v)
+    case 'lerp': return acc + (value - acc) * Math.min(1, Math.max(0, maskValue * layer.weight))
+    default: return acc + v
+  }
+}
+
+export function getActiveLayers(layers?: NoiseLayer[]): NoiseLayer[] {
+  return layers ? layers.filter(layer => layer.enabled) : []
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest'
+import { createNoiseSampler } from './noiseSampler'
+import { createTerrainHeightFunction } from './terrainHeight'
+import { createChunkDensityFunction, createChunkSamplerOptions } from './chunkGenerator'
+import type { NoiseSettings } from './noiseEngines'
+import type { ChunkGenerationSettings } from './chunkGenerator'
+
+// Panel defaults from App, with a visible warp
+const noiseSettings: NoiseSettings = {
+  noiseType: 'OpenSimplex2',
+  rotationType3D: 'None',
+  seed: 1337,
+  frequency: 0.05,
+  fractalType: 'FBm',
+  fractalOctaves: 3,
+  fractalLacunarity: 2,
+  fractalGain: 0.5,
+  fractalWeightedStrength: 0,
+  fractalPingPongStrength: 2,
+  cellularDistanceFunction: 'EuclideanSq',
+  cellularReturnType: 'Distance',
+  cellularJitter: 1,
+  domainWarpType: 'OpenSimplex2',
+  domainWarpAmp: 20,
+  domainWarpSeed: 1337,
+  domainWarpFrequency: 0.01,
+  domainWarpMode: 'Manual',
+  domainWarpFractalType: 'None',
+  domainWarpFractalOctaves: 3,
+  domainWarpFractalLacunarity: 2,
+  domainWarpFractalGain: 0.5
+}
+
+const SIZE = 16
+
+function chunkSettings(offsetX: number, offsetZ: number, use3D: boolean): ChunkGenerationSettings {
+  return {
+    sizeX: SIZE, sizeY: SIZE, sizeZ: SIZE,
+    amplitude: 6, verticalOffset: 8,
+    noiseSettings,
+    mathExpression: 'N',
+    offsetX, offsetZ,
+    isolevel: 0, use3D, isSmooth: false, smoothMesher: 'marchingCubes',
+    blocksEnabled: false, seaLevel: -1, beachWidth: 0, seamless: false,
+    heightmap: null
+  }
+}
+
+// Preview and chunk build their samplers separately; both must agree at every chunk-local coordinate
+describe('preview and chunk sampling', () => {
+  for (const [offsetX, offsetZ] of [[0, 0], [37, -12], [-250.5, 96.25]]) {
+    describe(`offset ${offsetX}, ${offsetZ}`, () => {
+      // NoisePreview: raw noise from a sampler with only the view offsets
+      const preview = createNoiseSampler(noiseSettings, { offsetX, offsetZ })
+      const chunk = createNoiseSampler(noiseSettings, createChunkSamplerOptions(chunkSettings(offsetX, offsetZ, false)))
+
+      it('samples identical 2D noise', () => {
+        for (let x = 0; x < SIZE; x++) {
+          for (let z = 0; z < SIZE; z++) expect(chunk.noise2D(x, z)).toBe(preview.noise2D(x, z))
+        }
+      })
+
+      it('fills the 2D grid with the preview values', () => {
+        const grid = chunk.fillGrid2D(SIZE, SIZE)
+        for (let x = 0; x < SIZE; x++) {
+          for (let z = 0; z < SIZE; z++) expect(grid[x * SIZE + z]).toBeCloseTo(preview.noise2D(x, z), 6)
+        }
+      })
+
+      it('fills the 3D grid with the preview values', () => {
+        const grid = chunk.fillGrid3D(SIZE, SIZE, SIZE)
+        for (let x = 0; x < SIZE; x += 3) {
+          for (let y = 0; y < SIZE; y += 3) {
+            for (let z = 0; z < SIZE; z += 3) expect(grid[(x * SIZE + y) * SIZE + z]).toBeCloseTo(preview.noise3D(x, y, z), 6)
+          }
+        }
+      })
+
+      it('builds 2D chunk density from the preview terrain height', () => {
+        // NoisePreview's sea tint path: terrain height from its own sampler and options
+        const terrainOptions = { offsetX, offsetZ, mathExpression: 'N', chunkSize: { x: SIZE, y: SIZE, z: SIZE } }
+        const heightAt = createTerrainHeightFunction(
+          createNoiseSampler(noiseSettings, terrainOptions),
+          { amplitude: 6, verticalOffset: 8, sizeY: SIZE },
+          noiseSettings,
+          terrainOptions
+        )
+        const density = createChunkDensityFunction(chunkSettings(offsetX, offsetZ, false))
+        for (let x = 0; x < SIZE; x += 2) {
+          for (let z = 0; z < SIZE; z += 2) expect(density(x, 5, z)).toBe(5 - heightAt(x, z))
+        }
+      })
+
+      it('builds 3D chunk density from the preview noise', () => {
+        const density = createChunkDensityFunction(chunkSettings(offsetX, offsetZ, true))
+        for (let x = 0; x < SIZE; x += 3) {
+          for (let z = 0; z < SIZE; z += 3) expect(density(x, 4, z)).toBe(-preview.noise3D(x, 4, z))
+        }
+      })
+    })
+  }
+})
+
+describe('native domain warp', () => {
+  for (const domainWarpType of ['OpenSimplex2', 'OpenSimplex2Reduced', 'BasicGrid']) {
+    it(`moves sample points with ${domainWarpType}`, () => {
+      const settings = { ...noiseSettings, domainWarpType, domainWarpMode: 'Native', domainWarpFractalType: 'Progressive' }
+      const warped = createNoiseSampler(settings)
+      const unwarped = createNoiseSampler({ ...settings, domainWarpAmp: 0, domainWarpFractalType: 'None' })
+      expect(warped.warpMode).toBe('Native')
+      let changed = 0
+      for (let i = 0; i < 20; i++) {
+        if (warped.noise2D(i * 3.5, i * -2.25) !== unwarped.noise2D(i * 3.5, i * -2.25)) changed++
+        if (warped.noise3D(i * 3.5, i, i * -2.25) !== unwarped.noise3D(i * 3.5, i, i * -2.25)) changed++
+      }
+      expect(changed).toBeGreaterThan(30)
+    })
+  }
+})
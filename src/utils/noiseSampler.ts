@@ -0,0 +1,272 @@
+// Noise Sampler
+// Headless FastNoiseLite setup shared by the chunk generator and the 2D preview,
+// so both always sample identical values for identical coordinates.
+
+import FastNoiseLite from 'fastnoise-lite'
+import { createNoiseEngines } from './noiseEngines'
+import type { NoiseSettings } from './noiseEngines'
+import { blendLayerValue, getActiveLayers } from './noiseLayers'
+import type { NoiseLayer } from './noiseLayers'
+import { compileNoiseGraph } from './nodeGraph'
+import { collectVariables, compileExpression, parseExpression } from './mathExpression'
+import type { ExpressionScope } from './mathExpression'
+import type { GraphEvaluator, NoiseGraph } from './nodeGraph'
+import { createTiledSampler } from './tiling'
+import { createDomainWarp } from './domainWarp'
+
+export interface NoiseSamplerOptions {
+  offsetX?: number // Added to X before warping
+  offsetZ?: number // Added to Z before warping
+  mathExpression?: string // Expression applied to noise values ("N" = raw noise)
+  expressionInputs?: Record<string, NoiseSettings> // Extra named noises for the expression (N2, N3, ...)
+  chunkSize?: { x: number, y: number, z: number } // Exposed to the expression as SX/SY/SZ
+  layers?: NoiseLayer[] // When any layer is enabled, N is the blended layer stack instead of the base settings
+  graph?: NoiseGraph // Node graph output used as N (takes priority over layers); invalid graphs fall back
+  tilePeriod?: number // When set, N (and the expression inputs) repeat every this many world units in X and Z
+}
+
+export type WarpMode = 'None' | 'Manual' | 'Native'
+
+export interface NoiseSampler {
+  // Warp path actually in use
+  warpMode: WarpMode
+  // Raw (warped) noise, offsets applied, no expression
+  noise2D(x: number, z: number): number
+  noise3D(x: number, y: number, z: number): number
+  // Noise transformed by the math expression
+  sample2D(x: number, z: number): number
+  sample3D(x: number, y: number, z: number): number
+  // Cellular cell id in -1..1 at the same (warped) position, whatever the return type
+  cellValue2D(x: number, z: number): number
+  // Apply the math expression to any value as N at a chunk-local position
+  transform2D(value: number, x: number, z: number): number
+  transform3D(value: number, x: number, y: number, z: number): number
+  // Bulk sampling into typed arrays; layouts match the chunk loops
+  // 2D: index = x * sizeZ + z, 3D: index = (x * sizeY + y) * sizeZ + z
+  fillGrid2D(sizeX: number, sizeZ: number, out?: Float32Array): Float32Array
+  fillGrid3D(sizeX: number, sizeY: number, sizeZ: number, out?: Float32Array): Float32Array
+}
+
+// FBM helpers for manual warp
+function fbm2D(n: FastNoiseLite, x: number, y: number, oct: number, lac: number, gain: number) {
+  let amp = 1, freq = 1, sum = 0, norm = 0
+  for (let i = 0; i < Math.max(1, oct); i++) {
+    sum += amp * n.GetNoise(x * freq, y * freq)
+    norm += amp
+    amp *= gain
+    freq *= lac
+  }
+  return sum / (norm || 1)
+}
+
+function fbm3D(n: FastNoiseLite, x: number, y: number, z: number, oct: number, lac: number, gain: number) {
+  let amp = 1, freq = 1, sum = 0, norm = 0
+  for (let i = 0; i < Math.max(1, oct); i++) {
+    sum += amp * n.GetNoise(x * freq, y * freq, z * freq)
+    norm += amp
+    amp *= gain
+    freq *= lac
+  }
+  return sum / (norm || 1)
+}
+
+// World coordinates (offsets included) and chunk dimensions; Y is 0 for 2D heightmap columns
+export const COORDINATE_VARIABLES = ['X', 'Y', 'Z', 'SX', 'SY', 'SZ']
+
+// Every variable name a math expression may use with the given extra noise inputs
+export function getExpressionVariables(expressionInputs?: Record<string, NoiseSettings>): string[] {
+  return ['N', ...Object.keys(expressionInputs ?? {}), ...COORDINATE_VARIABLES]
+}
+
+// Compile the math expression once; returns undefined for invalid expressions so noise
+// is left untouched (NoisePreview shows the parse error).
+function compileMathExpression(expression: string, variables: string[]) {
+  try {
+    const ast = parseExpression(expression, variables)
+    return { evaluate: compileExpression(expression, variables), uses: collectVariables(ast) }
+  } catch {
+    return undefined
+  }
+}
+
+// Blend every enabled layer, each sampled with its own settings and warp
+function createLayerStack(layers: NoiseLayer[], offsetX: number, offsetZ: number) {
+  const entries = layers.map(layer => ({
+    layer,
+    sampler: createNoiseSampler(layer.settings, { offsetX, offsetZ }),
+    mask: layer.blendMode === 'lerp' && layer.mask ? createNoiseSampler(layer.mask, { offsetX, offsetZ }) : undefined
+  }))
+
+  const combine = (sample: (s: NoiseSampler) => number) => {
+    let acc = 0
+    for (let i = 0; i < entries.length; i++) {
+      const { layer, sampler, mask } = entries[i]
+      const value = sample(sampler)
+      if (i === 0) {
+        // First layer seeds the accumulator regardless of its blend mode
+        acc = value * layer.weight
+        continue
+      }
+      const maskValue = mask ? (sample(mask) + 1) * 0.5 : 1
+      acc = blendLayerValue(acc, value, layer, maskValue)
+    }
+    return acc
+  }
+
+  return {
+    noise2D: (x: number, z: number) => combine(s => s.noise2D(x, z)),
+    noise3D: (x: number, y: number, z: number) => combine(s => s.noise3D(x, y, z))
+  }
+}
+
+export function createNoiseSampler(settings?: NoiseSettings, options: NoiseSamplerOptions = {}): NoiseSampler {
+  const { offsetX = 0, offsetZ = 0, mathExpression = 'N', expressionInputs = {}, chunkSize, tilePeriod } = options
+  const { base, warp, warpY } = createNoiseEngines(settings)
+
+  // Pre-read warp params
+  const ampW = settings?.domainWarpAmp ?? 0
+  const octW = settings && settings.domainWarpFractalType !== 'None' ? settings.domainWarpFractalOctaves : 1
+  const lacW = settings?.domainWarpFractalLacunarity ?? 2.0
+  const gainW = settings?.domainWarpFractalGain ?? 0.5
+  const nativeWarp = warp && settings?.domainWarpMode === 'Native' ? createDomainWarp(warp) : undefined
+  const warpMode: WarpMode = nativeWarp ? 'Native' : warp && ampW !== 0 ? 'Manual' : 'None'
+  const useWarp = warpMode === 'Manual'
+  const wy = warpY ?? warp
+  // Reused coordinate holders for the native path
+  const p2 = { x: 0, y: 0 }
+  const p3 = { x: 0, y: 0, z: 0 }
+
+  // Cell value engine is only built when the overlay asks for it
+  let cellEngine: FastNoiseLite | undefined
+
+  const warpPoint2D = (x: number, z: number): [number, number] => {
+    let wx = x + offsetX, wz = z + offsetZ
+    if (nativeWarp) {
+      p2.x = wx; p2.y = wz
+      nativeWarp.warp2D(p2)
+      return [p2.x, p2.y]
+    }
+    if (useWarp) {
+      // Manual domain warp: two independent offsets
+      const dx = fbm2D(warp!, wx, wz, octW, lacW, gainW) * ampW
+      const dz = fbm2D(wy!, wx + 123.45, wz - 987.65, octW, lacW, gainW) * ampW
+      wx += dx; wz += dz
+    }
+    return [wx, wz]
+  }
+
+  const baseNoise2D = (x: number, z: number) => {
+    const [wx, wz] = warpPoint2D(x, z)
+    return base.GetNoise(wx, wz)
+  }
+
+  const cellValue2D = (x: number, z: number) => {
+    if (!cellEngine) {
+      cellEngine = createNoiseEngines({ ...(settings as NoiseSettings), noiseType: 'Cellular', cellularReturnType: 'CellValue', fractalType: 'None' }).base
+    }
+    const [wx, wz] = warpPoint2D(x, z)
+    return cellEngine.GetNoise(wx, wz)
+  }
+
+  const baseNoise3D = (x: number, y: number, z: number) => {
+    let wx = x + offsetX, wy3 = y, wz = z + offsetZ
+    if (nativeWarp) {
+      p3.x = wx; p3.y = wy3; p3.z = wz
+      nativeWarp.warp3D(p3)
+      return base.GetNoise(p3.x, p3.y, p3.z)
+    }
+    if (useWarp) {
+      const dx = fbm3D(warp!, wx, wy3, wz, octW, lacW, gainW) * ampW
+      const dy = fbm3D(wy!, wx + 11.11, wy3 + 22.22, wz - 33.33, octW, lacW, gainW) * ampW
+      const dz = fbm3D(warp!, wx - 44.44, wy3 + 55.55, wz + 66.66, octW, lacW, gainW) * ampW
+      wx += dx; wy3 += dy; wz += dz
+    }
+    return base.GetNoise(wx, wy3, wz)
+  }
+
+  const activeLayers = getActiveLayers(options.layers)
+  const layerStack = activeLayers.length > 0 ? createLayerStack(activeLayers, offsetX, offsetZ) : undefined
+  let noise2D = layerStack ? layerStack.noise2D : baseNoise2D
+  let noise3D = layerStack ? layerStack.noise3D : baseNoise3D
+
+  if (options.graph) {
+    let graph2D: GraphEvaluator | undefined
+    let graph3D: GraphEvaluator | undefined
+    try {
+      graph2D = compileNoiseGraph(options.graph, 2)
+      graph3D = compileNoiseGraph(options.graph, 3)
+    } catch {
+      // Errors are reported by the graph editor; keep sampling the regular noise
+    }
+    if (graph2D && graph3D) {
+      const g2 = graph2D, g3 = graph3D
+      noise2D = (x, z) => g2(x + offsetX, 0, z + offsetZ)
+      noise3D = (x, y, z) => g3(x + offsetX, y, z + offsetZ)
+    }
+  }
+
+  if (tilePeriod) {
+    // Tile in world space: wrap the offset position, then sample the wrapped copies in chunk-local coordinates
+    const inner2D = noise2D, inner3D = noise3D
+    const tiled2D = createTiledSampler((wx, wz) => inner2D(wx - offsetX, wz - offsetZ), tilePeriod)
+    const tiled3D = createTiledSampler((wx, wz, y: number) => inner3D(wx - offsetX, y, wz - offsetZ), tilePeriod)
+    noise2D = (x, z) => tiled2D(x + offsetX, z + offsetZ)
+    noise3D = (x, y, z) => tiled3D(x + offsetX, z + offsetZ, y)
+  }
+
+  // Math expression; secondary noises are only sampled when the expression reads them
+  const expression = compileMathExpression(mathExpression, getExpressionVariables(expressionInputs))
+  const inputSamplers = Object.entries(expressionInputs)
+    .filter(([name]) => expression?.uses.has(name))
+    .map(([name, inputSettings]) => ({ name, sampler: createNoiseSampler(inputSettings, { offsetX, offsetZ, tilePeriod }) }))
+  const scope: ExpressionScope = { N: 0, X: 0, Y: 0, Z: 0, SX: chunkSize?.x ?? 32, SY: chunkSize?.y ?? 32, SZ: chunkSize?.z ?? 32 }
+
+  const evaluate = (value: number) => {
+    const result = expression!.evaluate(scope)
+    // Return the result if it's a valid number, otherwise return original noise
+    return isFinite(result) ? result : value
+  }
+
+  const transform2D = (value: number, x: number, z: number) => {
+    if (!expression) return value
+    scope.N = value; scope.X = x + offsetX; scope.Y = 0; scope.Z = z + offsetZ
+    for (const input of inputSamplers) scope[input.name] = input.sampler.noise2D(x, z)
+    return evaluate(value)
+  }
+
+  const transform3D = (value: number, x: number, y: number, z: number) => {
+    if (!expression) return value
+    scope.N = value; scope.X = x + offsetX; scope.Y = y; scope.Z = z + offsetZ
+    for (const input of inputSamplers) scope[input.name] = input.sampler.noise3D(x, y, z)
+    return evaluate(value)
+  }
+
+  return {
+    warpMode,
+    noise2D,
+    noise3D,
+    cellValue2D,
+    transform2D,
+    transform3D,
+    sample2D: (x, z) => transform2D(noise2D(x, z), x, z),
+    sample3D: (x, y, z) => transform3D(noise3D(x, y, z), x, y, z),
+    fillGrid2D(sizeX, sizeZ, out = new Float32Array(sizeX * sizeZ)) {
+      for (let x = 0; x < sizeX; x++) {
+        for (let z = 0; z < sizeZ; z++) {
+          out[x * sizeZ + z] = transform2D(noise2D(x, z), x, z)
+        }
+      }
+      return out
+    },
+    fillGrid3D(sizeX, sizeY, sizeZ, out = new Float32Array(sizeX * sizeY * sizeZ)) {
+      for (let x = 0; x < sizeX; x++) {
+        for (let y = 0; y < sizeY; y++) {
+          for (let z = 0; z < sizeZ; z++) {
+            out[(x * sizeY + y) * sizeZ + z] = transform3D(noise3D(x, y, z), x, y, z)
+          }
+        }
+      }
+      return out
+    }
+  }
+}
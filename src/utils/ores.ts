@@ -0,0 +1,115 @@
+// Ores
+// Ore layers replace stone voxels where their own 3D noise passes a threshold inside a height band
+
+import { createNoiseSampler } from './noiseSampler'
+import type { NoiseSettings } from './noiseEngines'
+
+export interface OreType {
+  id: string
+  name: string
+  color: string
+  enabled: boolean
+  seed: number
+  frequency: number
+  threshold: number // Noise above this (-1..1) becomes ore; higher = rarer
+  minHeight: number // Y band in blocks (inclusive)
+  maxHeight: number
+}
+
+export interface OreSettings {
+  enabled: boolean
+  xray: boolean // Hide every non-ore block
+  ores: OreType[] // Earlier ores win where several overlap
+}
+
+export interface OreStats {
+  id: string
+  name: string
+  color: string
+  count: number
+  percent: number // Of all solid voxels in the chunk
+  byY: number[] // Count per Y level
+}
+
+let nextOreId = 1
+
+export function createOreType(overrides: Partial<OreType> = {}): OreType {
+  const id = nextOreId++
+  return {
+    id: `ore-${id}-${Date.now().toString(36)}`,
+    name: `Ore ${id}`,
+    color: '#c05050',
+    enabled: true,
+    seed: 900 + id,
+    frequency: 0.15,
+    threshold: 0.7,
+    minHeight: 0,
+    maxHeight: 16,
+    ...overrides
+  }
+}
+
+export function createDefaultOreSettings(): OreSettings {
+  return {
+    enabled: false,
+    xray: false,
+    ores: [
+      createOreType({ name: 'Diamond', color: '#5ee6e6', seed: 71, frequency: 0.18, threshold: 0.8, minHeight: 0, maxHeight: 6 }),
+      createOreType({ name: 'Gold', color: '#f2c94c', seed: 72, frequency: 0.16, threshold: 0.72, minHeight: 0, maxHeight: 10 }),
+      createOreType({ name: 'Iron', color: '#c8a27c', seed: 73, frequency: 0.14, threshold: 0.68, minHeight: 0, maxHeight: 20 }),
+      createOreType({ name: 'Coal', color: '#2b2b2b', seed: 74, frequency: 0.12, threshold: 0.62, minHeight: 0, maxHeight: 28 })
+    ]
+  }
+}
+
+function oreNoiseSettings(base: NoiseSettings | undefined, ore: OreType): NoiseSettings {
+  return {
+    ...(base ?? {} as NoiseSettings),
+    noiseType: 'OpenSimplex2',
+    seed: ore.seed,
+    frequency: ore.frequency,
+    fractalType: 'None',
+    domainWarpAmp: 0,
+    domainWarpFractalType: 'None'
+  }
+}
+
+// Index into settings.ores of the ore at a voxel, or -1
+export type OreSampler = (x: number, y: number, z: number) => number
+
+export function createOreSampler(settings: OreSettings, noiseSettings?: NoiseSettings, offsetX = 0, offsetZ = 0): OreSampler {
+  const layers = settings.ores
+    .map((ore, index) => ({ ore, index }))
+    .filter(({ ore }) => ore.enabled)
+    .map(({ ore, index }) => ({ ore, index, sampler: createNoiseSampler(oreNoiseSettings(noiseSettings, ore), { offsetX, offsetZ }) }))
+
+  return (x, y, z) => {
+    for (const { ore, index, sampler } of layers) {
+      if (y < ore.minHeight || y > ore.maxHeight) continue
+      if (sampler.noise3D(x, y, z) > ore.threshold) return index
+    }
+    return -1
+  }
+}
+
+// Per-ore totals from the ore index of every solid voxel and its Y
+export function computeOreStats(settings: OreSettings, oreIndices: ArrayLike<number>, ys: ArrayLike<number>, sizeY: number): OreStats[] {
+  const stats: OreStats[] = settings.ores.map(ore => ({
+    id: ore.id,
+    name: ore.name,
+    color: ore.color,
+    count: 0,
+    percent: 0,
+    byY: new Array<number>(sizeY).fill(0)
+  }))
+  for (let i = 0; i < oreIndices.length; i++) {
+    const index = oreIndices[i]
+    if (index < 0) continue
+    stats[index].count++
+    const y = ys[i]
+    if (y >= 0 && y < sizeY) stats[index].byY[y]++
+  }
+  const solid = oreIndices.length
+  for (const stat of stats) stat.percent = solid > 0 ? (stat.count / solid) * 100 : 0
+  return stats
+}
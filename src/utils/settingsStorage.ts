@@ -0,0 +1,25 @@
+// Settings Storage
+// Small localStorage wrapper so editor state survives reloads
+
+const STORAGE_PREFIX = 'noiseTool.'
+
+export function loadStoredSetting<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + key)
+    if (raw === null) return fallback
+    const parsed = JSON.parse(raw)
+    // Merge objects over the fallback so fields added later get their defaults
+    const isObject = (v: unknown) => typeof v === 'object' && v !== null && !Array.isArray(v)
+    return isObject(fallback) && isObject(parsed) ? { ...fallback, ...parsed } : parsed
+  } catch {
+    return fallback
+  }
+}
+
+export function storeSetting<T>(key: string, value: T) {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value))
+  } catch {
+    // Storage full or unavailable (private mode); settings just won't persist
+  }
+}
@@ -0,0 +1,40 @@
+// Smooth Meshers
+// Polygonizers for smooth mode behind one signature, so the chunk can swap them freely.
+
+import { generateMarchingCubes } from './marchingCubes'
+import type { MarchingCubesResult } from './marchingCubes'
+import { generateDualContouring, generateSurfaceNets } from './dualMeshers'
+import { generateMarchingTetrahedra } from './marchingTetrahedra'
+
+export type SmoothMesher = 'marchingCubes' | 'marchingTetrahedra' | 'surfaceNets' | 'dualContouring'
+
+export const SMOOTH_MESHERS: SmoothMesher[] = ['marchingCubes', 'marchingTetrahedra', 'surfaceNets', 'dualContouring']
+
+// Button label and tooltip per mesher
+export const SMOOTH_MESHER_LABELS: Record<SmoothMesher, { short: string, name: string }> = {
+  marchingCubes: { short: 'cubes', name: 'Marching cubes' },
+  marchingTetrahedra: { short: 'tetra', name: 'Marching tetrahedra (no ambiguous cases)' },
+  surfaceNets: { short: 'nets', name: 'Naive surface nets (no slivers)' },
+  dualContouring: { short: 'dual', name: 'Dual contouring (keeps sharp edges)' }
+}
+
+// Density below the isolevel is solid; the mesh is centered on the grid like the chunk's cubes
+export type SmoothMeshFunction = (
+  sizeX: number,
+  sizeY: number,
+  sizeZ: number,
+  densityFunction: (x: number, y: number, z: number) => number,
+  isolevel: number,
+  use3D: boolean
+) => MarchingCubesResult
+
+const SMOOTH_MESH_FUNCTIONS: Record<SmoothMesher, SmoothMeshFunction> = {
+  marchingCubes: generateMarchingCubes,
+  marchingTetrahedra: generateMarchingTetrahedra, // The other meshers close the chunk border the same way in 2D and 3D
+  surfaceNets: generateSurfaceNets,
+  dualContouring: generateDualContouring
+}
+
+export function getSmoothMeshFunction(mesher: SmoothMesher): SmoothMeshFunction {
+  return SMOOTH_MESH_FUNCTIONS[mesher] ?? generateMarchingCubes
+}
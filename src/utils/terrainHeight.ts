@@ -0,0 +1,31 @@
+// Terrain Height
+// Column height for 2D mode, shared by the chunk and the preview:
+// blended biome height, height curve, or the linear amplitude/offset remap
+
+import { createBiomeSampler } from './biomes'
+import type { BiomeSettings } from './biomes'
+import { evaluateHeightCurve } from './heightCurve'
+import type { HeightCurve } from './heightCurve'
+import type { NoiseSettings } from './noiseEngines'
+import type { NoiseSampler, NoiseSamplerOptions } from './noiseSampler'
+
+export interface TerrainHeightSettings {
+  amplitude: number
+  verticalOffset: number // Baseline in blocks
+  sizeY: number
+  heightCurve?: HeightCurve // Used when enabled
+  biomes?: BiomeSettings // Used when enabled; takes priority over the height curve
+}
+
+// `sampler` must be built from the same noiseSettings/options (it provides the transformed noise)
+export function createTerrainHeightFunction(
+  sampler: NoiseSampler,
+  settings: TerrainHeightSettings,
+  noiseSettings?: NoiseSettings,
+  options: NoiseSamplerOptions = {}
+): (x: number, z: number) => number {
+  const { amplitude, verticalOffset, sizeY, heightCurve, biomes } = settings
+  if (biomes?.enabled) return createBiomeSampler(biomes, noiseSettings, options, sizeY).height
+  if (heightCurve?.enabled) return (x, z) => evaluateHeightCurve(heightCurve, sampler.sample2D(x, z)) * sizeY
+  return (x, z) => verticalOffset + (sampler.sample2D(x, z) * amplitude)
+}
@@ -0,0 +1,31 @@
+// Tiling
+// Seamless noise that repeats every `period` units in X and Z. FastNoiseLite has no 4D noise to wrap
+// onto a torus, so this uses periodic blending: the value at a wrapped position mixes the noise at
+// the four copies (x, x - P) × (z, z - P), weighted so both edges of a period read the same samples.
+// Only the terrain noise (and climate/expression inputs) wraps: expressions reading X/Z and the cave/ore noises don't.
+
+export interface TilingSettings {
+  enabled: boolean
+  period: number // World units after which the noise repeats (X and Z)
+}
+
+export function createDefaultTilingSettings(): TilingSettings {
+  return { enabled: false, period: 64 }
+}
+
+// Wraps `sample` (taking world X/Z plus any passthrough args) so it repeats every `period`.
+// Blending averages independent values, so the result is rescaled to keep the original contrast.
+export function createTiledSampler<Rest extends unknown[]>(
+  sample: (x: number, z: number, ...rest: Rest) => number,
+  period: number
+): (x: number, z: number, ...rest: Rest) => number {
+  const p = Math.max(1, period)
+  return (x, z, ...rest) => {
+    const wx = ((x % p) + p) % p, wz = ((z % p) + p) % p
+    const u = wx / p, v = wz / p
+    const w00 = (1 - u) * (1 - v), w10 = u * (1 - v), w01 = (1 - u) * v, w11 = u * v
+    const value = sample(wx, wz, ...rest) * w00 + sample(wx - p, wz, ...rest) * w10
+      + sample(wx, wz - p, ...rest) * w01 + sample(wx - p, wz - p, ...rest) * w11
+    return value / Math.sqrt(w00 * w00 + w10 * w10 + w01 * w01 + w11 * w11)
+  }
+}
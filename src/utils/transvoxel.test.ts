@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest'
+import { MeshBuilder, OUTSIDE_DENSITY, marchGrid, sampleDensityGrid } from './marchingCubes'
+import type { MarchingCubesResult } from './marchingCubes'
+import { checkMeshTopology, isWatertight } from './meshTopology'
+import { createNoiseSampler } from './noiseSampler'
+import { generateTransvoxelMesh } from './transvoxel'
+import type { ChunkLod } from './chunkLod'
+
+type Density = (x: number, y: number, z: number) => number
+
+const SIZE = 33 // A seamless chunk: 32 voxels plus the neighbour's first row
+const LAST = SIZE - 1
+const sampler = createNoiseSampler() // Default OpenSimplex2, frequency 0.01
+const noise: Record<string, Density> = {
+  '3D': (x, y, z) => -sampler.sample3D(x * 3, y * 3, z * 3),
+  '2D': (x, y, z) => y - (SIZE / 4 + (SIZE / 4) * sampler.sample2D(x * 2, z * 2))
+}
+
+// Neighbour offsets in ChunkLod.neighbours order
+const SIDES: [string, number, number][] = [['-X', -LAST, 0], ['+X', LAST, 0], ['-Z', 0, -LAST], ['+Z', 0, LAST]]
+
+// Density that is air outside the given chunks (offsets in voxels): the chunks' surfaces close over their
+// outer border, so together they are watertight only if the seams between them are
+function enclosed(density: Density, chunks: [number, number][]): Density {
+  const inChunk = (x: number, z: number) => chunks.some(([ox, oz]) => x >= ox && x <= ox + LAST && z >= oz && z <= oz + LAST)
+  return (x, y, z) => {
+    const inside = y > 0 && y < LAST && [-0.5, 0.5].every(dx => [-0.5, 0.5].every(dz => inChunk(x + dx, z + dz)))
+    return inside ? density(x, y, z) : OUTSIDE_DENSITY
+  }
+}
+
+// Full-resolution chunk at the given offset without its walls, in the coarse chunk's frame
+function fineSurface(density: Density, isolevel: number, offsetX: number, offsetZ: number): MarchingCubesResult {
+  const mesh = new MeshBuilder(SIZE, SIZE, SIZE)
+  marchGrid(sampleDensityGrid(SIZE, SIZE, SIZE, (x, y, z) => density(x + offsetX, y, z + offsetZ)), SIZE, SIZE, SIZE, isolevel, mesh)
+  return shifted(mesh.result(), offsetX, offsetZ)
+}
+
+function shifted(mesh: MarchingCubesResult, offsetX: number, offsetZ: number): MarchingCubesResult {
+  const vertices = mesh.vertices.slice()
+  for (let i = 0; i < vertices.length; i += 3) {
+    vertices[i] += offsetX
+    vertices[i + 2] += offsetZ
+  }
+  return { ...mesh, vertices }
+}
+
+// Drops the triangles on or past the plane x = `x` in `direction` (the walls a chunk puts on that border)
+function withoutWalls(mesh: MarchingCubesResult, x: number, direction: number): MarchingCubesResult {
+  const indices: number[] = []
+  for (let i = 0; i < mesh.indices.length; i += 3) {
+    const corners = [mesh.indices[i], mesh.indices[i + 1], mesh.indices[i + 2]]
+    if (!corners.every(v => (mesh.vertices[v * 3] - x) * direction > -1e-4)) indices.push(...corners)
+  }
+  return { ...mesh, indices: new Uint32Array(indices) }
+}
+
+function union(...meshes: MarchingCubesResult[]): MarchingCubesResult {
+  const vertices: number[] = [], normals: number[] = [], indices: number[] = []
+  for (const mesh of meshes) {
+    const offset = vertices.length / 3
+    vertices.push(...mesh.vertices)
+    normals.push(...mesh.normals)
+    indices.push(...Array.from(mesh.indices, i => i + offset))
+  }
+  return { vertices: new Float32Array(vertices), normals: new Float32Array(normals), indices: new Uint32Array(indices) }
+}
+
+const lod = (level: number, finer: number[]): ChunkLod => ({
+  level,
+  neighbours: [0, 1, 2, 3].map(side => (finer.includes(side) ? level - 1 : level)) as ChunkLod['neighbours']
+})
+
+describe('transvoxel seams', () => {
+  for (const [mode, density] of Object.entries(noise)) {
+    for (const isolevel of [-0.3, 0, 0.3]) {
+      describe(`${mode} noise at isolevel ${isolevel}`, () => {
+        const use3D = mode === '3D'
+        const seam = -LAST / 2 // The -X plane in the coarse chunk's centered frame
+
+        SIDES.forEach(([name, offsetX, offsetZ], side) => {
+          it(`closes the seam to a full-resolution ${name} neighbour`, () => {
+            const field = enclosed(density, [[0, 0], [offsetX, offsetZ]])
+            const coarse = generateTransvoxelMesh(SIZE, SIZE, SIZE, field, isolevel, use3D, lod(1, [side]))
+            const report = checkMeshTopology(union(coarse, fineSurface(field, isolevel, offsetX, offsetZ)))
+            expect(report.triangles).toBeGreaterThan(0)
+            expect(isWatertight(report)).toBe(true)
+          })
+        })
+
+        it('closes both seams at a corner', () => {
+          const field = enclosed(density, [[0, 0], [-LAST, 0], [0, -LAST]])
+          const coarse = generateTransvoxelMesh(SIZE, SIZE, SIZE, field, isolevel, use3D, lod(1, [0, 2]))
+          const report = checkMeshTopology(union(coarse, fineSurface(field, isolevel, -LAST, 0), fineSurface(field, isolevel, 0, -LAST)))
+          expect(isWatertight(report)).toBe(true)
+        })
+
+        it('closes the seam between two reduced levels', () => {
+          const field = enclosed(density, [[0, 0], [-LAST, 0]])
+          const coarse = generateTransvoxelMesh(SIZE, SIZE, SIZE, field, isolevel, use3D, lod(2, [0]))
+          const fine = generateTransvoxelMesh(SIZE, SIZE, SIZE, (x, y, z) => field(x - LAST, y, z), isolevel, use3D, lod(1, []))
+          const report = checkMeshTopology(union(coarse, withoutWalls(shifted(fine, -LAST, 0), seam, 1)))
+          expect(isWatertight(report)).toBe(true)
+        })
+
+        it('leaves the seam open without transition cells', () => {
+          const field = enclosed(density, [[0, 0], [-LAST, 0]])
+          const coarse = generateTransvoxelMesh(SIZE, SIZE, SIZE, field, isolevel, use3D, lod(1, []))
+          const report = checkMeshTopology(union(withoutWalls(coarse, seam, -1), fineSurface(field, isolevel, -LAST, 0)))
+          expect(report.boundaryEdges).toBeGreaterThan(0)
+        })
+      })
+    }
+  }
+})
@@ -0,0 +1,305 @@
+// Transvoxel
+// Marching cubes for a coarse LOD chunk with transition cells toward finer neighbours, after Lengyel's
+// Transvoxel algorithm. The chunk is polygonized on its coarse lattice; along each face that borders a chunk
+// one level finer, the outermost regular cells are squeezed by half a coarse cell and a transition cell
+// fills the slab under every coarse face square. Its outer face carries the neighbour's samples at the
+// neighbour's stride and its inner face the coarse ones, so its surface runs from the neighbour's contour
+// to the coarse one without cracks. Level 0 chunks mesh as usual; the coarse side does all the stitching.
+//
+// Instead of Lengyel's tables, each transition cell is polygonized directly: the contours on its six faces
+// are chained into loops and every loop is fanned around its centroid. The outer face contour comes from
+// the neighbour's own marching cubes case and the inner one from the adjacent regular cell's, so ambiguous
+// faces split the same way on both sides.
+//
+// Neighbours differ by one level at most (ChunkWorld's rings). At the corners of a LOD ring a squeezed chunk
+// also meets a same-level neighbour without a transition cell; the slit left there is closed by the walls.
+
+import { CORNER_OFFSETS, EDGE_AXES, EDGE_CORNERS, MeshBuilder, addChunkWalls, cellFaceContour, marchGrid, sampleDensityGrid } from './marchingCubes'
+import type { MarchingCubesResult, Vec3 } from './marchingCubes'
+import { createLatticeMap, latticePositions } from './chunkLod'
+import type { ChunkLod } from './chunkLod'
+
+// Share of a coarse cell the transition slab takes from the outermost regular cells
+const TRANSITION_WIDTH = 0.5
+
+// Neighbour order in ChunkLod.neighbours: axis (0 = x, 2 = z) and side (0 = low, 1 = high)
+const NEIGHBOUR_FACES: [number, number][] = [[0, 0], [0, 1], [2, 0], [2, 1]]
+
+export function generateTransvoxelMesh(
+  sizeX: number,
+  sizeY: number,
+  sizeZ: number,
+  densityFunction: (x: number, y: number, z: number) => number,
+  isolevel: number,
+  use3D: boolean,
+  lod: ChunkLod
+): MarchingCubesResult {
+  const stride = 1 << lod.level
+  const fineStride = stride >> 1
+  const sizes = [sizeX, sizeY, sizeZ]
+  const lattices = sizes.map(size => latticePositions(size, stride))
+  const counts = lattices.map(lattice => lattice.length)
+  const [countX, countY, countZ] = counts
+  const transitions = NEIGHBOUR_FACES.filter((_, i) => lod.neighbours[i] < lod.level)
+  const isTransition = (axis: number, side: number) => transitions.some(([a, s]) => a === axis && s === side)
+
+  // Regular cells and walls on the coarse lattice, in lattice index space
+  const field = sampleDensityGrid(countX, countY, countZ, (i, j, k) => densityFunction(lattices[0][i], lattices[1][j], lattices[2][k]))
+  const sample = (i: number, j: number, k: number) => field[(i * countY + j) * countZ + k]
+  const coarse = new MeshBuilder(countX, countY, countZ)
+  const edgeVertex = marchGrid(field, countX, countY, countZ, isolevel, coarse)
+  const regularIndexCount = coarse.indexCount
+  addChunkWalls(coarse, countX, countY, countZ, sample, isolevel, use3D)
+
+  // Back to voxels, with the lattice's border knot moved inward on every transition face
+  const maps = lattices.map((lattice, axis) => {
+    const knots = lattice.slice()
+    if (isTransition(axis, 0)) knots[0] += stride * TRANSITION_WIDTH
+    if (isTransition(axis, 1)) knots[knots.length - 1] -= stride * TRANSITION_WIDTH
+    return createLatticeMap(knots)
+  })
+  const coarseCenters = counts.map(count => count / 2 - 0.5)
+  const centers = sizes.map(size => size / 2 - 0.5)
+  const mesh = new MeshBuilder(sizeX, sizeY, sizeZ)
+  const lattice = new Array<number>(3)
+  for (let v = 0; v < coarse.vertexCount; v++) {
+    for (let axis = 0; axis < 3; axis++) lattice[axis] = coarse.vertices[v * 3 + axis] + coarseCenters[axis]
+    const n = coarse.normals
+    mesh.addVertex(maps[0](lattice[0]), maps[1](lattice[1]), maps[2](lattice[2]), n[v * 3], n[v * 3 + 1], n[v * 3 + 2])
+  }
+
+  // Regular triangles keep their vertex indices; walls on a transition face give way to the transition cells
+  const onTransitionFace = (a: number, b: number, c: number) => transitions.some(([axis, side]) => [a, b, c].every(v => {
+    const position = coarse.vertices[v * 3 + axis] + coarseCenters[axis]
+    return side === 0 ? position <= 1e-6 : position >= counts[axis] - 1 - 1e-6
+  }))
+  for (let i = 0; i < coarse.indexCount; i += 3) {
+    const a = coarse.indices[i], b = coarse.indices[i + 1], c = coarse.indices[i + 2]
+    if (i >= regularIndexCount && onTransitionFace(a, b, c)) continue
+    mesh.addTriangle(a, b, c)
+  }
+
+  // Vertices on the neighbour-resolution edges of the outer faces, shared between transition cells (and
+  // between the two faces at a corner column); normals from the density gradient at the fine stride
+  const fineVertices = new Map<string, number>()
+  const gradients = new Map<string, number[]>()
+  const gradientAt = (point: number[]): number[] => {
+    const key = point.join()
+    let gradient = gradients.get(key)
+    if (!gradient) {
+      const [x, y, z] = point
+      gradient = [
+        densityFunction(x + fineStride, y, z) - densityFunction(x - fineStride, y, z),
+        densityFunction(x, y + fineStride, z) - densityFunction(x, y - fineStride, z),
+        densityFunction(x, y, z + fineStride) - densityFunction(x, y, z - fineStride)
+      ]
+      gradients.set(key, gradient)
+    }
+    return gradient
+  }
+  const fineVertex = (a: number[], valueA: number, b: number[], valueB: number): number => {
+    if (a.join() > b.join()) return fineVertex(b, valueB, a, valueA)
+    const key = `${a.join()}|${b.join()}`
+    const existing = fineVertices.get(key)
+    if (existing !== undefined) return existing
+
+    const t = (isolevel - valueA) / (valueB - valueA)
+    const gradientA = gradientAt(a), gradientB = gradientAt(b)
+    const normal = [0, 1, 2].map(axis => gradientA[axis] + t * (gradientB[axis] - gradientA[axis]))
+    const length = Math.hypot(normal[0], normal[1], normal[2]) || 1
+    const index = mesh.addVertex(
+      a[0] + t * (b[0] - a[0]), a[1] + t * (b[1] - a[1]), a[2] + t * (b[2] - a[2]),
+      normal[0] / length, normal[1] / length, normal[2] / length
+    )
+    fineVertices.set(key, index)
+    return index
+  }
+
+  // Closes each contour loop of a transition cell. `faceSegments` come from the outer and inner faces, already
+  // reversed from the triangles across them, so they fix the winding; `sideSegments` only link the loop up.
+  const addLoops = (faceSegments: number[], sideSegments: number[]) => {
+    const links = new Map<number, number[]>()
+    const link = (from: number, to: number) => {
+      const list = links.get(from)
+      if (list) list.push(to)
+      else links.set(from, [to])
+    }
+    for (const segments of [faceSegments, sideSegments]) {
+      for (let i = 0; i < segments.length; i += 2) {
+        link(segments[i], segments[i + 1])
+        link(segments[i + 1], segments[i])
+      }
+    }
+    const directed = new Set<string>()
+    for (let i = 0; i < faceSegments.length; i += 2) directed.add(`${faceSegments[i]}>${faceSegments[i + 1]}`)
+
+    const visited = new Set<number>()
+    for (const start of links.keys()) {
+      if (visited.has(start)) continue
+      const loop = [start]
+      visited.add(start)
+      let previous = start
+      let current: number | undefined = links.get(start)![0]
+      while (current !== undefined && !visited.has(current)) {
+        loop.push(current)
+        visited.add(current)
+        const next: number | undefined = links.get(current)!.find(v => v !== previous)
+        previous = current
+        current = next
+      }
+      if (loop.length < 3) continue
+      const backwards = loop.some((v, i) => directed.has(`${loop[(i + 1) % loop.length]}>${v}`))
+      if (backwards) loop.reverse()
+
+      if (loop.length === 3) {
+        mesh.addTriangle(loop[0], loop[1], loop[2])
+        continue
+      }
+      // Fan around the centroid, with the average normal
+      const { vertices, normals } = mesh
+      const sum = [0, 0, 0], normal = [0, 0, 0]
+      for (const v of loop) {
+        for (let axis = 0; axis < 3; axis++) {
+          sum[axis] += vertices[v * 3 + axis]
+          normal[axis] += normals[v * 3 + axis]
+        }
+      }
+      const length = Math.hypot(normal[0], normal[1], normal[2]) || 1
+      const center = mesh.addVertex(
+        sum[0] / loop.length + centers[0], sum[1] / loop.length + centers[1], sum[2] / loop.length + centers[2],
+        normal[0] / length, normal[1] / length, normal[2] / length
+      )
+      for (let i = 0; i < loop.length; i++) mesh.addTriangle(center, loop[i], loop[(i + 1) % loop.length])
+    }
+  }
+
+  // Solid part of a transition cell side that lies in the chunk's border plane, where the squeezed walls
+  // leave it open: the side's outline (corners with their densities) clipped to the solid, facing `outward`
+  const addSideWall = (outline: [Vec3, number][], outward: Vec3) => {
+    const polygon: Vec3[] = []
+    for (let i = 0; i < outline.length; i++) {
+      const [a, valueA] = outline[i], [b, valueB] = outline[(i + 1) % outline.length]
+      if (valueA < isolevel) polygon.push(a)
+      if ((valueA < isolevel) !== (valueB < isolevel)) {
+        const t = (isolevel - valueA) / (valueB - valueA)
+        polygon.push({ x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y), z: a.z + t * (b.z - a.z) })
+      }
+    }
+    for (let i = 1; i < polygon.length - 1; i++) {
+      const a = polygon[0], b = polygon[i], c = polygon[i + 1]
+      const e1x = b.x - a.x, e1y = b.y - a.y, e1z = b.z - a.z
+      const e2x = c.x - a.x, e2y = c.y - a.y, e2z = c.z - a.z
+      const facing = (e1y * e2z - e1z * e2y) * outward.x + (e1z * e2x - e1x * e2z) * outward.y + (e1x * e2y - e1y * e2x) * outward.z
+      if (facing > 1e-9) mesh.addFlatTriangle(a, b, c, outward)
+      else if (facing < -1e-9) mesh.addFlatTriangle(a, c, b, outward)
+    }
+  }
+
+  for (const [axis, side] of transitions) {
+    const across = 2 - axis // The face's horizontal axis; its vertical one is y
+    const plane = side === 0 ? 0 : counts[axis] - 1 // Lattice index of the face
+    const cellIndex = side === 0 ? 0 : counts[axis] - 2 // Regular cell beside it
+    const planeX = lattices[axis][plane]
+    const outside = planeX + (side === 0 ? -fineStride : fineStride)
+    // Voxel position from the coordinate across the face, y and the coordinate along it
+    const voxel = (a: number, y: number, h: number) => (axis === 0 ? [a, y, h] : [h, y, a])
+    const latticePoint = (a: number, j: number, h: number) => (axis === 0 ? (a * countY + j) * countZ + h : (h * countY + j) * countZ + a)
+
+    // The neighbour's samples on the shared plane and one fine step beyond it
+    const fineY = latticePositions(sizeY, fineStride)
+    const fineH = latticePositions(sizes[across], fineStride)
+    const fineYIndex = new Map(fineY.map((y, i) => [y, i]))
+    const fineHIndex = new Map(fineH.map((h, i) => [h, i]))
+    const planeValues = new Float32Array(fineY.length * fineH.length) // Float32 like the neighbour's own grid, so both classify the corners alike
+    const outsideValues = new Float32Array(fineY.length * fineH.length)
+    for (let p = 0; p < fineY.length; p++) {
+      for (let q = 0; q < fineH.length; q++) {
+        const [x, y, z] = voxel(planeX, fineY[p], fineH[q])
+        planeValues[p * fineH.length + q] = densityFunction(x, y, z)
+        const [ox, oy, oz] = voxel(outside, fineY[p], fineH[q])
+        outsideValues[p * fineH.length + q] = densityFunction(ox, oy, oz)
+      }
+    }
+    const planePoint = (p: number, q: number) => voxel(planeX, fineY[p], fineH[q])
+    const planeValue = (p: number, q: number) => planeValues[p * fineH.length + q]
+    const planeVertex = (p0: number, q0: number, p1: number, q1: number) =>
+      fineVertex(planePoint(p0, q0), planeValue(p0, q0), planePoint(p1, q1), planeValue(p1, q1))
+    // Squeezed position of a coarse lattice point on the inner face
+    const innerPoint = (j: number, h: number): Vec3 => {
+      const [i, y, k] = voxel(plane, j, h)
+      return { x: maps[0](i), y: maps[1](y), z: maps[2](k) }
+    }
+
+    const neighbourFace = side === 0 ? 1 : 0 // The shared plane is the neighbour cell's far face
+    for (let j = 0; j < countY - 1; j++) {
+      for (let h = 0; h < counts[across] - 1; h++) {
+        const faceSegments: number[] = []
+        const sideSegments: number[] = []
+        const p0 = fineYIndex.get(lattices[1][j])!, p1 = fineYIndex.get(lattices[1][j + 1])!
+        const q0 = fineHIndex.get(lattices[across][h])!, q1 = fineHIndex.get(lattices[across][h + 1])!
+
+        // Outer face: the neighbour's contour, one sub-square at a time
+        for (let p = p0; p < p1; p++) {
+          for (let q = q0; q < q1; q++) {
+            let cubeIndex = 0
+            for (let c = 0; c < 8; c++) {
+              const offset = CORNER_OFFSETS[c]
+              const index = (p + offset[1]) * fineH.length + q + offset[across]
+              const value = offset[axis] === neighbourFace ? planeValues[index] : outsideValues[index]
+              if (value < isolevel) cubeIndex |= 1 << c
+            }
+            const contour = cellFaceContour(cubeIndex, axis, neighbourFace).reverse() // Flips every segment
+            for (const edge of contour) {
+              const [a, b] = EDGE_CORNERS[edge].map(c => CORNER_OFFSETS[c])
+              faceSegments.push(planeVertex(p + a[1], q + a[across], p + b[1], q + b[across]))
+            }
+          }
+        }
+
+        // Inner face: the adjacent regular cell's contour, on the regular vertices
+        const cell = latticePoint(cellIndex, j, h)
+        const cornerPoint = (c: number) => {
+          const [dx, dy, dz] = CORNER_OFFSETS[c]
+          return cell + (dx * countY + dy) * countZ + dz
+        }
+        let cubeIndex = 0
+        for (let c = 0; c < 8; c++) {
+          if (field[cornerPoint(c)] < isolevel) cubeIndex |= 1 << c
+        }
+        for (const edge of cellFaceContour(cubeIndex, axis, side).reverse()) {
+          faceSegments.push(edgeVertex[cornerPoint(EDGE_CORNERS[edge][0]) * 3 + EDGE_AXES[edge]])
+        }
+
+        // Sides: the fine crossings along the outer edge pair up with each other or with the coarse edge's
+        const addSide = (fine: [number, number][], from: [number, number], to: [number, number], coarseAxis: number, wall: Vec3 | null) => {
+          const crossings: number[] = []
+          for (let i = 0; i < fine.length - 1; i++) {
+            const [pa, qa] = fine[i], [pb, qb] = fine[i + 1]
+            if ((planeValue(pa, qa) < isolevel) !== (planeValue(pb, qb) < isolevel)) crossings.push(planeVertex(pa, qa, pb, qb))
+          }
+          if (crossings.length === 2) sideSegments.push(crossings[0], crossings[1])
+          else if (crossings.length === 1) sideSegments.push(crossings[0], edgeVertex[latticePoint(plane, from[0], from[1]) * 3 + coarseAxis])
+          if (!wall) return
+
+          const outline: [Vec3, number][] = fine.map(([p, q]) => {
+            const [x, y, z] = planePoint(p, q)
+            return [{ x, y, z }, planeValue(p, q)]
+          })
+          outline.push([innerPoint(to[0], to[1]), planeValue(...fine[fine.length - 1])], [innerPoint(from[0], from[1]), planeValue(...fine[0])])
+          addSideWall(outline, wall)
+        }
+        // Sides in the chunk's bottom, top (3D only, like the walls) and plain border planes get wall pieces
+        const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i)
+        const outward = (axisOut: number, sign: number): Vec3 => ({ x: axisOut === 0 ? sign : 0, y: axisOut === 1 ? sign : 0, z: axisOut === 2 ? sign : 0 })
+        addSide(range(q0, q1).map(q => [p0, q]), [j, h], [j, h + 1], across, j === 0 ? outward(1, -1) : null)
+        addSide(range(q0, q1).map(q => [p1, q]), [j + 1, h], [j + 1, h + 1], across, use3D && j === countY - 2 ? outward(1, 1) : null)
+        addSide(range(p0, p1).map(p => [p, q0]), [j, h], [j + 1, h], 1, h === 0 && !isTransition(across, 0) ? outward(across, -1) : null)
+        addSide(range(p0, p1).map(p => [p, q1]), [j, h + 1], [j + 1, h + 1], 1, h === counts[across] - 2 && !isTransition(across, 1) ? outward(across, 1) : null)
+
+        addLoops(faceSegments, sideSegments)
+      }
+    }
+  }
+
+  return mesh.result()
+}
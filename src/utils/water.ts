@@ -0,0 +1,39 @@
+// Water
+// Sea level fill: air below the sea level becomes water, and surface blocks near it become beach
+
+export type SeaLevelMode = 'absolute' | 'percent'
+
+export interface WaterSettings {
+  enabled: boolean
+  mode: SeaLevelMode
+  level: number // Blocks, used in 'absolute' mode
+  levelPercent: number // % of the chunk height, used in 'percent' mode
+  beachWidth: number // Surface blocks within this many blocks of the sea level turn into beach
+  tintPreview: boolean // Tint preview pixels whose terrain is below the sea level
+}
+
+export const WATER_COLOR = '#3a6fd8'
+export const WATER_OPACITY = 0.6
+
+export function createDefaultWaterSettings(): WaterSettings {
+  return {
+    enabled: false,
+    mode: 'percent',
+    level: 8,
+    levelPercent: 25,
+    beachWidth: 1,
+    tintPreview: true
+  }
+}
+
+// Highest Y level filled with water
+export function getSeaLevel(settings: WaterSettings, sizeY: number): number {
+  return settings.mode === 'absolute'
+    ? Math.floor(settings.level)
+    : Math.floor((settings.levelPercent / 100) * sizeY)
+}
+
+// Whether a surface block at `height` counts as beach
+export function isBeach(height: number, seaLevel: number, beachWidth: number): boolean {
+  return Math.abs(height - seaLevel) <= beachWidth
+}
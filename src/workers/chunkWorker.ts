@@ -0,0 +1,19 @@
+// Chunk Worker
+// Generates one chunk per message and transfers the typed arrays back to the pool.
+
+import { generateChunk, getChunkTransferables } from '../utils/chunkGenerator'
+import type { ChunkWorkerRequest, ChunkWorkerResponse } from '../utils/chunkWorkerPool'
+
+const scope = self as unknown as Worker
+
+scope.onmessage = (event: MessageEvent<ChunkWorkerRequest>) => {
+  const { id, settings } = event.data
+  try {
+    const data = generateChunk(settings)
+    const response: ChunkWorkerResponse = { id, data }
+    scope.postMessage(response, getChunkTransferables(data))
+  } catch (error) {
+    const response: ChunkWorkerResponse = { id, error: (error as Error).message }
+    scope.postMessage(response)
+  }
+}